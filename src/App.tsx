@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { 
   createBrowserRouter, 
   RouterProvider, 
@@ -17,6 +17,12 @@ import CollageViewerPage from './pages/CollageViewerPage';
 import CollageModerationPage from './pages/CollageModerationPage';
 import PhotoboothPage from './pages/PhotoboothPage';
 import JoinCollage from './pages/JoinCollage';
+import InvitePage from './pages/InvitePage';
+
+// Route guards
+import RequireAuth from './components/auth/RequireAuth';
+import RequireCollageRole from './components/auth/RequireCollageRole';
+import { useAuthStore } from './store/authStore';
 
 // Create router with future flag enabled
 const router = createBrowserRouter(
@@ -29,15 +35,28 @@ const router = createBrowserRouter(
       <Route path="/join" element={<JoinCollage />} />
       <Route path="/collage/:code" element={<CollageViewerPage />} />
       <Route path="/photobooth/:code" element={<PhotoboothPage />} />
+      <Route path="/invite/:token" element={<InvitePage />} />
       
       {/* Redirect for common typo */}
       <Route path="/dashbaord" element={<Navigate to="/dashboard" replace />} />
       
       {/* Protected routes - require authentication */}
-      <Route path="/dashboard" element={<DashboardPage />} />
-      <Route path="/dashboard/collage/:id" element={<CollageEditorPage />} />
-      <Route path="/collage/:id/moderation" element={<CollageModerationPage />} />
-      <Route path="/moderation/:id" element={<CollageModerationPage />} />
+      <Route element={<RequireAuth />}>
+        <Route path="/dashboard" element={<DashboardPage />} />
+        {/* Any team role gets in; the pages hide what the role can't do */}
+        <Route
+          path="/dashboard/collage/:id"
+          element={<RequireCollageRole role="viewer"><CollageEditorPage /></RequireCollageRole>}
+        />
+        <Route
+          path="/collage/:id/moderation"
+          element={<RequireCollageRole role="viewer"><CollageModerationPage /></RequireCollageRole>}
+        />
+        <Route
+          path="/moderation/:id"
+          element={<RequireCollageRole role="viewer"><CollageModerationPage /></RequireCollageRole>}
+        />
+      </Route>
     </Route>
   ),
   {
@@ -49,6 +68,13 @@ const router = createBrowserRouter(
 );
 
 function App() {
+  const initialize = useAuthStore(state => state.initialize);
+
+  // Restore the saved session once for the whole app
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
   return (
     <RouterProvider router={router} />
   );
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Lock, Mail, User } from 'lucide-react';
 import { useAuthStore } from '../../store/authStore';
+import { REDIRECT_PARAM, loginPath, safeRedirect } from '../../lib/authRedirect';
 
 type AuthFormProps = {
   isLogin?: boolean;
@@ -13,15 +14,18 @@ const AuthForm: React.FC<AuthFormProps> = ({ isLogin = true }) => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Where a route guard sent the user from, if anywhere
+  const returnTo = searchParams.get(REDIRECT_PARAM);
   
   const { signIn, signUp, loading, error, clearError, user } = useAuthStore();
 
-  // If user is already logged in, redirect to dashboard
+  // FIXED: Once signed in, go back to the page that asked for it instead of always the home page
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(safeRedirect(returnTo), { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, returnTo]);
 
   // Display auth store errors
   useEffect(() => {
@@ -74,7 +78,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ isLogin = true }) => {
         } else {
           setSuccessMessage("Account created successfully! Please sign in.");
           setTimeout(() => {
-            navigate('/login');
+            navigate(returnTo ? loginPath(safeRedirect(returnTo)) : '/login');
           }, 2000);
           return;
         }
@@ -190,7 +194,8 @@ const AuthForm: React.FC<AuthFormProps> = ({ isLogin = true }) => {
               clearError();
               setErrorMessage(null);
               setSuccessMessage(null);
-              navigate(isLogin ? '/signup' : '/login');
+              const page = isLogin ? '/signup' : '/login';
+              navigate(returnTo ? loginPath(safeRedirect(returnTo), page) : page);
             }}
             className="text-sm text-purple-300 hover:text-purple-200 transition-colors"
           >
@@ -0,0 +1,39 @@
+// src/components/auth/RequireAuth.tsx - Route guard for signed-in pages
+// Waits for the saved session to be restored, then either renders the page or sends the user to
+// the login page with a return URL. Works as a layout route (renders <Outlet />) or around children.
+import React, { useEffect } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore';
+import { loginPath } from '../../lib/authRedirect';
+import Layout from '../layout/Layout';
+
+interface RequireAuthProps {
+  children?: React.ReactNode;
+}
+
+const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const location = useLocation();
+  const { user, initialized, initialize } = useAuthStore();
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  if (!initialized) {
+    return (
+      <Layout>
+        <div className="min-h-[calc(100vh-160px)] flex items-center justify-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to={loginPath(location.pathname + location.search + location.hash)} replace />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default RequireAuth;
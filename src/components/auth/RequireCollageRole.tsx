@@ -0,0 +1,80 @@
+// src/components/auth/RequireCollageRole.tsx - Route guard for collage team pages
+// Goes inside RequireAuth on routes with an :id param. Renders the page when the signed-in user
+// has at least `role` on that collage, and the 403 page otherwise. The page reads the role with
+// useGuardedCollageRole() instead of fetching it again.
+import React, { createContext, useContext } from 'react';
+import { useParams } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import Layout from '../layout/Layout';
+import ForbiddenPage from '../../pages/ForbiddenPage';
+import { useCollageRole, hasCollageRole, COLLAGE_ROLE_LABELS, type CollageRole } from '../../lib/collageRoles';
+
+interface RequireCollageRoleProps {
+  role: CollageRole; // Minimum role
+  children: React.ReactNode;
+}
+
+const CollageRoleContext = createContext<CollageRole | null>(null);
+
+export const useGuardedCollageRole = (): CollageRole => {
+  const role = useContext(CollageRoleContext);
+  if (!role) {
+    throw new Error('useGuardedCollageRole must be used inside RequireCollageRole');
+  }
+  return role;
+};
+
+const RequireCollageRole: React.FC<RequireCollageRoleProps> = ({ role: requiredRole, children }) => {
+  const { id } = useParams<{ id: string }>();
+  const { role, loading, error, reload } = useCollageRole(id);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="min-h-[calc(100vh-160px)] flex items-center justify-center">
+          <div className="text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+            <p className="mt-2 text-gray-400">Checking access...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  // A failed check isn't a "no" - let the user try again instead of showing the 403
+  if (error) {
+    return (
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+          <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-4">Couldn't Check Access</h2>
+          <p className="text-gray-400 mb-6">{error}</p>
+          <button
+            onClick={reload}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!role || !hasCollageRole(role, requiredRole)) {
+    return (
+      <ForbiddenPage
+        message={role
+          ? `This page needs the ${COLLAGE_ROLE_LABELS[requiredRole].toLowerCase()} role or higher. You're a ${COLLAGE_ROLE_LABELS[role].toLowerCase()} on this collage.`
+          : "This collage doesn't exist, or you're not on its team. Ask the owner for an invite."}
+      />
+    );
+  }
+
+  return (
+    <CollageRoleContext.Provider value={role}>
+      {children}
+    </CollageRoleContext.Provider>
+  );
+};
+
+export default RequireCollageRole;
@@ -2,9 +2,12 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCollageStore } from '../../store/collageStore';
 import { PlusIcon } from 'lucide-react';
+import { validateCollageCode, COLLAGE_CODE_MAX_LENGTH } from '../../lib/collageCodes';
 
 const CollageForm: React.FC = () => {
   const [name, setName] = useState('');
+  // Optional vanity code - empty lets the database pick one
+  const [code, setCode] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -18,16 +21,23 @@ const CollageForm: React.FC = () => {
       setError('Please enter a name for your collage');
       return;
     }
+
+    const codeError = code.trim() ? validateCollageCode(code) : null;
+    if (codeError) {
+      setError(codeError);
+      return;
+    }
     
     setIsCreating(true);
     setError(null);
     
     try {
-      const collage = await createCollage(name);
+      const collage = await createCollage(name, code.trim() || undefined);
       if (collage) {
         navigate(`/dashboard/collage/${collage.id}`);
       } else {
-        throw new Error('Failed to create collage');
+        // e.g. the vanity code is taken
+        throw new Error(useCollageStore.getState().error || 'Failed to create collage');
       }
     } catch (err: any) {
       setError(err.message || 'Failed to create collage');
@@ -61,6 +71,25 @@ const CollageForm: React.FC = () => {
             disabled={isCreating}
           />
         </div>
+
+        <div className="mb-4">
+          <label htmlFor="collageCode" className="block text-sm font-medium text-gray-300 mb-1">
+            Custom Code <span className="text-gray-500">(optional)</span>
+          </label>
+          <input
+            id="collageCode"
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            maxLength={COLLAGE_CODE_MAX_LENGTH + 4}
+            className="w-full bg-black/30 border border-gray-700 rounded-md py-2 px-3 text-white uppercase tracking-wider focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder="SMITHWEDDING"
+            disabled={isCreating}
+          />
+          <p className="mt-1 text-xs text-gray-400">
+            Leave empty for a short random code guests can type easily.
+          </p>
+        </div>
         
         <button
           type="submit"
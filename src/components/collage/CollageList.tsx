@@ -1,7 +1,8 @@
 import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useCollageStore, type Collage } from '../../store/collageStore';
-import { Image, ExternalLink, Edit, Trash2, Pencil } from 'lucide-react';
+import { Image, ExternalLink, Edit, Trash2, Pencil, Users } from 'lucide-react';
+import { canEditScene, canManageCollage, COLLAGE_ROLE_LABELS } from '../../lib/collageRoles';
 import CollageNameModal from './CollageNameModal';
 
 const CollageList: React.FC = () => {
@@ -92,11 +93,18 @@ const CollageList: React.FC = () => {
               </p>
               
               <div className="flex items-center text-sm">
-                <div className="flex-1">
+                <div className="flex-1 flex items-center space-x-2">
                   <div className="inline-flex items-center px-2 py-1 rounded bg-white/5 text-white/60 text-xs">
                     <Image className="w-3 h-3 mr-1" />
                     Code: {collage.code}
                   </div>
+                  {/* Shared with you through an invite */}
+                  {collage.role && collage.role !== 'owner' && (
+                    <div className="inline-flex items-center px-2 py-1 rounded bg-purple-500/20 text-purple-200 text-xs">
+                      <Users className="w-3 h-3 mr-1" />
+                      {COLLAGE_ROLE_LABELS[collage.role]}
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -110,13 +118,15 @@ const CollageList: React.FC = () => {
                     Edit
                   </Link>
                   
-                  <button
-                    onClick={(e) => handleRename(collage, e)}
-                    className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
-                  >
-                    <Pencil className="h-4 w-4 mr-1" />
-                    Rename
-                  </button>
+                  {canEditScene(collage.role) && (
+                    <button
+                      onClick={(e) => handleRename(collage, e)}
+                      className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Rename
+                    </button>
+                  )}
                 </div>
                 
                 <div className="flex space-x-2">
@@ -130,18 +140,20 @@ const CollageList: React.FC = () => {
                     View
                   </Link>
                   
-                  <button
-                    onClick={(e) => handleDelete(collage.id, e)}
-                    disabled={isDeleting === collage.id}
-                    className="inline-flex items-center text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
-                  >
-                    {isDeleting === collage.id ? (
-                      <span className="h-4 w-4 mr-1 border-2 border-red-400 border-t-transparent rounded-full animate-spin" />
-                    ) : (
-                      <Trash2 className="h-4 w-4 mr-1" />
-                    )}
-                    Delete
-                  </button>
+                  {canManageCollage(collage.role) && (
+                    <button
+                      onClick={(e) => handleDelete(collage.id, e)}
+                      disabled={isDeleting === collage.id}
+                      className="inline-flex items-center text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      {isDeleting === collage.id ? (
+                        <span className="h-4 w-4 mr-1 border-2 border-red-400 border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4 mr-1" />
+                      )}
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -152,6 +164,7 @@ const CollageList: React.FC = () => {
       {selectedCollage && (
         <CollageNameModal
           collage={selectedCollage}
+          canChangeCode={canManageCollage(selectedCollage.role)}
           isOpen={isRenameModalOpen}
           onClose={() => {
             setIsRenameModalOpen(false);
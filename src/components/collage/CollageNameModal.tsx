@@ -1,22 +1,28 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { useCollageStore } from '../../store/collageStore';
+import { normalizeCollageCode, validateCollageCode, COLLAGE_CODE_MAX_LENGTH } from '../../lib/collageCodes';
 
 interface CollageNameModalProps {
   collage: {
     id: string;
     name: string;
+    code: string;
   };
+  // Owners can also change the join code
+  canChangeCode?: boolean;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const CollageNameModal: React.FC<CollageNameModalProps> = ({ collage, isOpen, onClose }) => {
+const CollageNameModal: React.FC<CollageNameModalProps> = ({ collage, canChangeCode = false, isOpen, onClose }) => {
   const [name, setName] = useState(collage.name);
+  const [code, setCode] = useState(collage.code);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  const { updateCollageName } = useCollageStore();
+  const { updateCollageName, updateCollageCode } = useCollageStore();
+  const codeChanged = canChangeCode && normalizeCollageCode(code) !== collage.code;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -25,17 +31,25 @@ const CollageNameModal: React.FC<CollageNameModalProps> = ({ collage, isOpen, on
       setError('Please enter a name for your collage');
       return;
     }
+
+    const codeError = codeChanged ? validateCollageCode(code) : null;
+    if (codeError) {
+      setError(codeError);
+      return;
+    }
     
     setIsSubmitting(true);
     setError(null);
     
     try {
       const result = await updateCollageName(collage.id, name);
-      if (result) {
-        onClose();
-      } else {
+      if (!result) {
         throw new Error('Failed to update collage name');
       }
+      if (codeChanged) {
+        await updateCollageCode(collage.id, code);
+      }
+      onClose();
     } catch (err: any) {
       setError(err.message || 'Failed to update collage name');
     } finally {
@@ -80,6 +94,29 @@ const CollageNameModal: React.FC<CollageNameModalProps> = ({ collage, isOpen, on
               disabled={isSubmitting}
             />
           </div>
+
+          {canChangeCode && (
+            <div className="mb-4">
+              <label htmlFor="collageCode" className="block text-sm font-medium text-gray-300 mb-1">
+                Join Code
+              </label>
+              <input
+                id="collageCode"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                maxLength={COLLAGE_CODE_MAX_LENGTH + 4}
+                className="bg-gray-800 text-white block w-full px-3 py-2 border border-gray-700 rounded-md uppercase tracking-wider focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="SMITHWEDDING"
+                disabled={isSubmitting}
+              />
+              {codeChanged && (
+                <p className="mt-1 text-xs text-yellow-300">
+                  Printed QR codes and shared links with {collage.code} will stop working.
+                </p>
+              )}
+            </div>
+          )}
           
           <div className="flex justify-end space-x-3">
             <button
@@ -1,14 +1,17 @@
 // src/components/collage/CollagePhotos.tsx
 import React, { useEffect } from 'react';
 import { useCollageStore } from '../../store/collageStore';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
+import { isPhotoApproved, isPhotoPending, PHOTO_STATUS_LABELS } from '../../lib/moderation';
 import PhotoUploader from './PhotoUploader'; // FIXED: Changed from named import to default import
 
 interface CollagePhotosProps {
   collageId: string;
   onManualRefresh?: () => void;
+  canDelete?: boolean; // Moderators and up
 }
 
-const CollagePhotos: React.FC<CollagePhotosProps> = ({ collageId, onManualRefresh }) => {
+const CollagePhotos: React.FC<CollagePhotosProps> = ({ collageId, onManualRefresh, canDelete = true }) => {
   const { 
     photos, 
     loading, 
@@ -104,7 +107,7 @@ const CollagePhotos: React.FC<CollagePhotosProps> = ({ collageId, onManualRefres
           {photos.map((photo) => (
             <div key={photo.id} className="relative group">
               <img
-                src={photo.url}
+                src={getPhotoUrl(photo, 'thumb')}
                 alt={`Photo ${photo.id}`}
                 className="w-full h-32 object-cover rounded-lg shadow-sm border border-gray-600 hover:border-gray-500 transition-colors"
                 onError={(e) => {
@@ -114,16 +117,27 @@ const CollagePhotos: React.FC<CollagePhotosProps> = ({ collageId, onManualRefres
                 }}
               />
               
+              {/* Moderation status - only approved photos show in the scene */}
+              {!isPhotoApproved(photo) && (
+                <span className={`absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                  isPhotoPending(photo) ? 'bg-yellow-500 text-black' : 'bg-red-600 text-white'
+                }`}>
+                  {PHOTO_STATUS_LABELS[photo.status]}
+                </span>
+              )}
+
               {/* Delete Button */}
-              <button
-                onClick={() => handleDeletePhoto(photo.id)}
-                className="absolute top-2 right-2 bg-red-600 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-700"
-                title="Delete photo"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
+              {canDelete && (
+                <button
+                  onClick={() => handleDeletePhoto(photo.id)}
+                  className="absolute top-2 right-2 bg-red-600 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-700"
+                  title="Delete photo"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
 
               {/* Photo Info */}
               <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-75 text-white text-xs p-2 opacity-0 group-hover:opacity-100 transition-opacity rounded-b-lg">
@@ -0,0 +1,306 @@
+// src/components/collage/CollageTeam.tsx - Team tab for the moderation page
+// Owners invite people by email and pick their role; an invite link only works for the address it
+// was sent to. Everyone on the team can see who else is on it, and members can leave.
+import React, { useCallback, useEffect, useState } from 'react';
+import { Users, UserPlus, Mail, Link2, Trash2, UserMinus, Check } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  fetchCollageMembers,
+  fetchCollageInvites,
+  createCollageInvite,
+  revokeCollageInvite,
+  updateMemberRole,
+  removeMember,
+  getInviteLink,
+  MEMBER_ROLES,
+  COLLAGE_ROLE_LABELS,
+  COLLAGE_ROLE_DESCRIPTIONS,
+  type CollageRole,
+  type CollageMember,
+  type CollageInvite,
+  type MemberRole
+} from '../../lib/collageRoles';
+
+interface CollageTeamProps {
+  collageId: string;
+  collageName: string;
+  role: CollageRole; // The signed-in user's role
+  onLeft: () => void; // Called after the signed-in user leaves the team
+}
+
+const inviteEmailLink = (invite: CollageInvite, collageName: string) => {
+  const subject = `Help run "${collageName}"`;
+  const body = `You've been invited to "${collageName}" as ${COLLAGE_ROLE_LABELS[invite.role].toLowerCase()}.\n\n` +
+    `Sign in with this email address and open the link to accept:\n${getInviteLink(invite.token)}`;
+  return `mailto:${invite.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+const CollageTeam: React.FC<CollageTeamProps> = ({ collageId, collageName, role, onLeft }) => {
+  const isOwner = role === 'owner';
+  const [members, setMembers] = useState<CollageMember[]>([]);
+  const [invites, setInvites] = useState<CollageInvite[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('moderator');
+  const [inviting, setInviting] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [copiedInviteId, setCopiedInviteId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [{ data: { user } }, nextMembers, nextInvites] = await Promise.all([
+        supabase.auth.getUser(),
+        fetchCollageMembers(collageId),
+        isOwner ? fetchCollageInvites(collageId) : Promise.resolve([] as CollageInvite[])
+      ]);
+      setCurrentUserId(user?.id ?? null);
+      setMembers(nextMembers);
+      setInvites(nextInvites);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the team');
+    } finally {
+      setLoading(false);
+    }
+  }, [collageId, isOwner]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!copiedInviteId) return;
+    const timer = setTimeout(() => setCopiedInviteId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [copiedInviteId]);
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    setError(null);
+    try {
+      const invite = await createCollageInvite(collageId, email, inviteRole);
+      setInvites(prev => [invite, ...prev.filter(existing => existing.email !== invite.email)]);
+      setEmail('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to create the invite');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCopy = async (invite: CollageInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.token));
+      setCopiedInviteId(invite.id);
+    } catch {
+      window.prompt('Copy the invite link:', getInviteLink(invite.token));
+    }
+  };
+
+  const handleRevoke = async (invite: CollageInvite) => {
+    setBusyKey(invite.id);
+    try {
+      await revokeCollageInvite(invite.id);
+      setInvites(prev => prev.filter(existing => existing.id !== invite.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke the invite');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleRoleChange = async (member: CollageMember, nextRole: MemberRole) => {
+    setBusyKey(member.user_id);
+    try {
+      await updateMemberRole(collageId, member.user_id, nextRole);
+      setMembers(prev => prev.map(existing => existing.user_id === member.user_id ? { ...existing, role: nextRole } : existing));
+    } catch (err: any) {
+      setError(err.message || 'Failed to change the role');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleRemove = async (member: CollageMember) => {
+    const leaving = member.user_id === currentUserId;
+    const confirmed = window.confirm(
+      leaving
+        ? `Leave "${collageName}"? You'll need a new invite to come back.`
+        : `Remove ${member.email || 'this member'} from the team?`
+    );
+    if (!confirmed) return;
+
+    setBusyKey(member.user_id);
+    try {
+      await removeMember(collageId, member.user_id);
+      if (leaving) {
+        onLeft();
+        return;
+      }
+      setMembers(prev => prev.filter(existing => existing.user_id !== member.user_id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove the member');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="text-red-300 text-sm">Error: {error}</p>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="p-4 bg-gray-800/60 border border-gray-700 rounded-lg space-y-3">
+          <h3 className="text-white font-medium flex items-center">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite Someone
+          </h3>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              required
+              className="flex-1 min-w-[200px] px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-white placeholder-gray-500"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+              className="px-2 py-2 bg-gray-900 border border-gray-600 rounded-md text-white"
+            >
+              {MEMBER_ROLES.map(memberRole => (
+                <option key={memberRole} value={memberRole}>{COLLAGE_ROLE_LABELS[memberRole]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors"
+            >
+              {inviting ? 'Creating...' : 'Create Invite'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">{COLLAGE_ROLE_DESCRIPTIONS[inviteRole]}</p>
+        </form>
+      )}
+
+      {isOwner && invites.length > 0 && (
+        <div>
+          <h3 className="text-white font-medium mb-2">Pending Invites</h3>
+          <ul className="divide-y divide-gray-700">
+            {invites.map(invite => {
+              const expired = new Date(invite.expires_at).getTime() < Date.now();
+              return (
+                <li key={invite.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">{invite.email}</p>
+                    <p className={`text-xs ${expired ? 'text-red-400' : 'text-gray-400'}`}>
+                      {COLLAGE_ROLE_LABELS[invite.role]} · {expired ? 'Expired - invite again for a new link' : `Expires ${new Date(invite.expires_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {!expired && (
+                    <>
+                      <button
+                        onClick={() => handleCopy(invite)}
+                        className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-md flex items-center space-x-1"
+                      >
+                        {copiedInviteId === invite.id ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                        <span>{copiedInviteId === invite.id ? 'Copied' : 'Copy Link'}</span>
+                      </button>
+                      <a
+                        href={inviteEmailLink(invite, collageName)}
+                        className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-md flex items-center space-x-1"
+                      >
+                        <Mail className="w-4 h-4" />
+                        <span>Email</span>
+                      </a>
+                    </>
+                  )}
+                  <button
+                    onClick={() => handleRevoke(invite)}
+                    disabled={busyKey === invite.id}
+                    className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-50"
+                    title="Revoke invite"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-white font-medium mb-2 flex items-center">
+          <Users className="w-4 h-4 mr-2" />
+          Team
+        </h3>
+        {loading && members.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-gray-400 text-sm">
+            {isOwner
+              ? 'Nobody else yet. Invite venue staff to moderate without sharing your login.'
+              : 'Only the owner runs this collage.'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-700">
+            {members.map(member => {
+              const isSelf = member.user_id === currentUserId;
+              const busy = busyKey === member.user_id;
+              return (
+                <li key={member.user_id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                  <p className="flex-1 min-w-0 text-white truncate">
+                    {member.email || member.user_id.slice(-6)}
+                    {isSelf && <span className="text-gray-400"> (you)</span>}
+                  </p>
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                      disabled={busy}
+                      className="px-2 py-1 bg-gray-800 border border-gray-600 rounded-md text-white disabled:opacity-50"
+                    >
+                      {MEMBER_ROLES.map(memberRole => (
+                        <option key={memberRole} value={memberRole}>{COLLAGE_ROLE_LABELS[memberRole]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="px-2 py-0.5 bg-gray-700 text-gray-200 rounded-full text-xs">
+                      {COLLAGE_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      disabled={busy}
+                      className="px-2 py-1 text-gray-400 hover:text-red-400 disabled:opacity-50 flex items-center space-x-1"
+                      title={isSelf ? 'Leave this collage' : 'Remove from team'}
+                    >
+                      <UserMinus className="w-4 h-4" />
+                      <span>{isSelf ? 'Leave' : 'Remove'}</span>
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollageTeam;
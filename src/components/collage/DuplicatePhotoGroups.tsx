@@ -0,0 +1,107 @@
+// src/components/collage/DuplicatePhotoGroups.tsx - "Possible duplicates" view for moderation
+// Each group is a photo plus the uploads flagged as near-copies of it. The organizer picks the
+// one to keep (the rest are deleted) or marks the group as not duplicates.
+import React, { useMemo } from 'react';
+import { Check, Copy, XCircle } from 'lucide-react';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
+import { groupDuplicates, DUPLICATE_REJECT_DISTANCE, type DuplicateGroup } from '../../lib/perceptualHash';
+import type { Photo } from '../../store/collageStore';
+
+interface DuplicatePhotoGroupsProps {
+  groups: DuplicateGroup<Photo>[];
+  busyPhotoIds: Set<string>;
+  onKeep: (keep: Photo, remove: Photo[]) => void;
+  onDismiss: (photos: Photo[]) => void;
+  onPreview: (photo: Photo) => void;
+}
+
+// Bits apart out of 64 - DUPLICATE_FLAG_DISTANCE is the flagging limit
+const describeDistance = (distance: number | null) => {
+  if (distance === null) return 'Similar';
+  if (distance <= DUPLICATE_REJECT_DISTANCE) return 'Identical';
+  if (distance <= 6) return 'Very similar';
+  return 'Similar';
+};
+
+// Flagged photos grouped with their original - recomputed only when the photo list changes
+export const useDuplicateGroups = (photos: Photo[]) =>
+  useMemo(() => groupDuplicates(photos), [photos]);
+
+const DuplicatePhotoGroups: React.FC<DuplicatePhotoGroupsProps> = ({ groups, busyPhotoIds, onKeep, onDismiss, onPreview }) => {
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Copy className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-2">No Possible Duplicates</h3>
+        <p className="text-gray-400">
+          Photos that look like an earlier upload are flagged here automatically.
+        </p>
+      </div>
+    );
+  }
+
+  const renderPhoto = (group: DuplicateGroup<Photo>, photo: Photo, label: string) => {
+    const members = [group.original, ...group.duplicates.map(d => d.photo)];
+    const others = members.filter(member => member.id !== photo.id);
+    const busy = members.some(member => busyPhotoIds.has(member.id));
+
+    return (
+      <div key={photo.id} className="w-40 flex-shrink-0">
+        <div className="aspect-square bg-gray-800 rounded-lg overflow-hidden border border-gray-600">
+          <img
+            src={getPhotoUrl(photo, 'thumb')}
+            alt={`Photo ${photo.id.slice(-6)}`}
+            className="w-full h-full object-cover cursor-pointer"
+            onClick={() => onPreview(photo)}
+          />
+        </div>
+        <p className="text-xs text-gray-300 mt-2">{label}</p>
+        <p className="text-xs text-gray-500">{new Date(photo.created_at).toLocaleString()}</p>
+        <button
+          onClick={() => onKeep(photo, others)}
+          disabled={busy}
+          className="mt-2 w-full px-2 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-md transition-colors text-xs flex items-center justify-center space-x-1"
+        >
+          <Check className="w-3 h-3" />
+          <span>Keep this one</span>
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-gray-400 text-sm">
+        {groups.length} group{groups.length === 1 ? '' : 's'} of photos that look alike. Keep one photo per group and the others are deleted.
+      </p>
+
+      {groups.map(group => {
+        const members = [group.original, ...group.duplicates.map(d => d.photo)];
+        const busy = members.some(member => busyPhotoIds.has(member.id));
+
+        return (
+          <div key={group.original.id} className="bg-gray-800/50 rounded-lg border border-gray-700 p-4">
+            <div className="flex items-center justify-between mb-4">
+              <span className="text-white font-medium text-sm">{members.length} photos</span>
+              <button
+                onClick={() => onDismiss(members)}
+                disabled={busy}
+                className="px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white rounded-md transition-colors text-xs flex items-center space-x-1"
+              >
+                <XCircle className="w-3 h-3" />
+                <span>Not duplicates</span>
+              </button>
+            </div>
+
+            <div className="flex space-x-4 overflow-x-auto pb-2">
+              {renderPhoto(group, group.original, 'First upload')}
+              {group.duplicates.map(({ photo, distance }) => renderPhoto(group, photo, describeDistance(distance)))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicatePhotoGroups;
@@ -0,0 +1,206 @@
+// src/components/collage/ModerationHistory.tsx - Filterable moderation audit log
+// Newest first, 50 at a time. Filters run in the database; clicking a photo narrows the
+// history to that photo.
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { RefreshCw, History, X } from 'lucide-react';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
+import {
+  fetchModerationEvents,
+  describeActor,
+  MODERATION_ACTION_LABELS,
+  type ModerationAction,
+  type ModerationEvent
+} from '../../lib/moderationEvents';
+import type { Photo } from '../../store/collageStore';
+
+interface ModerationHistoryProps {
+  collageId: string;
+  photoLookup: Map<string, Photo>; // Live and trashed photos, for thumbnails
+}
+
+const PAGE_SIZE = 50;
+
+const APPROVAL_MODE_LABELS: Record<string, string> = {
+  pre: 'Approval required',
+  post: 'Approval off',
+};
+
+const describeDetails = (event: ModerationEvent): string | null => {
+  const details = event.details;
+  if (!details) return null;
+  switch (event.action) {
+    case 'moderation_mode':
+      return `${APPROVAL_MODE_LABELS[details.from] ?? details.from} → ${APPROVAL_MODE_LABELS[details.to] ?? details.to}`;
+    case 'rename':
+      return `"${details.from}" → "${details.to}"`;
+    case 'settings':
+      return Array.isArray(details.keys) ? details.keys.join(', ') : null;
+    default:
+      return null;
+  }
+};
+
+const ModerationHistory: React.FC<ModerationHistoryProps> = ({ collageId, photoLookup }) => {
+  const [events, setEvents] = useState<ModerationEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [action, setAction] = useState<ModerationAction | ''>('');
+  const [actorId, setActorId] = useState('');
+  const [photoId, setPhotoId] = useState<string | null>(null);
+  // Everyone seen so far - the actor filter shouldn't shrink to whoever matches the current filter
+  const [actors, setActors] = useState<Map<string, string>>(new Map());
+  const requestRef = useRef(0);
+
+  const load = useCallback(async (before?: ModerationEvent) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchModerationEvents(collageId, {
+        action: action || undefined,
+        actorId: actorId || undefined,
+        photoId: photoId || undefined,
+        before,
+        limit: PAGE_SIZE
+      });
+      // A filter changed while this page was loading
+      if (request !== requestRef.current) return;
+      setEvents(prev => before ? [...prev, ...page] : page);
+      setHasMore(page.length === PAGE_SIZE);
+      setActors(prev => {
+        const next = new Map(prev);
+        page.forEach(event => {
+          if (event.actor_id && !next.has(event.actor_id)) next.set(event.actor_id, describeActor(event));
+        });
+        return next.size === prev.size ? prev : next;
+      });
+    } catch (err: any) {
+      if (request === requestRef.current) setError(err.message || 'Failed to load history');
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [collageId, action, actorId, photoId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const lastEvent = events[events.length - 1];
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as ModerationAction | '')}
+          className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white"
+        >
+          <option value="">All actions</option>
+          {(Object.keys(MODERATION_ACTION_LABELS) as ModerationAction[]).map(key => (
+            <option key={key} value={key}>{MODERATION_ACTION_LABELS[key]}</option>
+          ))}
+        </select>
+        <select
+          value={actorId}
+          onChange={(e) => setActorId(e.target.value)}
+          className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white"
+        >
+          <option value="">Everyone</option>
+          {Array.from(actors).map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        {photoId && (
+          <button
+            onClick={() => setPhotoId(null)}
+            className="flex items-center space-x-1 px-2 py-1 bg-purple-600/30 border border-purple-500 rounded-md text-purple-200"
+            title="Show all photos"
+          >
+            <span>Photo {photoId.slice(-6)}</span>
+            <X className="w-3 h-3" />
+          </button>
+        )}
+        <button
+          onClick={() => load()}
+          disabled={loading}
+          className="ml-auto px-2 py-1 text-gray-300 hover:text-white flex items-center space-x-1 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-red-300 text-sm">Error: {error}</p>
+      )}
+
+      {events.length === 0 && !loading ? (
+        <div className="text-center py-12">
+          <History className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-white mb-2">No History Yet</h3>
+          <p className="text-gray-400">
+            Approvals, deletions and setting changes will be listed here.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {events.map(event => {
+            const photo = event.photo_id ? photoLookup.get(event.photo_id) : undefined;
+            const details = describeDetails(event);
+            return (
+              <li key={event.id} className="flex items-center space-x-3 py-2">
+                {event.photo_id ? (
+                  <button
+                    onClick={() => setPhotoId(event.photo_id)}
+                    className="w-10 h-10 flex-shrink-0 rounded overflow-hidden bg-gray-800 border border-gray-600"
+                    title="Show this photo's history"
+                  >
+                    {photo ? (
+                      <img src={getPhotoUrl(photo, 'thumb')} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="text-[10px] text-gray-500 font-mono">{event.photo_id.slice(-4)}</span>
+                    )}
+                  </button>
+                ) : (
+                  <div className="w-10 h-10 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white">
+                    <span className="font-medium">{describeActor(event)}</span>
+                    {' '}
+                    <span className="text-gray-300">{MODERATION_ACTION_LABELS[event.action] ?? event.action}</span>
+                    {details && <span className="text-gray-400"> · {details}</span>}
+                  </p>
+                  {event.reason && (
+                    <p className="text-xs text-gray-400 italic truncate" title={event.reason}>
+                      "{event.reason}"
+                    </p>
+                  )}
+                </div>
+                <time className="text-xs text-gray-500 flex-shrink-0" dateTime={event.created_at}>
+                  {new Date(event.created_at).toLocaleString()}
+                </time>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {hasMore && lastEvent && (
+        <div className="text-center">
+          <button
+            onClick={() => load(lastEvent)}
+            disabled={loading}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white rounded-md text-sm"
+          >
+            {loading ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModerationHistory;
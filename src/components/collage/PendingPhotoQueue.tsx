@@ -0,0 +1,187 @@
+// src/components/collage/PendingPhotoQueue.tsx - Approve/reject queue for pre-moderated collages
+// Shows one pending photo at a time, oldest first. Keyboard: A approve, R reject,
+// arrow keys (or J/K) to skip around the queue.
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, X, ChevronLeft, ChevronRight, Clock, ShieldAlert } from 'lucide-react';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
+import { describeSafetyHold } from '../../lib/contentSafety';
+import type { Photo } from '../../store/collageStore';
+
+interface PendingPhotoQueueProps {
+  photos: Photo[]; // Pending photos, oldest first
+  busyPhotoIds: Set<string>;
+  onApprove: (photo: Photo) => void;
+  onReject: (photo: Photo) => void;
+}
+
+// Number of upcoming photos shown under the current one
+const FILMSTRIP_SIZE = 12;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+const PendingPhotoQueue: React.FC<PendingPhotoQueueProps> = ({ photos, busyPhotoIds, onApprove, onReject }) => {
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const lastIndexRef = useRef(0);
+
+  // Track the current photo by ID so new arrivals don't shift it. When it leaves the queue
+  // (approved, rejected or deleted elsewhere) the photo that took its place is shown.
+  const foundIndex = currentId ? photos.findIndex(photo => photo.id === currentId) : -1;
+  const index = foundIndex !== -1 ? foundIndex : Math.min(lastIndexRef.current, Math.max(0, photos.length - 1));
+  lastIndexRef.current = index;
+  const current = photos[index] as Photo | undefined;
+
+  const goTo = useCallback((nextIndex: number) => {
+    if (photos.length === 0) return;
+    const wrapped = (nextIndex + photos.length) % photos.length;
+    setCurrentId(photos[wrapped].id);
+  }, [photos]);
+
+  const busy = !!current && busyPhotoIds.has(current.id);
+  const holdReason = current ? describeSafetyHold(current) : null;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!current || isTypingTarget(event.target) || event.metaKey || event.ctrlKey || event.altKey) return;
+
+      switch (event.key) {
+        case 'a':
+        case 'A':
+          if (!busy) onApprove(current);
+          break;
+        case 'r':
+        case 'R':
+          if (!busy) onReject(current);
+          break;
+        case 'ArrowRight':
+        case 'j':
+        case 'J':
+          goTo(index + 1);
+          break;
+        case 'ArrowLeft':
+        case 'k':
+        case 'K':
+          goTo(index - 1);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [current, busy, index, goTo, onApprove, onReject]);
+
+  if (!current) {
+    return (
+      <div className="text-center py-12">
+        <Check className="w-12 h-12 text-green-500 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-2">All Caught Up</h3>
+        <p className="text-gray-400">
+          New uploads waiting for approval will appear here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-300">
+          Photo {index + 1} of {photos.length} awaiting approval
+        </span>
+        <span className="text-gray-500 hidden sm:inline">
+          <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-300">A</kbd> approve ·{' '}
+          <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-300">R</kbd> reject ·{' '}
+          <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-300">←</kbd>{' '}
+          <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-300">→</kbd> skip
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <button
+          onClick={() => goTo(index - 1)}
+          className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full text-white transition-colors"
+          title="Previous (←)"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+
+        <div className="flex-1 flex flex-col items-center">
+          <div className="relative bg-black rounded-lg overflow-hidden flex items-center justify-center w-full h-[55vh]">
+            <img
+              key={current.id}
+              src={getPhotoUrl(current, 'display')}
+              alt={`Pending photo ${current.id.slice(-6)}`}
+              className="max-w-full max-h-full object-contain"
+            />
+            {busy && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+          </div>
+          <p className="flex items-center text-xs text-gray-400 mt-2">
+            <Clock className="w-3 h-3 mr-1" />
+            Uploaded {new Date(current.created_at).toLocaleString()}
+          </p>
+          {holdReason && (
+            <p className="flex items-center text-sm text-red-300 mt-1">
+              <ShieldAlert className="w-4 h-4 mr-1" />
+              Held by content screening: {holdReason}
+            </p>
+          )}
+        </div>
+
+        <button
+          onClick={() => goTo(index + 1)}
+          className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full text-white transition-colors"
+          title="Next (→)"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-center space-x-3">
+        <button
+          onClick={() => onReject(current)}
+          disabled={busy}
+          className="px-6 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-md transition-colors flex items-center space-x-2"
+        >
+          <X className="w-4 h-4" />
+          <span>Reject (R)</span>
+        </button>
+        <button
+          onClick={() => onApprove(current)}
+          disabled={busy}
+          className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-md transition-colors flex items-center space-x-2"
+        >
+          <Check className="w-4 h-4" />
+          <span>Approve (A)</span>
+        </button>
+      </div>
+
+      {/* Filmstrip of what's coming next */}
+      {photos.length > 1 && (
+        <div className="flex space-x-2 overflow-x-auto pb-2">
+          {photos.slice(index, index + FILMSTRIP_SIZE).map((photo, offset) => (
+            <button
+              key={photo.id}
+              onClick={() => goTo(index + offset)}
+              className={`w-16 h-16 flex-shrink-0 rounded-md overflow-hidden border-2 ${
+                offset === 0 ? 'border-purple-500' : 'border-transparent opacity-70 hover:opacity-100'
+              } ${photo.safety_held ? 'ring-2 ring-red-500' : ''}`}
+              title={describeSafetyHold(photo) ?? undefined}
+            >
+              <img src={getPhotoUrl(photo, 'thumb')} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingPhotoQueue;
@@ -0,0 +1,136 @@
+// src/components/collage/PhotoLightbox.tsx - Full-size view of a photo picked in the 3D scene
+import React, { useEffect, useState } from 'react';
+import { X, Download, Share2, Clock } from 'lucide-react';
+
+type LightboxPhoto = {
+  id: string;
+  url: string;
+  created_at?: string;
+};
+
+type PhotoLightboxProps = {
+  photo: LightboxPhoto;
+  onClose: () => void;
+};
+
+const formatUploadTime = (createdAt?: string) => {
+  if (!createdAt) return null;
+  const date = new Date(createdAt);
+  if (isNaN(date.getTime())) return null;
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const PhotoLightbox: React.FC<PhotoLightboxProps> = ({ photo, onClose }) => {
+  const [downloading, setDownloading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const uploadTime = formatUploadTime(photo.created_at);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Fetch as a blob - the download attribute is ignored for cross-origin URLs
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetch(photo.url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      const objectUrl = URL.createObjectURL(blob);
+      const extension = photo.url.split('?')[0].split('.').pop() || 'jpg';
+
+      const link = document.createElement('a');
+      link.href = objectUrl;
+      link.download = `photosphere-${photo.id.slice(-8)}.${extension}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      console.error('❌ LIGHTBOX: Download failed, opening photo instead:', error);
+      window.open(photo.url, '_blank', 'noopener');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Native share sheet on phones, copy link everywhere else
+  const handleShare = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'PhotoSphere photo', url: photo.url });
+        return;
+      } catch (error: any) {
+        if (error?.name === 'AbortError') return;
+        console.warn('⚠️ LIGHTBOX: Share failed, copying link instead:', error);
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(photo.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('❌ LIGHTBOX: Could not copy link:', error);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/85 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 text-white/80 hover:text-white bg-white/10 hover:bg-white/20 rounded-full border border-white/20"
+        aria-label="Close"
+      >
+        <X className="w-6 h-6" />
+      </button>
+
+      <div className="flex flex-col items-center max-w-5xl w-full">
+        <img
+          src={photo.url}
+          alt="Collage photo"
+          className="max-h-[75vh] max-w-full object-contain rounded-lg shadow-2xl"
+        />
+
+        <div className="mt-4 flex flex-col sm:flex-row items-center gap-3 sm:gap-6">
+          {uploadTime && (
+            <div className="flex items-center text-sm text-white/70">
+              <Clock className="w-4 h-4 mr-1.5" />
+              Uploaded {uploadTime}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleDownload}
+              disabled={downloading}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-white/15 hover:bg-white/25 text-white text-sm rounded-lg transition-colors border border-white/20 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>{downloading ? 'Downloading...' : 'Download'}</span>
+            </button>
+            <button
+              onClick={handleShare}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors"
+            >
+              <Share2 className="w-4 h-4" />
+              <span>{copied ? 'Link Copied!' : 'Share'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoLightbox;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { X, Trash2, AlertCircle, RefreshCw, Eye } from 'lucide-react';
 import { Photo } from '../../store/collageStore';
 import { addCacheBustToUrl } from '../../lib/supabase';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
 import { useCollageStore } from '../../store/collageStore';
 
 type PhotoModerationModalProps = {
@@ -128,7 +129,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({ photos, onC
                 data-photo-id={photo.id}
               >
                 <img
-                  src={addCacheBustToUrl(photo.url)}
+                  src={addCacheBustToUrl(getPhotoUrl(photo, 'thumb'))}
                   alt="Collage photo"
                   className="w-full h-full object-cover"
                   onError={(e) => {
@@ -171,7 +172,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({ photos, onC
           <div className="fixed inset-0 z-60 flex items-center justify-center p-4 bg-black/90">
             <div className="relative max-w-4xl max-h-[90vh]">
               <img
-                src={addCacheBustToUrl(selectedPhoto.url)}
+                src={addCacheBustToUrl(getPhotoUrl(selectedPhoto, 'display'))}
                 alt={`Photo ${selectedPhoto.id}`}
                 className="max-w-full max-h-[80vh] object-contain rounded-lg"
                 onError={(e) => {
@@ -1,140 +1,112 @@
 // src/components/collage/PhotoUploader.tsx - ENHANCED WITH REAL-TIME UPDATES
-import React, { useState, useRef } from 'react';
-import { Upload, X, Check, AlertCircle, RefreshCw, Image, FileImage } from 'lucide-react';
-import { useCollageStore } from '../../store/collageStore';
-
-type UploadStatus = 'pending' | 'uploading' | 'success' | 'error';
-
-interface FileUpload {
-  id: string;
-  file: File;
-  status: UploadStatus;
-  progress: number;
-  error?: string;
-  preview?: string;
-}
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, X, Check, AlertCircle, RefreshCw, Image, FileImage, Pause, Play, RotateCcw, WifiOff } from 'lucide-react';
+import { useUploadQueueStore, MAX_UPLOAD_ATTEMPTS, type QueuedUpload } from '../../store/uploadQueueStore';
+import { isAcceptedImageFile, isHeicFile, MAX_INPUT_FILE_SIZE } from '../../lib/imageNormalizer';
+import { useUploadAccess } from '../../lib/uploadAccess';
+import UploadAccessPrompt from './UploadAccessPrompt';
 
 interface PhotoUploaderProps {
   collageId: string;
   onUploadComplete?: () => void;
 }
 
+const formatBytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+// Object URL preview - revoked when the row unmounts or the file is swapped for the normalized copy
+const UploadPreview: React.FC<{ file: File }> = ({ file }) => {
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Most browsers can't show HEIC - those keep the file icon until normalization converts them
+    if (isHeicFile(file)) {
+      setPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return preview ? (
+    <img src={preview} alt="Preview" className="w-full h-full object-cover" />
+  ) : (
+    <div className="w-full h-full flex items-center justify-center">
+      <Image className="w-5 h-5 text-gray-400" />
+    </div>
+  );
+};
+
 const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComplete }) => {
-  const { uploadPhoto } = useCollageStore();
-  const [fileUploads, setFileUploads] = useState<FileUpload[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
+  const { uploads: allUploads, enqueue, pause, resume, retry, cancel, pauseAll, resumeAll, clearCompleted, restore } = useUploadQueueStore();
   const [dragActive, setDragActive] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const completedIdsRef = useRef<Set<string> | null>(null);
 
-  // Create file upload entries with preview generation
+  const fileUploads = useMemo(
+    () => allUploads.filter(upload => upload.collageId === collageId),
+    [allUploads, collageId]
+  );
+  const isUploading = fileUploads.some(upload => upload.status === 'uploading');
+  // PIN, upload window and limits - guests see why before picking files
+  const { access: uploadAccess, refresh: refreshUploadAccess, submitPin } = useUploadAccess(collageId);
+  const settledCount = fileUploads.filter(upload => upload.status === 'success' || upload.status === 'error').length;
+
+  // Pick up photos queued before a reload
+  useEffect(() => {
+    restore();
+  }, [restore]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Finished uploads change the device and collage counts
+  useEffect(() => {
+    if (settledCount > 0) refreshUploadAccess();
+  }, [settledCount, refreshUploadAccess]);
+
+  // Notify once per newly finished upload - uploads completed before mount don't count
+  useEffect(() => {
+    const succeeded = fileUploads.filter(upload => upload.status === 'success').map(upload => upload.id);
+    if (!completedIdsRef.current) {
+      completedIdsRef.current = new Set(succeeded);
+      return;
+    }
+    const newlyCompleted = succeeded.filter(id => !completedIdsRef.current!.has(id));
+    newlyCompleted.forEach(id => completedIdsRef.current!.add(id));
+    if (newlyCompleted.length > 0 && onUploadComplete) {
+      setTimeout(() => {
+        onUploadComplete();
+      }, 500); // Small delay to allow state updates to propagate
+    }
+  }, [fileUploads, onUploadComplete]);
+
+  // Validate and hand files to the upload queue
   const handleFileSelect = (files: File[]) => {
-    const validImageTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    const maxFileSize = 10 * 1024 * 1024; // 10MB
-    
+    // Photos are resized and re-encoded before upload, so large phone photos are fine here
     const validFiles = files.filter(file => {
-      if (!validImageTypes.includes(file.type)) {
-        alert(`"${file.name}" is not a valid image file. Only JPEG, PNG, GIF, and WebP are supported.`);
+      if (!isAcceptedImageFile(file)) {
+        alert(`"${file.name}" is not a valid image file. Only JPEG, PNG, GIF, WebP, and HEIC are supported.`);
         return false;
       }
-      if (file.size > maxFileSize) {
-        alert(`"${file.name}" is too large. Maximum file size is 10MB.`);
+      if (file.size > MAX_INPUT_FILE_SIZE) {
+        alert(`"${file.name}" is too large. Maximum file size is ${MAX_INPUT_FILE_SIZE / 1024 / 1024}MB.`);
         return false;
       }
       return true;
     });
 
     if (validFiles.length === 0) return;
-
-    const newUploads: FileUpload[] = validFiles.map(file => {
-      const upload = {
-        id: `${Date.now()}-${Math.random()}`,
-        file,
-        status: 'pending' as UploadStatus,
-        progress: 0,
-        preview: undefined
-      };
-
-      // Generate preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setFileUploads(prev => prev.map(u => 
-          u.id === upload.id ? { ...u, preview: e.target?.result as string } : u
-        ));
-      };
-      reader.readAsDataURL(file);
-
-      return upload;
-    });
-
-    setFileUploads(prev => [...prev, ...newUploads]);
-    
-    // Start processing uploads immediately
-    processUploads(newUploads);
-  };
-
-  // Update file status
-  const updateFileStatus = (id: string, updates: Partial<FileUpload>) => {
-    setFileUploads(prev => prev.map(upload => 
-      upload.id === id ? { ...upload, ...updates } : upload
-    ));
-  };
-
-  // Process uploads with progress tracking
-  const processUploads = async (uploads: FileUpload[]) => {
-    setIsUploading(true);
-
-    // Process uploads in batches of 3 for better performance
-    const batchSize = 3;
-    for (let i = 0; i < uploads.length; i += batchSize) {
-      const batch = uploads.slice(i, i + batchSize);
-      
-      const uploadPromises = batch.map(async (upload) => {
-        try {
-          updateFileStatus(upload.id, { status: 'uploading', progress: 10 });
-
-          // Simulate progress updates
-          const progressInterval = setInterval(() => {
-            setFileUploads(prev => prev.map(u => 
-              u.id === upload.id && u.status === 'uploading'
-                ? { ...u, progress: Math.min(u.progress + 20, 90) }
-                : u
-            ));
-          }, 300);
-
-          // Upload the photo
-          await uploadPhoto(collageId, upload.file);
-          
-          // No need to wait for realtime - the store already adds the photo to state
-          // This gives immediate feedback to the user
-          
-          clearInterval(progressInterval);
-          updateFileStatus(upload.id, { 
-            status: 'success', 
-            progress: 100 
-          });
-
-          // Call completion callback
-          if (onUploadComplete) {
-            setTimeout(() => {
-              onUploadComplete();
-            }, 500); // Small delay to allow state updates to propagate
-          }
-
-        } catch (error: any) {
-          console.error('Upload failed:', error);
-          updateFileStatus(upload.id, { 
-            status: 'error', 
-            progress: 0,
-            error: error.message || 'Upload failed'
-          });
-        }
-      });
-
-      // Wait for current batch to complete before starting next
-      await Promise.all(uploadPromises);
-    }
-
-    setIsUploading(false);
+    enqueue(collageId, validFiles);
   };
 
   // Handle drag and drop
@@ -180,12 +152,18 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
     fileInputRef.current?.click();
   };
 
-  const getStatusIcon = (upload: FileUpload) => {
+  const getStatusIcon = (upload: QueuedUpload) => {
     switch (upload.status) {
       case 'pending':
         return <FileImage className="w-4 h-4 text-gray-400" />;
       case 'uploading':
         return <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />;
+      case 'paused':
+        return <Pause className="w-4 h-4 text-gray-400" />;
+      case 'retrying':
+        return upload.nextAttemptAt === null
+          ? <WifiOff className="w-4 h-4 text-yellow-400" />
+          : <RefreshCw className="w-4 h-4 text-yellow-400" />;
       case 'success':
         return <Check className="w-4 h-4 text-green-400" />;
       case 'error':
@@ -193,146 +171,221 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
     }
   };
 
-  const getStatusColor = (status: UploadStatus) => {
-    switch (status) {
-      case 'pending': return 'bg-gray-600';
-      case 'uploading': return 'bg-blue-600';
-      case 'success': return 'bg-green-600';
-      case 'error': return 'bg-red-600';
+  const getStatusText = (upload: QueuedUpload) => {
+    switch (upload.status) {
+      case 'pending':
+        return 'Waiting...';
+      case 'uploading':
+        return upload.total > 0
+          ? `${formatBytes(upload.loaded)} of ${formatBytes(upload.total)}`
+          : 'Preparing...';
+      case 'paused':
+        return 'Paused';
+      case 'retrying':
+        return upload.nextAttemptAt === null
+          ? 'Waiting for connection...'
+          : `Retrying (attempt ${upload.attempts + 1} of ${MAX_UPLOAD_ATTEMPTS})...`;
+      case 'success':
+        return upload.awaitingApproval ? 'Uploaded - will appear once approved' : 'Uploaded';
+      case 'error':
+        return upload.error || 'Upload failed';
     }
   };
 
+  const hasActiveUploads = fileUploads.some(u => ['pending', 'uploading', 'retrying'].includes(u.status));
+  const hasPausedUploads = fileUploads.some(u => u.status === 'paused');
+
+  const devicePhotosLeft = uploadAccess?.max_per_device
+    ? Math.max(0, uploadAccess.max_per_device - (uploadAccess.device_uploads ?? 0))
+    : null;
+
   return (
     <div className="space-y-4">
-      {/* Drop Zone */}
-      <div
-        className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-          dragActive 
-            ? 'border-purple-400 bg-purple-400/10' 
-            : 'border-gray-600 hover:border-gray-500'
-        }`}
-        onDragEnter={handleDragIn}
-        onDragLeave={handleDragOut}
-        onDragOver={handleDrag}
-        onDrop={handleDrop}
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          accept="image/*"
-          onChange={handleFileInputChange}
-          className="hidden"
-        />
-        
-        <div className="space-y-4">
-          <div className="mx-auto w-12 h-12 bg-purple-600 rounded-full flex items-center justify-center">
-            <Upload className="w-6 h-6 text-white" />
-          </div>
+      {/* Drop Zone - or the PIN prompt / reason when this guest can't upload */}
+      {uploadAccess && !uploadAccess.allowed ? (
+        <div className="border-2 border-dashed border-gray-700 rounded-lg p-8">
+          <UploadAccessPrompt access={uploadAccess} onSubmitPin={submitPin} />
+        </div>
+      ) : (
+        <div
+          className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+            dragActive 
+              ? 'border-purple-400 bg-purple-400/10' 
+              : 'border-gray-600 hover:border-gray-500'
+          }`}
+          onDragEnter={handleDragIn}
+          onDragLeave={handleDragOut}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept="image/*,.heic,.heif"
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
           
-          <div>
-            <h3 className="text-lg font-medium text-white mb-2">
-              {dragActive ? 'Drop photos here' : 'Upload Photos'}
-            </h3>
-            <p className="text-gray-400 text-sm mb-4">
-              Drag and drop photos here, or click to browse
-            </p>
+          <div className="space-y-4">
+            <div className="mx-auto w-12 h-12 bg-purple-600 rounded-full flex items-center justify-center">
+              <Upload className="w-6 h-6 text-white" />
+            </div>
             
-            <button
-              onClick={openFileDialog}
-              disabled={isUploading}
-              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm"
-            >
-              Choose Files
-            </button>
-          </div>
-          
-          <div className="text-xs text-gray-500">
-            Supports JPEG, PNG, GIF, WebP • Max 10MB per file
+            <div>
+              <h3 className="text-lg font-medium text-white mb-2">
+                {dragActive ? 'Drop photos here' : 'Upload Photos'}
+              </h3>
+              <p className="text-gray-400 text-sm mb-4">
+                Drag and drop photos here, or click to browse
+              </p>
+              
+              <button
+                onClick={openFileDialog}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm"
+              >
+                Choose Files
+              </button>
+            </div>
+            
+            <div className="text-xs text-gray-500">
+              Supports JPEG, PNG, GIF, WebP, HEIC • Max 40MB per file
+              {devicePhotosLeft !== null && ` • ${devicePhotosLeft} photo${devicePhotosLeft === 1 ? '' : 's'} left from this device`}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Upload Queue */}
       {fileUploads.length > 0 && (
         <div className="bg-gray-800 rounded-lg p-4 space-y-3">
           <div className="flex items-center justify-between">
             <h4 className="text-white font-medium">Upload Queue ({fileUploads.length})</h4>
-            {fileUploads.some(u => u.status === 'success') && (
-              <button
-                onClick={() => setFileUploads(prev => prev.filter(u => u.status !== 'success'))}
-                className="text-gray-400 hover:text-white text-sm"
-              >
-                Clear completed
-              </button>
-            )}
+            <div className="flex items-center space-x-3">
+              {hasActiveUploads && (
+                <button
+                  onClick={() => pauseAll(collageId)}
+                  className="text-gray-400 hover:text-white text-sm"
+                >
+                  Pause all
+                </button>
+              )}
+              {hasPausedUploads && (
+                <button
+                  onClick={() => resumeAll(collageId)}
+                  className="text-gray-400 hover:text-white text-sm"
+                >
+                  Resume all
+                </button>
+              )}
+              {fileUploads.some(u => u.status === 'success') && (
+                <button
+                  onClick={() => clearCompleted(collageId)}
+                  className="text-gray-400 hover:text-white text-sm"
+                >
+                  Clear completed
+                </button>
+              )}
+            </div>
           </div>
+
+          {!isOnline && (
+            <div className="flex items-center space-x-2 text-yellow-300 text-sm bg-yellow-900/20 border border-yellow-500/30 rounded-lg px-3 py-2">
+              <WifiOff className="w-4 h-4 flex-shrink-0" />
+              <span>You're offline. Photos are saved on this device and will upload when the connection returns.</span>
+            </div>
+          )}
           
           <div className="space-y-2 max-h-60 overflow-y-auto">
-            {fileUploads.map((upload) => (
-              <div
-                key={upload.id}
-                className="flex items-center space-x-3 p-3 bg-gray-700/50 rounded-lg"
-              >
-                {/* Preview */}
-                <div className="w-12 h-12 bg-gray-600 rounded-lg overflow-hidden flex-shrink-0">
-                  {upload.preview ? (
-                    <img 
-                      src={upload.preview} 
-                      alt="Preview" 
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <Image className="w-5 h-5 text-gray-400" />
-                    </div>
-                  )}
-                </div>
+            {fileUploads.map((upload) => {
+              const percent = upload.total > 0 ? Math.round((upload.loaded / upload.total) * 100) : 0;
 
-                {/* File Info */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <p className="text-white text-sm font-medium truncate">
-                      {upload.file.name}
-                    </p>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(upload)}
-                    </div>
+              return (
+                <div
+                  key={upload.id}
+                  className="flex items-center space-x-3 p-3 bg-gray-700/50 rounded-lg"
+                >
+                  {/* Preview */}
+                  <div className="w-12 h-12 bg-gray-600 rounded-lg overflow-hidden flex-shrink-0">
+                    <UploadPreview file={upload.file} />
                   </div>
-                  
-                  <p className="text-gray-400 text-xs">
-                    {(upload.file.size / 1024 / 1024).toFixed(1)}MB
-                  </p>
-
-                  {/* Progress Bar */}
-                  {upload.status === 'uploading' && (
-                    <div className="mt-2">
-                      <div className="w-full bg-gray-600 rounded-full h-1.5">
-                        <div 
-                          className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
-                          style={{ width: `${upload.progress}%` }}
-                        />
+
+                  {/* File Info */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <p className="text-white text-sm font-medium truncate">
+                        {upload.file.name}
+                      </p>
+                      <div className="flex items-center space-x-2">
+                        {getStatusIcon(upload)}
                       </div>
-                      <p className="text-xs text-gray-400 mt-1">{upload.progress}%</p>
                     </div>
-                  )}
+                    
+                    <p className={`text-xs ${upload.status === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+                      {upload.status === 'pending' || (upload.status === 'success' && !upload.awaitingApproval)
+                        ? formatBytes(upload.file.size)
+                        : getStatusText(upload)}
+                    </p>
 
-                  {/* Error Message */}
-                  {upload.status === 'error' && upload.error && (
-                    <p className="text-red-400 text-xs mt-1">{upload.error}</p>
-                  )}
-                </div>
+                    {/* Progress Bar - real bytes sent */}
+                    {upload.status === 'uploading' && (
+                      <div className="mt-2">
+                        <div className="w-full bg-gray-600 rounded-full h-1.5">
+                          <div 
+                            className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                            style={{ width: `${percent}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">{percent}%</p>
+                      </div>
+                    )}
 
-                {/* Remove Button */}
-                <button
-                  onClick={() => setFileUploads(prev => prev.filter(u => u.id !== upload.id))}
-                  className="text-gray-400 hover:text-white p-1"
-                  title="Remove from queue"
-                >
-                  <X className="w-4 h-4" />
-                </button>
-              </div>
-            ))}
+                    {/* Last error while waiting to retry */}
+                    {upload.status === 'retrying' && upload.nextAttemptAt !== null && upload.error && (
+                      <p className="text-yellow-400 text-xs mt-1 truncate">{upload.error}</p>
+                    )}
+                  </div>
+
+                  {/* Controls */}
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    {['pending', 'uploading', 'retrying'].includes(upload.status) && (
+                      <button
+                        onClick={() => pause(upload.id)}
+                        className="text-gray-400 hover:text-white p-1"
+                        title="Pause upload"
+                      >
+                        <Pause className="w-4 h-4" />
+                      </button>
+                    )}
+                    {upload.status === 'paused' && (
+                      <button
+                        onClick={() => resume(upload.id)}
+                        className="text-gray-400 hover:text-white p-1"
+                        title="Resume upload"
+                      >
+                        <Play className="w-4 h-4" />
+                      </button>
+                    )}
+                    {upload.status === 'error' && (
+                      <button
+                        onClick={() => retry(upload.id)}
+                        className="text-gray-400 hover:text-white p-1"
+                        title="Retry upload"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => cancel(upload.id)}
+                      className="text-gray-400 hover:text-white p-1"
+                      title={upload.status === 'success' ? 'Remove from queue' : 'Cancel upload'}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
           </div>
           
           {/* Upload Summary */}
@@ -367,9 +420,10 @@ const PhotoUploader: React.FC<PhotoUploaderProps> = ({ collageId, onUploadComple
         <ul className="text-blue-200 text-sm space-y-1">
           <li>• Photos will appear in the collage instantly after upload</li>
           <li>• Best quality: Use high-resolution images (1080p or higher)</li>
-          <li>• Supported formats: JPEG, PNG, GIF, WebP</li>
-          <li>• Maximum file size: 10MB per photo</li>
-          <li>• Upload multiple photos at once for faster processing</li>
+          <li>• Supported formats: JPEG, PNG, GIF, WebP, HEIC (iPhone)</li>
+          <li>• Maximum file size: 40MB per photo - large photos are resized automatically</li>
+          <li>• Location data is removed from photos before upload</li>
+          <li>• Uploads resume automatically if the connection drops or the page reloads</li>
         </ul>
       </div>
     </div>
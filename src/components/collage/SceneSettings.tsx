@@ -1,14 +1,27 @@
 // src/components/collage/SceneSettings.tsx - COMPLETE: Improved photo spacing control
 import React from 'react';
 import { type SceneSettings } from '../../store/sceneStore';
-import { Grid, Palette, CameraIcon, ImageIcon, Square, Sun, Lightbulb, RotateCw, Move, Eye, Camera, Sparkles } from 'lucide-react';
+import { Grid, Palette, CameraIcon, ImageIcon, Square, Sun, Lightbulb, RotateCw, Move, Eye, Camera, Sparkles, Star, Shuffle } from 'lucide-react';
 import { PARTICLE_THEMES } from '../three/MilkyWayParticleSystem';
+import { getPatternDefinition, getPatternDefinitions } from '../three/patterns/PatternRegistry';
+import { MAX_PATTERN_SLOTS } from '../three/patterns/BasePattern';
+import { INSTANCED_RENDER_THRESHOLD } from '../three/InstancedPhotoRenderer';
+import { EASINGS, TRANSITION_TYPES, type TransitionEasing, type TransitionType } from '../three/patterns/PatternTransitions';
 
 const SceneSettings: React.FC<{
   settings: SceneSettings;
   onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
   onReset: () => void;
 }> = ({ settings, onSettingsChange, onReset }) => {
+  const activePattern = getPatternDefinition(settings.animationPattern);
+  const patternSettings: Record<string, any> = settings.patterns?.[settings.animationPattern] ?? {};
+  const patternPhotoCount = patternSettings.photoCount ?? settings.photoCount;
+
+  // Partial update of the active pattern's settings - the store deep-merges it
+  const patternUpdate = (values: Record<string, unknown>) => ({
+    [settings.animationPattern]: values
+  }) as unknown as SceneSettings['patterns'];
+
   return (
     <div className="space-y-6">
       {/* Animation Controls */}
@@ -40,16 +53,76 @@ const SceneSettings: React.FC<{
             <select
               value={settings.animationPattern}
               onChange={(e) => onSettingsChange({ 
-                animationPattern: e.target.value as 'float' | 'wave' | 'spiral' | 'grid' 
+                animationPattern: e.target.value as SceneSettings['animationPattern']
               })}
               className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
             >
-              <option value="grid">Grid Wall</option>
-              <option value="float">Float</option>
-              <option value="wave">Wave</option>
-              <option value="spiral">Spiral</option>
+              {getPatternDefinitions().map(definition => (
+                <option key={definition.id} value={definition.id}>{definition.name}</option>
+              ))}
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-2">
+              Pattern Transition
+            </label>
+            <select
+              value={settings.transition.type}
+              onChange={(e) => onSettingsChange({ 
+                transition: { ...settings.transition, type: e.target.value as TransitionType }
+              })}
+              className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+            >
+              {TRANSITION_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-400">
+              {TRANSITION_TYPES.find(type => type.value === settings.transition.type)?.description}
+            </p>
+          </div>
+
+          {settings.transition.type !== 'none' && (
+            <>
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Transition Duration
+                  <span className="ml-2 text-xs text-gray-400">
+                    {settings.transition.duration.toFixed(1)}s
+                  </span>
+                </label>
+                <input
+                  type="range"
+                  min="0.2"
+                  max="10"
+                  step="0.1"
+                  value={settings.transition.duration}
+                  onChange={(e) => onSettingsChange({ 
+                    transition: { ...settings.transition, duration: parseFloat(e.target.value) }
+                  }, true)}
+                  className="w-full bg-gray-800"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Transition Easing
+                </label>
+                <select
+                  value={settings.transition.easing}
+                  onChange={(e) => onSettingsChange({ 
+                    transition: { ...settings.transition, easing: e.target.value as TransitionEasing }
+                  })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                >
+                  {Object.entries(EASINGS).map(([value, easing]) => (
+                    <option key={value} value={value}>{easing.label}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
           
           {settings.animationEnabled && (
             <div>
@@ -72,6 +145,104 @@ const SceneSettings: React.FC<{
               />
             </div>
           )}
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-2">
+              Layout Seed
+            </label>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={settings.seed}
+                onChange={(e) => {
+                  const seed = parseInt(e.target.value);
+                  if (!isNaN(seed)) {
+                    onSettingsChange({ seed: Math.max(0, seed) }, true);
+                  }
+                }}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+              />
+              <button
+                onClick={() => onSettingsChange({ seed: Math.floor(Math.random() * 1000000) })}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors"
+                title="Shuffle layout"
+              >
+                <Shuffle className="h-4 w-4" />
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-400">
+              Same seed, same layout - on every screen
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Hero Photo Mode */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+          <Star className="h-4 w-4 mr-2" />
+          New Photo Spotlight
+        </h4>
+
+        <div className="space-y-4">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.heroPhoto.enabled}
+              onChange={(e) => onSettingsChange({ 
+                heroPhoto: { ...settings.heroPhoto, enabled: e.target.checked }
+              })}
+              className="mr-2 bg-gray-800 border-gray-700"
+            />
+            <label className="text-sm text-gray-300">
+              Feature new uploads in front of the camera
+            </label>
+          </div>
+
+          {settings.heroPhoto.enabled && (
+            <>
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Hold Time
+                  <span className="ml-2 text-xs text-gray-400">
+                    {settings.heroPhoto.holdDuration}s
+                  </span>
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="30"
+                  step="1"
+                  value={settings.heroPhoto.holdDuration}
+                  onChange={(e) => onSettingsChange({ 
+                    heroPhoto: { ...settings.heroPhoto, holdDuration: parseFloat(e.target.value) }
+                  }, true)}
+                  className="w-full bg-gray-800"
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  How long each new photo stays on screen before flying to its slot
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Caption
+                </label>
+                <input
+                  type="text"
+                  value={settings.heroPhoto.caption}
+                  maxLength={60}
+                  placeholder="Leave empty for no caption"
+                  onChange={(e) => onSettingsChange({ 
+                    heroPhoto: { ...settings.heroPhoto, caption: e.target.value }
+                  }, true)}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                />
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -87,33 +258,15 @@ const SceneSettings: React.FC<{
             <label className="block text-sm text-gray-300 mb-2">
               Photo Count
               <span className="ml-2 text-xs text-gray-400">
-                {settings.animationPattern === 'grid' && settings.patterns?.grid?.photoCount !== undefined
-                  ? settings.patterns.grid.photoCount
-                  : settings.animationPattern === 'float' && settings.patterns?.float?.photoCount !== undefined
-                  ? settings.patterns.float.photoCount
-                  : settings.animationPattern === 'wave' && settings.patterns?.wave?.photoCount !== undefined
-                  ? settings.patterns.wave.photoCount
-                  : settings.animationPattern === 'spiral' && settings.patterns?.spiral?.photoCount !== undefined
-                  ? settings.patterns.spiral.photoCount
-                  : settings.photoCount} photos
+                {patternPhotoCount} photos
               </span>
             </label>
             <input
               type="range"
               min="1"
-              max="500"
+              max={MAX_PATTERN_SLOTS}
               step="1"
-              value={
-                settings.animationPattern === 'grid' && settings.patterns?.grid?.photoCount !== undefined
-                  ? settings.patterns.grid.photoCount
-                  : settings.animationPattern === 'float' && settings.patterns?.float?.photoCount !== undefined
-                  ? settings.patterns.float.photoCount
-                  : settings.animationPattern === 'wave' && settings.patterns?.wave?.photoCount !== undefined
-                  ? settings.patterns.wave.photoCount
-                  : settings.animationPattern === 'spiral' && settings.patterns?.spiral?.photoCount !== undefined
-                  ? settings.patterns.spiral.photoCount
-                  : settings.photoCount
-              }
+              value={patternPhotoCount}
               onChange={(e) => {
                 const value = parseInt(e.target.value);
                 
@@ -123,31 +276,7 @@ const SceneSettings: React.FC<{
                 };
                 
                 // Add pattern-specific update
-                if (settings.animationPattern === 'grid') {
-                  updates.patterns = {
-                    grid: {
-                      photoCount: value
-                    }
-                  };
-                } else if (settings.animationPattern === 'float') {
-                  updates.patterns = {
-                    float: {
-                      photoCount: value
-                    }
-                  };
-                } else if (settings.animationPattern === 'wave') {
-                  updates.patterns = {
-                    wave: {
-                      photoCount: value
-                    }
-                  };
-                } else if (settings.animationPattern === 'spiral') {
-                  updates.patterns = {
-                    spiral: {
-                      photoCount: value
-                    }
-                  };
-                }
+                updates.patterns = patternUpdate({ photoCount: value });
                 
                 onSettingsChange(updates);
               }}
@@ -155,6 +284,7 @@ const SceneSettings: React.FC<{
             />
             <p className="mt-1 text-xs text-gray-400">
               Number of photos to display simultaneously
+              {patternPhotoCount > INSTANCED_RENDER_THRESHOLD && ' - large collage mode: photos render as low-resolution thumbnails'}
             </p>
           </div>
 
@@ -216,315 +346,187 @@ const SceneSettings: React.FC<{
         </div>
       </div>
 
-      {/* Grid Wall Settings - Only show when grid pattern is selected */}
-      {settings.animationPattern === 'grid' && (
+      {/* Pattern Settings - Controls come from the pattern registry */}
+      {activePattern && (
         <div>
           <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
             <Grid className="h-4 w-4 mr-2" />
-            {settings.animationPattern === 'grid' ? 'Grid Wall Settings' : 'Pattern Settings'}
+            {activePattern.name} Settings
           </h4>
           
           <div className="space-y-4">
-            {settings.animationPattern === 'grid' && (
-              <div>
-                <label className="block text-sm text-gray-300 mb-2">
-                  Wall Height
-                  <span className="ml-2 text-xs text-gray-400">{settings.patterns.grid.wallHeight.toFixed(1)} units</span>
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="30"
-                  step="0.5"
-                  value={settings.patterns.grid.wallHeight}
-                  onChange={(e) => onSettingsChange({ 
-                    patterns: {
-                      grid: {
-                        wallHeight: parseFloat(e.target.value)
-                      }
-                    }
-                  }, true)}
-                  className="w-full bg-gray-800"
-                />
-                <p className="mt-1 text-xs text-gray-400">
-                  Adjust the vertical position of the photo wall
-                </p>
-              </div>
-            )}
+            {activePattern.controls.map(control => {
+              if (control.showWhen && !control.showWhen({ ...activePattern.defaults, ...patternSettings })) {
+                return null;
+              }
 
-            {settings.animationPattern === 'grid' && (
-              <div>
-                <label className="block text-sm text-gray-300 mb-2">
-                  Photo Spacing
-                  <span className="ml-2 text-xs text-gray-400">
-                    {settings.patterns.grid.spacing === 0 ? 'Solid Wall' : `${(settings.patterns.grid.spacing * 200).toFixed(0)}% gaps`}
-                  </span>
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="1"
-                  step="0.01"
-                  value={settings.patterns.grid.spacing}
-                  onChange={(e) => onSettingsChange({ 
-                    patterns: {
-                      grid: {
-                        spacing: parseFloat(e.target.value)
-                      }
-                    }
-                  }, true)}
-                  className="w-full bg-gray-800"
-                />
-                <p className="mt-1 text-xs text-gray-400">
-                  {settings.patterns.grid.spacing === 0 
-                    ? '🧱 Edge-to-edge solid wall (no gaps)'
-                    : settings.patterns.grid.spacing < 0.5
-                    ? '📐 Small gaps between photos'
-                    : '🎯 Large gaps between photos'
-                  }
-                </p>
-              </div>
-            )}
+              if (control.type === 'select') {
+                return (
+                  <div key={control.key}>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      {control.label}
+                    </label>
+                    <select
+                      value={patternSettings[control.key] ?? activePattern.defaults[control.key]}
+                      onChange={(e) => onSettingsChange({
+                        patterns: patternUpdate({ [control.key]: e.target.value })
+                      })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                    >
+                      {control.options.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    {control.description && (
+                      <p className="mt-1 text-xs text-gray-400">{control.description}</p>
+                    )}
+                  </div>
+                );
+              }
 
-            {settings.animationPattern === 'float' && (
-              <>
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">
-                    Float Height
-                    <span className="ml-2 text-xs text-gray-400">{settings.patterns.float.height.toFixed(1)} units</span>
-                  </label>
-                  <input
-                    type="range"
-                    min="10"
-                    max="100"
-                    step="5"
-                    value={settings.patterns.float.height}
-                    onChange={(e) => onSettingsChange({ 
-                      patterns: {
-                        float: {
-                          height: parseFloat(e.target.value)
-                        }
-                      }
-                    }, true)}
-                    className="w-full bg-gray-800"
-                  />
-                  <p className="mt-1 text-xs text-gray-400">
-                    Maximum height photos will float to before recycling
-                  </p>
-                </div>
-                
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">
-                    Spread Distance
-                    <span className="ml-2 text-xs text-gray-400">{settings.patterns.float.spread.toFixed(1)} units</span>
-                  </label>
-                  <input
-                    type="range"
-                    min="5"
-                    max="50"
-                    step="1"
-                    value={settings.patterns.float.spread}
-                    onChange={(e) => onSettingsChange({ 
-                      patterns: {
-                        float: {
-                          spread: parseFloat(e.target.value)
+              if (control.type === 'text') {
+                return (
+                  <div key={control.key}>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      {control.label}
+                    </label>
+                    <input
+                      type="text"
+                      value={patternSettings[control.key] ?? activePattern.defaults[control.key]}
+                      maxLength={control.maxLength}
+                      placeholder={control.placeholder}
+                      onChange={(e) => onSettingsChange({
+                        patterns: patternUpdate({ [control.key]: e.target.value })
+                      }, true)}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                    />
+                    {control.description && (
+                      <p className="mt-1 text-xs text-gray-400">{control.description}</p>
+                    )}
+                  </div>
+                );
+              }
+
+              if (control.type === 'file') {
+                return (
+                  <div key={control.key}>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      {control.label}
+                      {patternSettings[control.key] && (
+                        <span className="ml-2 text-xs text-green-400">Loaded</span>
+                      )}
+                    </label>
+                    <input
+                      type="file"
+                      accept={control.accept}
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (!file) return;
+                        try {
+                          onSettingsChange({ patterns: patternUpdate(await control.read(file)) });
+                        } catch (error: any) {
+                          console.error('❌ PATTERN SETTINGS: Failed to read file:', error);
+                          alert(error.message || 'Could not read that file');
                         }
-                      }
-                    }, true)}
-                    className="w-full bg-gray-800"
-                  />
-                  <p className="mt-1 text-xs text-gray-400">
-                    How far apart photos are spread horizontally
-                  </p>
-                </div>
-              </>
-            )}
+                      }}
+                      className="w-full text-sm text-gray-300 file:mr-3 file:py-1 file:px-3 file:rounded file:border-0 file:bg-purple-600 file:text-white"
+                    />
+                    {control.description && (
+                      <p className="mt-1 text-xs text-gray-400">{control.description}</p>
+                    )}
+                  </div>
+                );
+              }
 
-            {settings.animationPattern === 'wave' && (
-              <>
-                <div>
+              const value = Number(patternSettings[control.key] ?? activePattern.defaults[control.key]);
+              return (
+                <div key={control.key}>
                   <label className="block text-sm text-gray-300 mb-2">
-                    Wave Amplitude
-                    <span className="ml-2 text-xs text-gray-400">{settings.patterns.wave.amplitude.toFixed(1)} units</span>
+                    {control.label}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {control.format ? control.format(value) : `${value.toFixed(1)} units`}
+                    </span>
                   </label>
                   <input
                     type="range"
-                    min="1"
-                    max="20"
-                    step="0.5"
-                    value={settings.patterns.wave.amplitude}
+                    min={control.min}
+                    max={control.max}
+                    step={control.step}
+                    value={value}
                     onChange={(e) => onSettingsChange({ 
-                      patterns: {
-                        wave: {
-                          amplitude: parseFloat(e.target.value)
-                        }
-                      }
+                      patterns: patternUpdate({ [control.key]: parseFloat(e.target.value) })
                     }, true)}
                     className="w-full bg-gray-800"
                   />
                   <p className="mt-1 text-xs text-gray-400">
-                    Height of the wave peaks
+                    {typeof control.description === 'function' ? control.description(value) : control.description}
                   </p>
                 </div>
-                
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">
-                    Wave Frequency
-                    <span className="ml-2 text-xs text-gray-400">{settings.patterns.wave.frequency.toFixed(2)}</span>
-                  </label>
-                  <input
-                    type="range"
-                    min="0.1"
-                    max="2"
-                    step="0.05"
-                    value={settings.patterns.wave.frequency}
-                    onChange={(e) => onSettingsChange({ 
-                      patterns: {
-                        wave: {
-                          frequency: parseFloat(e.target.value)
-                        }
-                      }
-                    }, true)}
-                    className="w-full bg-gray-800"
-                  />
-                  <p className="mt-1 text-xs text-gray-400">
-                    How close together the wave peaks are
-                  </p>
-                </div>
-              </>
-            )}
+              );
+            })}
 
-            {settings.animationPattern === 'spiral' && (
+            {/* Aspect ratio also drives the global gridAspectRatio used by the wall layout */}
+            {activePattern.id === 'grid' && (
               <>
                 <div>
                   <label className="block text-sm text-gray-300 mb-2">
-                    Spiral Radius
-                    <span className="ml-2 text-xs text-gray-400">{settings.patterns.spiral.radius.toFixed(1)} units</span>
-                  </label>
-                  <input
-                    type="range"
-                    min="5"
-                    max="30"
-                    step="1"
-                    value={settings.patterns.spiral.radius}
-                    onChange={(e) => onSettingsChange({ 
-                      patterns: {
-                        spiral: {
-                          radius: parseFloat(e.target.value)
-                        }
-                      }
-                    }, true)}
-                    className="w-full bg-gray-800"
-                  />
-                  <p className="mt-1 text-xs text-gray-400">
-                    Width of the spiral
-                  </p>
-                </div>
-                
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">
-                    Height Step
-                    <span className="ml-2 text-xs text-gray-400">{settings.patterns.spiral.heightStep.toFixed(2)} units</span>
+                    Grid Aspect Ratio Preset
                   </label>
-                  <input
-                    type="range"
-                    min="0.1"
-                    max="2"
-                    step="0.1"
-                    value={settings.patterns.spiral.heightStep}
-                    onChange={(e) => onSettingsChange({ 
-                      patterns: {
-                        spiral: {
-                          heightStep: parseFloat(e.target.value)
-                        }
-                      }
-                    }, true)}
-                    className="w-full bg-gray-800"
-                  />
-                  <p className="mt-1 text-xs text-gray-400">
-                    Vertical spacing between spiral layers
-                  </p>
-                </div>
-              </>
-            )}
-
-            <div>
-              <label className="block text-sm text-gray-300 mb-2">
-                Grid Aspect Ratio Preset
-              </label>
-              <select
-                value={settings.gridAspectRatioPreset}
-                onChange={(e) => {
-                  const preset = e.target.value as SceneSettings['gridAspectRatioPreset'];
-                  let ratio = settings.gridAspectRatio;
-                  
-                  switch (preset) {
-                    case '1:1': ratio = 1; break;
-                    case '4:3': ratio = 1.333333; break;
-                    case '16:9': ratio = 1.777778; break;
-                    case '21:9': ratio = 2.333333; break;
-                    case 'custom': break;
-                  }
+                  <select
+                    value={settings.gridAspectRatioPreset}
+                    onChange={(e) => {
+                      const preset = e.target.value as SceneSettings['gridAspectRatioPreset'];
+                      let ratio = settings.gridAspectRatio;
                   
-                  if (settings.animationPattern === 'grid') {
-                    onSettingsChange({
-                      gridAspectRatioPreset: preset,
-                      gridAspectRatio: ratio,
-                      patterns: {
-                        grid: {
-                          aspectRatio: ratio
-                        }
+                      switch (preset) {
+                        case '1:1': ratio = 1; break;
+                        case '4:3': ratio = 1.333333; break;
+                        case '16:9': ratio = 1.777778; break;
+                        case '21:9': ratio = 2.333333; break;
+                        case 'custom': break;
                       }
-                    });
-                  } else {
-                    onSettingsChange({
-                      gridAspectRatioPreset: preset,
-                      gridAspectRatio: ratio
-                    });
-                  }
-                }}
-                className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
-              >
-                <option value="1:1">Square (1:1)</option>
-                <option value="4:3">Standard (4:3)</option>
-                <option value="16:9">Widescreen (16:9)</option>
-                <option value="21:9">Ultrawide (21:9)</option>
-                <option value="custom">Custom</option>
-              </select>
-            </div>
-
-            {settings.gridAspectRatioPreset === 'custom' && (
-              <div>
-                <label className="block text-sm text-gray-300 mb-2">
-                  Custom Aspect Ratio
-                  <span className="ml-2 text-xs text-gray-400">{settings.gridAspectRatio.toFixed(2)}</span>
-                </label>
-                <input
-                  type="range"
-                  min="0.5"
-                  max="3"
-                  step="0.1"
-                  value={settings.gridAspectRatio}
-                  onChange={(e) => {
-                    const value = parseFloat(e.target.value);
-                    if (settings.animationPattern === 'grid') {
-                      onSettingsChange({ 
-                        gridAspectRatio: value,
-                        patterns: {
-                          grid: {
-                            aspectRatio: value
-                          }
-                        }
-                      });
-                    } else {
-                      onSettingsChange({ 
-                        gridAspectRatio: value
+                  
+                      onSettingsChange({
+                        gridAspectRatioPreset: preset,
+                        gridAspectRatio: ratio,
+                        patterns: patternUpdate({ aspectRatio: ratio })
                       });
-                    }
-                  }}
-                  className="w-full bg-gray-800"
-                />
-              </div>
+                    }}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white"
+                  >
+                    <option value="1:1">Square (1:1)</option>
+                    <option value="4:3">Standard (4:3)</option>
+                    <option value="16:9">Widescreen (16:9)</option>
+                    <option value="21:9">Ultrawide (21:9)</option>
+                    <option value="custom">Custom</option>
+                  </select>
+                </div>
+
+                {settings.gridAspectRatioPreset === 'custom' && (
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">
+                      Custom Aspect Ratio
+                      <span className="ml-2 text-xs text-gray-400">{settings.gridAspectRatio.toFixed(2)}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="3"
+                      step="0.1"
+                      value={settings.gridAspectRatio}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        onSettingsChange({ 
+                          gridAspectRatio: value,
+                          patterns: patternUpdate({ aspectRatio: value })
+                        });
+                      }}
+                      className="w-full bg-gray-800"
+                    />
+                  </div>
+                )}
+              </>
             )}
           </div>
         </div>
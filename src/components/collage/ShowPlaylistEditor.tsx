@@ -0,0 +1,184 @@
+// src/components/collage/ShowPlaylistEditor.tsx - Build the timed scene playlist played by the viewer
+import React from 'react';
+import { nanoid } from 'nanoid';
+import { Film, ChevronUp, ChevronDown, Trash2, Plus, RefreshCw, Eye } from 'lucide-react';
+import { type SceneSettings } from '../../store/sceneStore';
+import { captureSceneOverrides, getPlaylistDuration, type ShowScene } from '../../lib/showSequencer';
+import { getPatternDefinition } from '../three/patterns/PatternRegistry';
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round(seconds % 60);
+  return hours > 0
+    ? `${hours}h ${minutes}m`
+    : `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const ShowPlaylistEditor: React.FC<{
+  settings: SceneSettings;
+  onSettingsChange: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const playlist = settings.playlist;
+  const scenes = playlist.scenes;
+
+  const updatePlaylist = (changes: Partial<SceneSettings['playlist']>, debounce = false) => {
+    onSettingsChange({ playlist: { ...playlist, ...changes } }, debounce);
+  };
+
+  const updateScene = (index: number, changes: Partial<ShowScene>, debounce = false) => {
+    updatePlaylist({
+      scenes: scenes.map((scene, i) => (i === index ? { ...scene, ...changes } : scene))
+    }, debounce);
+  };
+
+  const moveScene = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= scenes.length) return;
+    const reordered = [...scenes];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updatePlaylist({ scenes: reordered });
+  };
+
+  const addScene = () => {
+    const patternName = getPatternDefinition(settings.animationPattern)?.name || settings.animationPattern;
+    updatePlaylist({
+      scenes: [
+        ...scenes,
+        {
+          id: nanoid(8),
+          name: `${patternName} ${scenes.length + 1}`,
+          duration: 300,
+          overrides: captureSceneOverrides(settings)
+        }
+      ]
+    });
+  };
+
+  // Preview applies the scene to the editor - it becomes the collage's base look too
+  const previewScene = (scene: ShowScene) => {
+    onSettingsChange(scene.overrides as Partial<SceneSettings>);
+  };
+
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+        <Film className="h-4 w-4 mr-2" />
+        Show Playlist
+      </h4>
+
+      <div className="space-y-4">
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={playlist.enabled}
+            onChange={(e) => updatePlaylist({ enabled: e.target.checked })}
+            className="mr-2 bg-gray-800 border-gray-700"
+          />
+          <label className="text-sm text-gray-300">
+            Play playlist on the live view
+          </label>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={playlist.loop}
+            onChange={(e) => updatePlaylist({ loop: e.target.checked })}
+            className="mr-2 bg-gray-800 border-gray-700"
+          />
+          <label className="text-sm text-gray-300">
+            Loop when the last scene ends
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Each scene captures the current pattern, camera and particle settings. Set up a look, then add it as a scene.
+          {scenes.length > 0 && ` Total runtime: ${formatDuration(getPlaylistDuration(playlist))}.`}
+        </p>
+
+        {scenes.map((scene, index) => (
+          <div key={scene.id} className="bg-gray-800/60 border border-gray-700 rounded-md p-3 space-y-2">
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+              <input
+                type="text"
+                value={scene.name}
+                onChange={(e) => updateScene(index, { name: e.target.value }, true)}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded py-1 px-2 text-sm text-white"
+              />
+              <button
+                onClick={() => moveScene(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveScene(index, 1)}
+                disabled={index === scenes.length - 1}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => updatePlaylist({ scenes: scenes.filter((_, i) => i !== index) })}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Remove scene"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <label className="text-xs text-gray-400">Minutes</label>
+              <input
+                type="number"
+                min="0.1"
+                max="240"
+                step="0.5"
+                value={+(scene.duration / 60).toFixed(2)}
+                onChange={(e) => {
+                  const minutes = parseFloat(e.target.value);
+                  if (!isNaN(minutes)) {
+                    updateScene(index, { duration: Math.min(14400, Math.max(5, Math.round(minutes * 60))) }, true);
+                  }
+                }}
+                className="w-20 bg-gray-800 border border-gray-700 rounded py-1 px-2 text-sm text-white"
+              />
+              <span className="flex-1 text-xs text-gray-500 truncate">
+                {getPatternDefinition(String(scene.overrides.animationPattern))?.name || 'Current pattern'}
+              </span>
+              <button
+                onClick={() => previewScene(scene)}
+                className="p-1 text-gray-400 hover:text-white"
+                title="Preview in editor"
+              >
+                <Eye className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => updateScene(index, { overrides: captureSceneOverrides(settings) })}
+                className="p-1 text-gray-400 hover:text-white"
+                title="Replace with current settings"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={addScene}
+          className="w-full flex items-center justify-center px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors text-sm"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Current Settings as Scene
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShowPlaylistEditor;
@@ -0,0 +1,119 @@
+// src/components/collage/TrashedPhotos.tsx - Trash tab for the moderation page
+// Deleted photos wait here until the scheduled purge removes them for good. Restoring puts them
+// back in the collage; deleting forever removes the files right away.
+import React from 'react';
+import { RotateCcw, Trash2, Clock } from 'lucide-react';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from '../../lib/moderation';
+import type { Photo } from '../../store/collageStore';
+
+interface TrashedPhotosProps {
+  photos: Photo[]; // Newest deletion first
+  loading: boolean;
+  busyPhotoIds: Set<string>;
+  onRestore: (photos: Photo[]) => void;
+  onPurge: (photos: Photo[]) => void;
+  onPreview: (photo: Photo) => void;
+}
+
+const purgeLabel = (deletedAt: string) => {
+  const days = trashDaysLeft(deletedAt);
+  if (days === 0) return 'Removed in the next cleanup';
+  return `Removed in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const TrashedPhotos: React.FC<TrashedPhotosProps> = ({ photos, loading, busyPhotoIds, onRestore, onPurge, onPreview }) => {
+  if (loading && photos.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (photos.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trash2 className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-2">Trash Is Empty</h3>
+        <p className="text-gray-400">
+          Deleted photos stay here for {TRASH_RETENTION_DAYS} days so they can be restored.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-gray-300 text-sm">
+          {photos.length} deleted photo{photos.length === 1 ? '' : 's'} · kept for {TRASH_RETENTION_DAYS} days, then removed for good
+        </p>
+        <div className="flex items-center space-x-2 text-sm">
+          <button
+            onClick={() => onRestore(photos)}
+            className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors flex items-center space-x-1"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Restore All</span>
+          </button>
+          <button
+            onClick={() => onPurge(photos)}
+            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors flex items-center space-x-1"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Empty Trash</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        {photos.map(photo => {
+          const busy = busyPhotoIds.has(photo.id);
+          return (
+            <div key={photo.id} className="bg-gray-800 rounded-lg overflow-hidden border border-gray-600">
+              <button
+                onClick={() => onPreview(photo)}
+                className="block w-full aspect-square"
+              >
+                <img
+                  src={getPhotoUrl(photo, 'thumb')}
+                  alt={`Deleted photo ${photo.id.slice(-6)}`}
+                  className="w-full h-full object-cover opacity-60 hover:opacity-100 transition-opacity"
+                />
+              </button>
+              <div className="p-2 space-y-2">
+                {photo.deleted_at && (
+                  <p className="flex items-center text-xs text-gray-400" title={`Deleted ${new Date(photo.deleted_at).toLocaleString()}`}>
+                    <Clock className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {purgeLabel(photo.deleted_at)}
+                  </p>
+                )}
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => onRestore([photo])}
+                    disabled={busy}
+                    className="flex-1 px-2 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded text-xs flex items-center justify-center space-x-1"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>Restore</span>
+                  </button>
+                  <button
+                    onClick={() => onPurge([photo])}
+                    disabled={busy}
+                    className="p-1 bg-gray-700 hover:bg-red-600 disabled:opacity-50 text-white rounded"
+                    title="Delete forever"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TrashedPhotos;
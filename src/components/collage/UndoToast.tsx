@@ -0,0 +1,34 @@
+// src/components/collage/UndoToast.tsx - "N photos deleted · Undo" bar for moderation actions
+import React from 'react';
+import { RotateCcw, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  undoing?: boolean;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, undoing = false }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg shadow-2xl">
+    <span className="text-white text-sm">{message}</span>
+    <button
+      onClick={onUndo}
+      disabled={undoing}
+      className="flex items-center space-x-1 text-purple-300 hover:text-purple-200 text-sm font-medium disabled:opacity-50"
+      title="Undo (Ctrl+Z)"
+    >
+      <RotateCcw className={`w-4 h-4 ${undoing ? 'animate-spin' : ''}`} />
+      <span>Undo</span>
+    </button>
+    <button
+      onClick={onDismiss}
+      className="text-gray-400 hover:text-white"
+      aria-label="Dismiss"
+    >
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+export default UndoToast;
@@ -0,0 +1,90 @@
+// src/components/collage/UploadAccessPrompt.tsx - Shown instead of an upload control the guest can't use
+// Asks for the event PIN when the collage has one, otherwise explains why uploads are refused
+// (window not open yet or closed, device limit reached, collage full, uploads off).
+import React, { useState } from 'react';
+import { Lock, Clock, AlertCircle } from 'lucide-react';
+import { describeUploadDenial, UPLOAD_PIN_PATTERN, type UploadAccess } from '../../lib/uploadAccess';
+
+interface UploadAccessPromptProps {
+  access: UploadAccess;
+  onSubmitPin: (pin: string) => Promise<UploadAccess | null>;
+}
+
+const UploadAccessPrompt: React.FC<UploadAccessPromptProps> = ({ access, onSubmitPin }) => {
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsPin = access.reason === 'pin_required' || access.reason === 'pin_invalid' || access.reason === 'pin_locked';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!UPLOAD_PIN_PATTERN.test(pin.trim())) {
+      setError('The PIN is 6 to 8 digits.');
+      return;
+    }
+
+    setChecking(true);
+    setError(null);
+    try {
+      const result = await onSubmitPin(pin);
+      if (result?.reason === 'pin_invalid' || result?.reason === 'pin_locked') {
+        setError(describeUploadDenial(result.reason));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to check the PIN');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (needsPin) {
+    return (
+      <form onSubmit={handleSubmit} className="text-center space-y-4">
+        <div className="mx-auto w-12 h-12 bg-purple-600 rounded-full flex items-center justify-center">
+          <Lock className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h3 className="text-lg font-medium text-white mb-1">Event PIN</h3>
+          <p className="text-gray-400 text-sm">{describeUploadDenial(access.reason === 'pin_locked' ? 'pin_locked' : 'pin_required')}</p>
+        </div>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+          placeholder="••••••"
+          className="w-40 mx-auto block p-3 bg-black/30 border border-gray-700 rounded-md text-white text-center tracking-[0.5em] focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          autoFocus
+        />
+        {error && (
+          <p className="text-red-300 text-sm">{error}</p>
+        )}
+        <button
+          type="submit"
+          disabled={checking || !pin}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm"
+        >
+          {checking ? 'Checking...' : 'Continue'}
+        </button>
+      </form>
+    );
+  }
+
+  const Icon = access.reason === 'not_open' || access.reason === 'closed' ? Clock : AlertCircle;
+
+  return (
+    <div className="text-center space-y-3">
+      <Icon className="w-12 h-12 text-gray-500 mx-auto" />
+      <h3 className="text-lg font-medium text-white">
+        {access.reason === 'not_open' ? 'Not Open Yet' : 'Uploads Unavailable'}
+      </h3>
+      <p className="text-gray-400 text-sm">
+        {access.reason ? describeUploadDenial(access.reason, access) : 'Uploads are unavailable right now.'}
+      </p>
+    </div>
+  );
+};
+
+export default UploadAccessPrompt;
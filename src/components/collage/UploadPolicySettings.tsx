@@ -0,0 +1,218 @@
+// src/components/collage/UploadPolicySettings.tsx - Who can add photos, and when
+// Co-hosts and the owner turn guest uploads on or off and set the optional PIN, upload window,
+// per-device limit and photo cap. The database enforces all of it; leaving a field empty means
+// no rule.
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useCollageStore } from '../../store/collageStore';
+import { fetchUploadPolicy, saveUploadPolicy, UPLOAD_PIN_PATTERN, type UploadPolicyChanges } from '../../lib/uploadAccess';
+
+interface UploadPolicySettingsProps {
+  collageId: string;
+}
+
+interface PolicyForm {
+  pin: string;
+  opensAt: string; // datetime-local value, in the organizer's time zone
+  closesAt: string;
+  maxPerDevice: string;
+  maxPhotos: string;
+}
+
+const EMPTY_FORM: PolicyForm = { pin: '', opensAt: '', closesAt: '', maxPerDevice: '', maxPhotos: '' };
+
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toLimit = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+
+const UploadPolicySettings: React.FC<UploadPolicySettingsProps> = ({ collageId }) => {
+  const { currentCollage, updateUploadsEnabled } = useCollageStore();
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchUploadPolicy(collageId)
+      .then(policy => {
+        if (cancelled) return;
+        setForm(policy ? {
+          pin: policy.pin ?? '',
+          opensAt: toLocalInput(policy.opens_at),
+          closesAt: toLocalInput(policy.closes_at),
+          maxPerDevice: policy.max_per_device?.toString() ?? '',
+          maxPhotos: policy.max_photos?.toString() ?? ''
+        } : EMPTY_FORM);
+      })
+      .catch((err: any) => { if (!cancelled) setMessage({ type: 'error', text: err.message || 'Failed to load upload rules' }); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [collageId]);
+
+  const updateForm = (changes: Partial<PolicyForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setMessage(null);
+  };
+
+  const handleToggleUploads = async (enabled: boolean) => {
+    try {
+      await updateUploadsEnabled(collageId, enabled);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to update uploads' });
+    }
+  };
+
+  const handleSave = async () => {
+    const changes: UploadPolicyChanges = {
+      pin: form.pin.trim() || null,
+      opens_at: fromLocalInput(form.opensAt),
+      closes_at: fromLocalInput(form.closesAt),
+      max_per_device: toLimit(form.maxPerDevice),
+      max_photos: toLimit(form.maxPhotos)
+    };
+
+    // Same rules as the table constraints, with friendlier wording
+    if (changes.pin && !UPLOAD_PIN_PATTERN.test(changes.pin)) {
+      setMessage({ type: 'error', text: 'The PIN must be 6 to 8 digits.' });
+      return;
+    }
+    if (changes.opens_at && changes.closes_at && changes.opens_at >= changes.closes_at) {
+      setMessage({ type: 'error', text: 'Uploads must open before they close.' });
+      return;
+    }
+    if ([changes.max_per_device, changes.max_photos].some(limit => limit !== null && (isNaN(limit) || limit < 1))) {
+      setMessage({ type: 'error', text: 'Limits must be at least 1, or empty for no limit.' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveUploadPolicy(collageId, changes);
+      setMessage({ type: 'success', text: 'Upload rules saved' });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to save upload rules' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded py-1 px-2 text-sm text-white';
+
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-medium text-gray-200 mb-3">
+        <Lock className="h-4 w-4 mr-2" />
+        Guest Uploads
+      </h4>
+
+      <div className="space-y-4">
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={currentCollage?.uploads_enabled ?? true}
+            onChange={(e) => handleToggleUploads(e.target.checked)}
+            className="mr-2 bg-gray-800 border-gray-700"
+          />
+          <label className="text-sm text-gray-300">
+            Guests can add photos
+          </label>
+        </div>
+
+        {loading ? (
+          <p className="text-xs text-gray-400">Loading upload rules...</p>
+        ) : (
+          <>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Event PIN (6-8 digits, optional)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={form.pin}
+                onChange={(e) => updateForm({ pin: e.target.value.replace(/\D/g, '').slice(0, 8) })}
+                placeholder="No PIN"
+                className={`${inputClass} tracking-widest`}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Opens</label>
+                <input
+                  type="datetime-local"
+                  value={form.opensAt}
+                  onChange={(e) => updateForm({ opensAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Closes</label>
+                <input
+                  type="datetime-local"
+                  value={form.closesAt}
+                  onChange={(e) => updateForm({ closesAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Photos per device</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.maxPerDevice}
+                  onChange={(e) => updateForm({ maxPerDevice: e.target.value })}
+                  placeholder="No limit"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Photos in total</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.maxPhotos}
+                  onChange={(e) => updateForm({ maxPhotos: e.target.value })}
+                  placeholder="No limit"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-400">
+              Moderators and up skip the PIN, window and per-device limit. Trashed photos don't count toward the total.
+            </p>
+
+            {message && (
+              <p className={`text-xs ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                {message.text}
+              </p>
+            )}
+
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="w-full flex items-center justify-center px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors text-sm"
+            >
+              {saving ? 'Saving...' : 'Save Upload Rules'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UploadPolicySettings;
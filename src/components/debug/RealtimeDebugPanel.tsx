@@ -77,6 +77,7 @@ const RealtimeDebugPanel: React.FC<RealtimeDebugPanelProps> = ({ collageId, onCl
             .from('photos')
             .select('count', { count: 'exact', head: true })
             .eq('collage_id', collageId)
+            .is('deleted_at', null)
             .then(({ count, error }) => {
               if (!error && count !== null) {
                 console.log('🔍 DEBUG PANEL: Initial photo count:', count);
@@ -62,6 +62,7 @@ const RealtimeStatus: React.FC<RealtimeStatusProps> = ({ collageId, showDetails
             .from('photos')
             .select('count', { count: 'exact', head: true })
             .eq('collage_id', collageId)
+            .is('deleted_at', null)
             .then(({ count, error }) => {
               if (!error && count !== null) {
                 setPhotoCount(count);
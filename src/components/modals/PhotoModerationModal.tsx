@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
 import { X, Check, Trash2, Eye, AlertCircle } from 'lucide-react';
 import { useCollageStore } from '../../store/collageStore';
+import { getPhotoUrl } from '../../lib/photoDerivatives';
+import { TRASH_RETENTION_DAYS } from '../../lib/moderation';
 
 interface Photo {
   id: string;
   url: string;
+  thumbnail_url?: string | null;
+  display_url?: string | null;
   collage_id: string;
   created_at: string;
 }
@@ -31,7 +35,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
   };
 
   const handleReject = async (photo: Photo) => {
-    if (!confirm('Are you sure you want to delete this photo? This action cannot be undone.')) {
+    if (!confirm('Move this photo to the trash? You can restore it from the Trash tab on the moderation page.')) {
       return;
     }
 
@@ -102,7 +106,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
                 >
                   {/* Photo with smart cropping for desktop images */}
                   <img
-                    src={photo.url}
+                    src={getPhotoUrl(photo, 'thumb')}
                     alt="Uploaded photo"
                     className="w-full h-full object-cover"
                     loading="lazy"
@@ -167,7 +171,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
           <p className="text-gray-300 text-sm">
             <strong>Instructions:</strong> Review each photo before it appears in the collage. 
             Use the preview button to see the full image with any text that was added in the photobooth. 
-            Approve photos to keep them, or delete to remove them permanently from the collage.
+            Approve photos to keep them, or delete to move them to the trash - deleted photos can be restored for {TRASH_RETENTION_DAYS} days.
           </p>
         </div>
       </div>
@@ -187,7 +191,7 @@ const PhotoModerationModal: React.FC<PhotoModerationModalProps> = ({
             {/* Photo preview modal image */}
             <div className="relative flex-1 flex items-center justify-center">
               <img
-                src={selectedPhoto.url}
+                src={getPhotoUrl(selectedPhoto, 'display')}
                 alt="Photo preview"
                 className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl"
                 style={{
@@ -5,13 +5,20 @@ import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
 import { type SceneSettings } from '../../store/sceneStore';
 import { PatternFactory } from './patterns/PatternFactory';
+import { getPatternDefinition } from './patterns/PatternRegistry';
+import { startTransition, getTransitionProgress, getTransitionSlot, EASINGS, type ActiveTransition } from './patterns/PatternTransitions';
+import { createSlotTargets, writeSlotTarget, readSlotPosition, readSlotRotation, type SlotTargets } from './patterns/SlotTargets';
 import { addCacheBustToUrl } from '../../lib/supabase';
 import { CameraAnimationController } from './CameraAnimationController';
+import InstancedPhotoRenderer, { INSTANCED_RENDER_THRESHOLD } from './InstancedPhotoRenderer';
+import { PhotoTextureStreamer, usePhotoTexture } from './PhotoTextureManager';
 import MilkyWayParticleSystem, { PARTICLE_THEMES } from './MilkyWayParticleSystem';
 
 type Photo = {
   id: string;
   url: string;
+  thumbnail_url?: string | null;
+  display_url?: string | null;
   collage_id?: string;
   created_at?: string;
 };
@@ -24,20 +31,52 @@ type CollageSceneProps = {
   width?: number;
   height?: number;
   onSettingsChange?: (settings: Partial<SceneSettings>, debounce?: boolean) => void;
+  heroPhotoId?: string | null; // Photo to feature next when settings.heroPhoto is enabled
+  onHeroPhotoComplete?: (photoId: string) => void;
+  onPhotoSelect?: (photo: Photo) => void; // Enables click/tap picking of photos
+  focusedPhotoId?: string | null; // Pauses the animation and flies the camera to this photo
 };
 
+type HeroPhase = 'flyIn' | 'hold' | 'flyOut' | 'done';
+
+// targetPosition/targetRotation are the slot's target when membership last changed - live
+// targets are in SlotTargets
 type PhotoWithPosition = Photo & {
   targetPosition: [number, number, number];
   targetRotation: [number, number, number];
   displayIndex?: number;
   slotIndex: number;
+  transitioning?: boolean; // Follow the target exactly while a pattern transition plays
+  featured?: boolean; // Hero photo up close - always drawn at full resolution
 };
 
-// Adjusted smoothing values for float pattern
+// Adjusted smoothing values for float pattern - pattern switches use settings.transition instead
 const POSITION_SMOOTHING = 0.1;
 const ROTATION_SMOOTHING = 0.1;
 const TELEPORT_THRESHOLD = 30;
 
+// Pattern time runs off the wall clock so every display at a venue shows the same frame
+const PATTERN_CLOCK_EPOCH = Date.UTC(2025, 0, 1);
+const getSharedPatternTime = () => (Date.now() - PATTERN_CLOCK_EPOCH) / 1000;
+
+// Photo picking - pointer travel (px) that still counts as a tap, and camera fly-to tuning
+const PICK_MAX_DRAG = 6;
+const FOCUS_VIEW_FILL = 0.8;
+const CAMERA_FLY_SMOOTHING = 0.08;
+
+// Hero photo mode - seconds to fly between the slot and the camera, and how much of the view height the photo fills
+const HERO_FLY_DURATION = 1.2;
+const HERO_VIEW_FILL = 0.7;
+
+const getHeroPhase = (elapsed: number, holdDuration: number): { phase: HeroPhase; progress: number } => {
+  if (elapsed < HERO_FLY_DURATION) return { phase: 'flyIn', progress: elapsed / HERO_FLY_DURATION };
+  if (elapsed < HERO_FLY_DURATION + holdDuration) return { phase: 'hold', progress: 1 };
+  if (elapsed < HERO_FLY_DURATION * 2 + holdDuration) {
+    return { phase: 'flyOut', progress: (elapsed - HERO_FLY_DURATION - holdDuration) / HERO_FLY_DURATION };
+  }
+  return { phase: 'done', progress: 1 };
+};
+
 // ENHANCED: Stable slot assignment system that preserves slots during uploads
 class SlotManager {
   private slotAssignments = new Map<string, number>();
@@ -81,15 +120,24 @@ class SlotManager {
     
     // Remove assignments for photos that no longer exist
     const currentPhotoIds = new Set(safePhotos.map(p => p.id));
+    let removed = false;
     for (const [photoId, slotIndex] of this.slotAssignments.entries()) {
       if (!currentPhotoIds.has(photoId)) {
         this.slotAssignments.delete(photoId);
         this.occupiedSlots.delete(slotIndex);
+        removed = true;
       }
     }
 
     // Rebuild available slots after cleanup
-    this.rebuildAvailableSlots();
+    if (removed) {
+      this.rebuildAvailableSlots();
+    }
+
+    // PERFORMANCE: Runs every frame - skip the sort unless a photo still needs a slot
+    if (this.availableSlots.length === 0 || safePhotos.every(photo => this.slotAssignments.has(photo.id))) {
+      return new Map(this.slotAssignments);
+    }
 
     // Sort photos for consistent assignment order
     const sortedPhotos = [...safePhotos].sort((a, b) => {
@@ -188,11 +236,54 @@ const getCurrentParticleTheme = (settings: SceneSettings) => {
 };
 
 // CameraController component with FIXED controls
-const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
+const CameraController: React.FC<{
+  settings: SceneSettings;
+  focusPhoto?: PhotoWithPosition | null;
+  shouldFaceCamera?: boolean;
+  targets: SlotTargets;
+}> = ({ settings, focusPhoto, shouldFaceCamera, targets }) => {
   const { camera } = useThree();
   const controlsRef = useRef<any>();
   const userInteractingRef = useRef(false);
   const lastInteractionTimeRef = useRef(0);
+  const focusRef = useRef<{ target: THREE.Vector3; position: THREE.Vector3; arrived: boolean } | null>(null);
+  const returnRef = useRef<{ target: THREE.Vector3; position: THREE.Vector3 } | null>(null);
+
+  // Work out where to look at a picked photo from, and remember the view to fly back to
+  useEffect(() => {
+    if (!controlsRef.current) return;
+
+    if (!focusPhoto) {
+      focusRef.current = null;
+      return;
+    }
+
+    if (!returnRef.current) {
+      returnRef.current = {
+        target: controlsRef.current.target.clone(),
+        position: camera.position.clone()
+      };
+    }
+
+    // The animation is paused while focused, so the slot's live target is where the photo is
+    const target = new THREE.Vector3(...readSlotPosition(targets, focusPhoto.slotIndex));
+    const toCamera = camera.position.clone().sub(target);
+    const normal = shouldFaceCamera
+      ? toCamera.clone().normalize()
+      : new THREE.Vector3(0, 0, 1).applyEuler(new THREE.Euler(...readSlotRotation(targets, focusPhoto.slotIndex)));
+
+    // Photos are double sided - view from whichever side the camera is already on
+    if (normal.dot(toCamera) < 0) normal.negate();
+
+    const fov = (camera as THREE.PerspectiveCamera).fov || 75;
+    const distance = (settings.photoSize || 4) / (2 * Math.tan((fov * Math.PI) / 360) * FOCUS_VIEW_FILL);
+
+    focusRef.current = {
+      target,
+      position: target.clone().addScaledVector(normal, distance),
+      arrived: false
+    };
+  }, [focusPhoto?.id]);
   
   // Initialize camera position
   useEffect(() => {
@@ -242,6 +333,25 @@ const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) =
   useFrame((state, delta) => {
     if (!controlsRef.current) return;
 
+    // Fly to the picked photo, or back to the saved view once it is closed
+    const goal = focusRef.current || returnRef.current;
+    if (goal) {
+      if (!focusRef.current?.arrived) {
+        camera.position.lerp(goal.position, CAMERA_FLY_SMOOTHING);
+        controlsRef.current.target.lerp(goal.target, CAMERA_FLY_SMOOTHING);
+        controlsRef.current.update();
+
+        if (camera.position.distanceTo(goal.position) < 0.05) {
+          if (focusRef.current) {
+            focusRef.current.arrived = true; // Let the user look around freely
+          } else {
+            returnRef.current = null;
+          }
+        }
+      }
+      if (focusRef.current || returnRef.current) return;
+    }
+
     // Only auto-rotate if camera rotation is enabled AND user isn't interacting
     if (settings.cameraRotationEnabled && !userInteractingRef.current) {
       const offset = new THREE.Vector3().copy(camera.position).sub(controlsRef.current.target);
@@ -270,7 +380,7 @@ const CameraController: React.FC<{ settings: SceneSettings }> = ({ settings }) =
       enablePan={true}
       enableZoom={true}
       enableRotate={true}
-      minDistance={5}
+      minDistance={focusPhoto ? 1 : 5}
       maxDistance={200}
       minPolarAngle={Math.PI / 6}
       maxPolarAngle={Math.PI - Math.PI / 6}
@@ -386,11 +496,23 @@ const SceneLighting: React.FC<{ settings: SceneSettings }> = ({ settings }) => {
 const AnimationController: React.FC<{
   settings: SceneSettings;
   photos: Photo[];
+  targets: SlotTargets;
   onPositionsUpdate: (photos: PhotoWithPosition[]) => void;
-}> = ({ settings, photos, onPositionsUpdate }) => {
+  heroPhotoId?: string | null;
+  onHeroPhaseChange?: (photoId: string, phase: HeroPhase) => void;
+  paused?: boolean;
+}> = ({ settings, photos, targets, onPositionsUpdate, heroPhotoId, onHeroPhaseChange, paused }) => {
   const slotManagerRef = useRef(new SlotManager(settings.photoCount || 100));
   const lastPhotoCount = useRef(settings.photoCount || 100);
-  const lastPositionsRef = useRef<PhotoWithPosition[]>([]);
+  // What the renderers were last told about slot membership - positions go through targets
+  const publishedRef = useRef<{ photos: Photo[] | null; slotCount: number; transitioning: boolean; heroSlot: number }>({
+    photos: null, slotCount: 0, transitioning: false, heroSlot: -1
+  });
+  const lastPatternRef = useRef(settings.animationPattern);
+  const transitionRef = useRef<ActiveTransition | null>(null);
+  const heroRef = useRef<{ photoId: string; startTime: number; phase: HeroPhase } | null>(null);
+  const pausedTimeRef = useRef(0);
+  const { camera } = useThree();
   
   const currentPhotoIds = useMemo(() => 
     (photos || []).map(p => p.id).sort().join(','), 
@@ -407,16 +529,35 @@ const AnimationController: React.FC<{
 
       // Get STABLE slot assignments - only new photos get new slots
       const slotAssignments = slotManagerRef.current.assignSlots(safePhotos);
+
+      // Pattern switched - freeze where every slot is now and choreograph the move
+      const now = performance.now() / 1000;
+      if (safeSettings.animationPattern !== lastPatternRef.current) {
+        console.log('🎞️ TRANSITION: Pattern changed from', lastPatternRef.current, 'to', safeSettings.animationPattern, '-', safeSettings.transition?.type);
+        lastPatternRef.current = safeSettings.animationPattern;
+
+        const from = { positions: [] as [number, number, number][], rotations: [] as [number, number, number][] };
+        for (let i = 0; i < publishedRef.current.slotCount; i++) {
+          from.positions[i] = readSlotPosition(targets, i);
+          from.rotations[i] = readSlotRotation(targets, i);
+        }
+        transitionRef.current = startTransition(safeSettings.transition, from, now);
+      }
+
+      if (transitionRef.current && getTransitionProgress(transitionRef.current, now) >= 1) {
+        console.log('🎞️ TRANSITION: Complete');
+        transitionRef.current = null;
+      }
       
       // Generate pattern positions with error handling
       let patternState;
       try {
-        const pattern = PatternFactory.createPattern(
-          safeSettings.animationPattern || 'grid', 
-          safeSettings, 
+        patternState = PatternFactory.generatePositions(
+          safeSettings,
+          time,
+          safeSettings.photoCount || 100,
           safePhotos
         );
-        patternState = pattern.generatePositions(time);
       } catch (error) {
         console.error('Pattern generation error:', error);
         // Fallback to simple grid
@@ -431,57 +572,129 @@ const AnimationController: React.FC<{
         patternState = { positions, rotations };
       }
       
+      const slotCount = safeSettings.photoCount || 100;
+      const transition = transitionRef.current;
+      const cameraPosition = camera.position.toArray() as [number, number, number];
+
+      // Hero photo mode - start featuring the next queued photo
+      const heroEnabled = !!safeSettings.heroPhoto?.enabled;
+      if (!heroEnabled || !heroPhotoId) {
+        heroRef.current = null;
+      } else if (heroRef.current?.photoId !== heroPhotoId) {
+        heroRef.current = { photoId: heroPhotoId, startTime: now, phase: 'flyIn' };
+        onHeroPhaseChange?.(heroPhotoId, 'flyIn');
+      }
+
+      let hero: { slotIndex: number; phase: HeroPhase; progress: number } | null = null;
+      if (heroRef.current) {
+        const heroSlot = slotAssignments.get(heroRef.current.photoId);
+        const { phase, progress } = getHeroPhase(now - heroRef.current.startTime, safeSettings.heroPhoto.holdDuration);
+
+        // Photos without a visible slot (deleted, or every slot taken) are skipped
+        const finalPhase = heroSlot === undefined || heroSlot >= slotCount ? 'done' : phase;
+        if (finalPhase !== heroRef.current.phase) {
+          heroRef.current.phase = finalPhase;
+          onHeroPhaseChange?.(heroRef.current.photoId, finalPhase);
+        }
+        if (finalPhase !== 'done' && heroSlot !== undefined) {
+          hero = { slotIndex: heroSlot, phase: finalPhase, progress };
+        }
+      }
+
+      // Just in front of the camera, sized to fill most of the view and facing the lens
+      const getHeroTarget = () => {
+        const fov = (camera as THREE.PerspectiveCamera).fov || 75;
+        const distance = (safeSettings.photoSize || 4) / (2 * Math.tan((fov * Math.PI) / 360) * HERO_VIEW_FILL);
+        const direction = camera.getWorldDirection(new THREE.Vector3());
+        return {
+          position: camera.position.clone().addScaledVector(direction, distance).toArray() as [number, number, number],
+          rotation: [camera.rotation.x, camera.rotation.y, camera.rotation.z] as [number, number, number],
+        };
+      };
+
+      // Target for a slot - blended between the old and new pattern while transitioning
+      const getSlotTarget = (slotIndex: number) => {
+        const target = {
+          position: (patternState.positions[slotIndex] || [0, 0, 0]) as [number, number, number],
+          rotation: (patternState.rotations?.[slotIndex] || [0, 0, 0]) as [number, number, number],
+        };
+        const slotTarget = transition
+          ? getTransitionSlot(transition, slotIndex, slotCount, target, now, cameraPosition)
+          : target;
+
+        if (hero?.slotIndex !== slotIndex) return slotTarget;
+
+        const heroTarget = getHeroTarget();
+        if (hero.phase === 'hold') return heroTarget;
+
+        const k = EASINGS.easeInOut.fn(hero.progress);
+        const [from, to] = hero.phase === 'flyIn' ? [slotTarget, heroTarget] : [heroTarget, slotTarget];
+        return {
+          position: from.position.map((value, i) => value + (to.position[i] - value) * k) as [number, number, number],
+          rotation: from.rotation.map((value, i) => value + (to.rotation[i] - value) * k) as [number, number, number],
+        };
+      };
+
+      // Every slot's target goes straight to the renderers, without a React update
+      for (let i = 0; i < slotCount; i++) {
+        const target = getSlotTarget(i);
+        writeSlotTarget(targets, i, target.position, target.rotation);
+      }
+
+      // Slot membership only changes with the photos, the slot count, transitions and the hero photo
+      const heroSlot = hero?.slotIndex ?? -1;
+      const published = publishedRef.current;
+      if (
+        published.photos === photos &&
+        published.slotCount === slotCount &&
+        published.transitioning === !!transition &&
+        published.heroSlot === heroSlot
+      ) {
+        return;
+      }
+      publishedRef.current = { photos, slotCount, transitioning: !!transition, heroSlot };
+
       const photosWithPositions: PhotoWithPosition[] = [];
       
       // CRITICAL: Preserve existing photo positions, only add new photos to new slots
       for (const photo of safePhotos) {
         const slotIndex = slotAssignments.get(photo.id);
-        if (slotIndex !== undefined && slotIndex < (safeSettings.photoCount || 100)) {
+        if (slotIndex !== undefined && slotIndex < slotCount) {
           photosWithPositions.push({
             ...photo,
-            targetPosition: patternState.positions[slotIndex] || [0, 0, 0],
-            targetRotation: patternState.rotations?.[slotIndex] || [0, 0, 0],
+            targetPosition: readSlotPosition(targets, slotIndex),
+            targetRotation: readSlotRotation(targets, slotIndex),
             displayIndex: slotIndex,
             slotIndex,
+            transitioning: !!transition || heroSlot === slotIndex,
+            featured: heroSlot === slotIndex,
           });
         }
       }
       
       // Add empty slots for remaining positions - STABLE ORDER
-      for (let i = 0; i < (safeSettings.photoCount || 100); i++) {
-        const hasPhoto = photosWithPositions.some(p => p.slotIndex === i);
-        if (!hasPhoto) {
+      const filledSlots = new Set(photosWithPositions.map(p => p.slotIndex));
+      for (let i = 0; i < slotCount; i++) {
+        if (!filledSlots.has(i)) {
           photosWithPositions.push({
             id: `placeholder-${i}`, // Stable ID for empty slots
             url: '',
-            targetPosition: patternState.positions[i] || [0, 0, 0],
-            targetRotation: patternState.rotations?.[i] || [0, 0, 0],
+            targetPosition: readSlotPosition(targets, i),
+            targetRotation: readSlotRotation(targets, i),
             displayIndex: i,
             slotIndex: i,
+            transitioning: !!transition,
           });
         }
       }
       
       // CRITICAL: Always sort by slot index for consistent order
       photosWithPositions.sort((a, b) => a.slotIndex - b.slotIndex);
-      
-      // Only update if positions actually changed significantly
-      const positionsChanged = photosWithPositions.length !== lastPositionsRef.current.length ||
-        photosWithPositions.some((photo, index) => {
-          const lastPhoto = lastPositionsRef.current[index];
-          return !lastPhoto || 
-                 lastPhoto.id !== photo.id ||
-                 lastPhoto.targetPosition.some((pos, i) => Math.abs(pos - photo.targetPosition[i]) > 0.001);
-        });
-
-      if (positionsChanged) {
-        lastPositionsRef.current = photosWithPositions;
-        onPositionsUpdate(photosWithPositions);
-      }
+      onPositionsUpdate(photosWithPositions);
     } catch (error) {
       console.error('Error in updatePositions:', error);
     }
-  }, [photos, settings, onPositionsUpdate]);
+  }, [photos, settings, targets, onPositionsUpdate, camera, heroPhotoId, onHeroPhaseChange]);
 
   // CRITICAL FIX: Only update immediately for photo count changes, not photo additions
   useEffect(() => {
@@ -513,11 +726,14 @@ const AnimationController: React.FC<{
   }, [currentPhotoIds, photos]);
 
   // Regular animation updates
-  useFrame((state) => {
-    const time = settings.animationEnabled ? 
-      state.clock.elapsedTime * ((settings.animationSpeed || 50) / 50) : 0;
+  // Patterns apply animationSpeed themselves, so pass plain seconds
+  useFrame(() => {
+    // Hold the current frame while a picked photo is being viewed
+    if (!paused) {
+      pausedTimeRef.current = settings.animationEnabled ? getSharedPatternTime() : 0;
+    }
     
-    updatePositions(time);
+    updatePositions(pausedTimeRef.current);
   });
 
   // Cleanup animation frame on unmount
@@ -659,21 +875,25 @@ const DynamicLightingSystem: React.FC<{ settings: SceneSettings }> = ({ settings
 // ENHANCED: PhotoMesh with FIXED empty slot color
 const PhotoMesh: React.FC<{
   photo: PhotoWithPosition;
+  targets: SlotTargets;
   size: number;
   emptySlotColor: string;
   pattern: string;
   shouldFaceCamera: boolean;
   brightness: number;
-}> = React.memo(({ photo, size, emptySlotColor, pattern, shouldFaceCamera, brightness }) => { 
+  onSelect?: (photo: PhotoWithPosition) => void;
+}> = React.memo(({ photo, targets, size, emptySlotColor, pattern, shouldFaceCamera, brightness, onSelect }) => { 
   const meshRef = useRef<THREE.Mesh>(null);
-  const { camera, gl } = useThree();
-  const [texture, setTexture] = useState<THREE.Texture | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasError, setHasError] = useState(false);
+  const { camera } = useThree();
   const isInitializedRef = useRef(false);
   const lastPositionRef = useRef<[number, number, number]>([0, 0, 0]);
   const currentPosition = useRef<THREE.Vector3>(new THREE.Vector3(...photo.targetPosition));
   const currentRotation = useRef<THREE.Euler>(new THREE.Euler(...photo.targetRotation));
+  const targetPositionRef = useRef(new THREE.Vector3());
+  const targetRotationRef = useRef(new THREE.Euler());
+
+  // Thumbnail first, upgraded as the photo grows on screen - shared and budgeted by the texture manager
+  const texture = usePhotoTexture(photo, meshRef, size || 4.0);
 
   // Initialize position immediately to prevent jarring movements
   useEffect(() => {
@@ -681,50 +901,6 @@ const PhotoMesh: React.FC<{
     currentRotation.current.set(...photo.targetRotation);
   }, []);
 
-  useEffect(() => {
-    if (!photo.url) {
-      setIsLoading(false);
-      return;
-    }
-
-    const loader = new THREE.TextureLoader();
-    setIsLoading(true);
-    setHasError(false);
-    
-    const handleLoad = (loadedTexture: THREE.Texture) => {
-      // Enable mipmaps for better texture quality at different distances
-      loadedTexture.generateMipmaps = true;
-      loadedTexture.minFilter = THREE.LinearFilter;
-      loadedTexture.magFilter = THREE.LinearFilter;
-      loadedTexture.format = THREE.RGBAFormat;
-      
-      // Apply anisotropic filtering for better quality at oblique angles
-      if (gl && gl.capabilities.getMaxAnisotropy) {
-        loadedTexture.anisotropy = gl.capabilities.getMaxAnisotropy();
-      }
-
-      setTexture(loadedTexture);
-      setIsLoading(false);
-    };
-
-    const handleError = () => {
-      setHasError(true);
-      setIsLoading(false);
-    };
-
-    const imageUrl = photo.url.includes('?') 
-      ? `${photo.url}&t=${Date.now()}`
-      : `${photo.url}?t=${Date.now()}`;
-
-    loader.load(imageUrl, handleLoad, undefined, handleError);
-
-    return () => {
-      if (texture) {
-        texture.dispose();
-      }
-    };
-  }, [photo.url]);
-
   // Camera facing logic
   useFrame(() => {
     if (!meshRef.current || !shouldFaceCamera) return;
@@ -747,13 +923,18 @@ const PhotoMesh: React.FC<{
   useFrame(() => {
     if (!meshRef.current) return;
 
-    const targetPosition = new THREE.Vector3(...photo.targetPosition);
-    const targetRotation = new THREE.Euler(...photo.targetRotation);
+    const p = photo.slotIndex * 3;
+    const targetPosition = targetPositionRef.current.fromArray(targets.positions, p);
+    const targetRotation = targetRotationRef.current.set(targets.rotations[p], targets.rotations[p + 1], targets.rotations[p + 2]);
 
     const distance = currentPosition.current.distanceTo(targetPosition);
     const isTeleport = distance > TELEPORT_THRESHOLD;
 
-    if (isTeleport) {
+    if (photo.transitioning) {
+      // Transition choreography is already smooth - follow it exactly
+      currentPosition.current.copy(targetPosition);
+      currentRotation.current.copy(targetRotation);
+    } else if (isTeleport) {
       // Instant teleport for large movements
       currentPosition.current.copy(targetPosition);
       currentRotation.current.copy(targetRotation);
@@ -827,12 +1008,29 @@ const PhotoMesh: React.FC<{
     }
   }, [texture, emptySlotColor, pattern, brightness]);
 
+  // Empty slots can't be picked
+  const selectable = !!onSelect && !!photo.url;
+
+  useEffect(() => {
+    return () => {
+      if (selectable) document.body.style.cursor = '';
+    };
+  }, [selectable]);
+
   return (
     <mesh
       ref={meshRef}
       material={material}
       castShadow
       receiveShadow
+      onClick={selectable ? (e) => {
+        // Ignore the end of an orbit drag - only a tap or click picks
+        if (e.delta > PICK_MAX_DRAG) return;
+        e.stopPropagation();
+        onSelect(photo);
+      } : undefined}
+      onPointerOver={selectable ? () => { document.body.style.cursor = 'pointer'; } : undefined}
+      onPointerOut={selectable ? () => { document.body.style.cursor = ''; } : undefined}
     >
       <planeGeometry args={[(size || 4.0) * (9/16), size || 4.0]} />
     </mesh>
@@ -846,30 +1044,59 @@ const PhotoMesh: React.FC<{
     prevProps.emptySlotColor === nextProps.emptySlotColor &&
     prevProps.shouldFaceCamera === nextProps.shouldFaceCamera &&
     prevProps.brightness === nextProps.brightness &&
-    prevProps.photo.targetPosition.every((pos, i) => 
-      Math.abs(pos - nextProps.photo.targetPosition[i]) < 0.001
-    )
+    prevProps.photo.transitioning === nextProps.photo.transitioning &&
+    prevProps.onSelect === nextProps.onSelect &&
+    prevProps.photo.slotIndex === nextProps.photo.slotIndex &&
+    prevProps.targets === nextProps.targets
   );
 });
 
 // Photo renderer with stable keys
 const PhotoRenderer: React.FC<{ 
   photosWithPositions: PhotoWithPosition[]; 
+  targets: SlotTargets;
   settings: SceneSettings;
-}> = ({ photosWithPositions, settings }) => {
-  const shouldFaceCamera = settings.animationPattern === 'float';
+  onSelect?: (photo: PhotoWithPosition) => void;
+  focusedPhotoId?: string | null;
+}> = ({ photosWithPositions, targets, settings, onSelect, focusedPhotoId }) => {
+  const shouldFaceCamera = !!getPatternDefinition(settings.animationPattern)?.faceCamera;
+  const instanced = photosWithPositions.length > INSTANCED_RENDER_THRESHOLD;
+
+  // Large collages go through the atlas; the hero and picked photos stay full resolution
+  const detailed = instanced ? photosWithPositions.filter(photo => photo.featured || photo.id === focusedPhotoId) : photosWithPositions;
+  const detailedKey = instanced ? detailed.map(photo => photo.id).join(',') : '';
+  const batched = useMemo(() => {
+    if (!instanced) return [];
+    if (!detailedKey) return photosWithPositions;
+    const detailedIds = new Set(detailedKey.split(','));
+    return photosWithPositions.filter(photo => !detailedIds.has(photo.id));
+  }, [photosWithPositions, instanced, detailedKey]);
   
   return (
     <group>
-      {photosWithPositions.map((photo) => (
+      {instanced && (
+        <InstancedPhotoRenderer
+          photos={batched}
+          targets={targets}
+          size={settings.photoSize || 4.0}
+          emptySlotColor={settings.emptySlotColor || '#1A1A1A'}
+          pattern={settings.animationPattern || 'grid'}
+          shouldFaceCamera={shouldFaceCamera}
+          brightness={settings.photoBrightness || 1.0}
+          onSelect={onSelect}
+        />
+      )}
+      {detailed.map((photo) => (
         <PhotoMesh
           key={`${photo.id}-${photo.slotIndex}`} // CRITICAL: Stable key combining ID and slot
           photo={photo}
+          targets={targets}
           size={settings.photoSize || 4.0}
           emptySlotColor={settings.emptySlotColor || '#1A1A1A'}
           pattern={settings.animationPattern || 'grid'}
           shouldFaceCamera={shouldFaceCamera}
           brightness={settings.photoBrightness || 1.0}
+          onSelect={onSelect}
         />
       ))}
     </group>
@@ -888,8 +1115,10 @@ const PhotoDebugger: React.FC<{ photos: Photo[] }> = ({ photos }) => {
 };
 
 // Main CollageScene component
-const CollageScene = forwardRef<HTMLCanvasElement, CollageSceneProps>(({ photos, settings, width = 1920, height = 1080, onSettingsChange }, ref) => {
+const CollageScene = forwardRef<HTMLCanvasElement, CollageSceneProps>(({ photos, settings, width = 1920, height = 1080, onSettingsChange, heroPhotoId, onHeroPhotoComplete, onPhotoSelect, focusedPhotoId }, ref) => {
   const [photosWithPositions, setPhotosWithPositions] = useState<PhotoWithPosition[]>([]);
+  const slotTargets = useMemo(createSlotTargets, []);
+  const [heroHolding, setHeroHolding] = useState(false);
   const internalCanvasRef = useRef<HTMLCanvasElement>(null);
 
   // Combine the forwarded ref with our internal ref
@@ -916,6 +1145,27 @@ const CollageScene = forwardRef<HTMLCanvasElement, CollageSceneProps>(({ photos,
     safeSettings.backgroundGradientAngle
   ]);
 
+  const shouldFaceCamera = !!getPatternDefinition(safeSettings.animationPattern)?.faceCamera;
+  const focusPhoto = focusedPhotoId
+    ? photosWithPositions.find(photo => photo.id === focusedPhotoId) || null
+    : null;
+
+  // Hand the picked photo back without the scene-only position fields
+  const handlePhotoSelect = useCallback((photo: PhotoWithPosition) => {
+    const { targetPosition, targetRotation, displayIndex, slotIndex, transitioning, featured, ...selected } = photo;
+    console.log('👆 PHOTO PICKED:', selected.id.slice(-6));
+    onPhotoSelect?.(selected);
+  }, [onPhotoSelect]);
+
+  // Caption shows while the hero photo holds; finished photos leave the queue
+  const handleHeroPhaseChange = useCallback((photoId: string, phase: HeroPhase) => {
+    console.log('🌟 HERO PHOTO:', photoId.slice(-6), phase);
+    setHeroHolding(phase === 'hold');
+    if (phase === 'done') {
+      onHeroPhotoComplete?.(photoId);
+    }
+  }, [onHeroPhotoComplete]);
+
   console.log('🎬 COLLAGE SCENE RENDER:', {
     photoCount: safePhotos.length,
     settingsPhotoCount: safeSettings.photoCount,
@@ -924,7 +1174,7 @@ const CollageScene = forwardRef<HTMLCanvasElement, CollageSceneProps>(({ photos,
   });
 
   return (
-    <div style={backgroundStyle} className="w-full h-full">
+    <div style={backgroundStyle} className="relative w-full h-full">
       <Canvas 
         ref={canvasRef}
         width={width}
@@ -959,8 +1209,10 @@ const CollageScene = forwardRef<HTMLCanvasElement, CollageSceneProps>(({ photos,
         linear={true}
       >
         <BackgroundRenderer settings={safeSettings} />
-        <CameraController settings={safeSettings} />
-        <CameraAnimationController config={safeSettings.cameraAnimation} />
+        <CameraController settings={safeSettings} focusPhoto={focusPhoto} shouldFaceCamera={shouldFaceCamera} targets={slotTargets} />
+        <CameraAnimationController
+          config={focusPhoto ? { ...safeSettings.cameraAnimation, enabled: false } : safeSettings.cameraAnimation}
+        />
         
         {/* Particle System */}
         {safeSettings.particles?.enabled && (
@@ -979,18 +1231,35 @@ const CollageScene = forwardRef<HTMLCanvasElement, CollageSceneProps>(({ photos,
         <AnimationController
           settings={safeSettings}
           photos={safePhotos}
+          targets={slotTargets}
           onPositionsUpdate={setPhotosWithPositions}
+          heroPhotoId={heroPhotoId}
+          onHeroPhaseChange={handleHeroPhaseChange}
+          paused={!!focusPhoto}
         />
         
         <PhotoDebugger photos={safePhotos} />
+        <PhotoTextureStreamer />
         
         <PhotoRenderer 
           photosWithPositions={photosWithPositions}
+          targets={slotTargets}
           settings={safeSettings}
+          onSelect={onPhotoSelect ? handlePhotoSelect : undefined}
+          focusedPhotoId={focusPhoto?.id}
         />
         
         <DynamicLightingSystem settings={safeSettings} />
       </Canvas>
+
+      {/* Hero photo caption */}
+      {heroHolding && safeSettings.heroPhoto?.enabled && safeSettings.heroPhoto.caption && (
+        <div className="absolute bottom-12 left-0 right-0 flex justify-center pointer-events-none z-10">
+          <div className="px-6 py-3 bg-black/60 backdrop-blur-md rounded-full border border-white/20 text-white text-xl font-semibold">
+            {safeSettings.heroPhoto.caption}
+          </div>
+        </div>
+      )}
     </div>
   );
 });
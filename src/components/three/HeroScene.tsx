@@ -6,6 +6,7 @@ import { Suspense } from 'react';
 import * as THREE from 'three';
 import { type SceneSettings } from '../../store/sceneStore';
 import { PatternFactory } from './patterns/PatternFactory';
+import { getPatternDefinition } from './patterns/PatternRegistry';
 import { addCacheBustToUrl } from '../../lib/supabase';
 import { CameraAnimationController } from './CameraAnimationController';
 import MilkyWayParticleSystem, { PARTICLE_THEMES } from './MilkyWayParticleSystem';
@@ -1069,7 +1070,7 @@ const PhotoRenderer: React.FC<{
   photosWithPositions: PhotoWithPosition[]; 
   settings: SceneSettings;
 }> = ({ photosWithPositions, settings }) => {
-  const shouldFaceCamera = settings.animationPattern === 'float';
+  const shouldFaceCamera = !!getPatternDefinition(settings.animationPattern)?.faceCamera;
   
   return (
     <group>
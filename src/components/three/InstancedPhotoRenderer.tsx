@@ -0,0 +1,482 @@
+// src/components/three/InstancedPhotoRenderer.tsx - Instanced photo rendering for stadium-size collages
+// Photos are packed into texture atlas pages and each page is drawn with a single
+// InstancedMesh, so thousands of photos cost a handful of draw calls instead of one
+// mesh, material and texture each. Slot positions are read each frame from the same
+// SlotTargets PhotoMesh uses and written straight into the instance matrices.
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree, type ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MAX_PATTERN_SLOTS } from './patterns/BasePattern';
+import { getPhotoTextureUrl } from './PhotoTextureManager';
+import { type SlotTargets } from './patterns/SlotTargets';
+
+export type InstancedPhotoSlot = {
+  id: string;
+  url: string;
+  thumbnail_url?: string | null;
+  slotIndex: number;
+  transitioning?: boolean;
+};
+
+// Collages with more slots than this switch from PhotoMesh to the instanced path
+export const INSTANCED_RENDER_THRESHOLD = 500;
+
+// Atlas layout - 2048px pages of 64x112 (~9:16) cells, 576 photos per page
+const ATLAS_SIZE = 2048;
+const CELL_WIDTH = 64;
+const CELL_HEIGHT = 112;
+const CELL_GUTTER = 2; // Sampled area is inset so mipmaps don't bleed between photos
+const ATLAS_COLUMNS = Math.floor(ATLAS_SIZE / CELL_WIDTH);
+const CELLS_PER_PAGE = ATLAS_COLUMNS * Math.floor(ATLAS_SIZE / CELL_HEIGHT);
+const EMPTY_CELL = 0; // Reserved for the empty slot look - also shown while a photo loads
+
+const MAX_CONCURRENT_LOADS = 6;
+const PAGE_UPLOAD_INTERVAL = 0.25; // Seconds between re-uploads of a page that is still filling
+
+// Same feel as PhotoMesh
+const POSITION_SMOOTHING = 0.1;
+const ROTATION_SMOOTHING = 0.1;
+const TELEPORT_THRESHOLD = 30;
+const PICK_MAX_DRAG = 6;
+
+type AtlasPage = {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  texture: THREE.CanvasTexture;
+  dirty: boolean;
+  lastUpload: number;
+};
+
+// Packs downscaled photos into atlas pages. Cells are recycled when photos leave.
+class PhotoAtlas {
+  pages: AtlasPage[] = [];
+  version = 0; // Bumped whenever a photo's cell becomes drawable or is released
+
+  private cells = new Map<string, number>();
+  private urls = new Map<string, string>();
+  private loaded = new Set<string>();
+  private freeCells: number[] = [];
+  private nextCell = EMPTY_CELL + 1;
+  private queue: InstancedPhotoSlot[] = [];
+  private activeLoads = 0;
+  private disposed = false;
+
+  constructor(private anisotropy: number) {
+    this.addPage();
+  }
+
+  // Allocate cells for new photos, release cells of photos that are gone
+  sync(photos: InstancedPhotoSlot[]) {
+    const current = new Set<string>();
+
+    for (const photo of photos) {
+      if (!photo.url) continue;
+      current.add(photo.id);
+
+      if (this.urls.get(photo.id) === photo.url) continue;
+      if (this.cells.has(photo.id)) this.release(photo.id);
+
+      const cell = this.freeCells.pop() ?? this.nextCell++;
+      while (this.pages.length <= Math.floor(cell / CELLS_PER_PAGE)) this.addPage();
+
+      this.cells.set(photo.id, cell);
+      this.urls.set(photo.id, photo.url);
+      this.queue.push(photo);
+    }
+
+    if (current.size !== this.cells.size) {
+      for (const photoId of Array.from(this.cells.keys())) {
+        if (!current.has(photoId)) this.release(photoId);
+      }
+    }
+
+    this.pump();
+  }
+
+  // Cell to sample for a photo - the empty cell until its image has been drawn
+  getCell(photoId: string) {
+    return this.loaded.has(photoId) ? this.cells.get(photoId)! : EMPTY_CELL;
+  }
+
+  // UV rect [u, v, width, height] of a cell's inner area
+  getRect(cell: number): [number, number, number, number] {
+    const local = cell % CELLS_PER_PAGE;
+    const x = (local % ATLAS_COLUMNS) * CELL_WIDTH;
+    const y = Math.floor(local / ATLAS_COLUMNS) * CELL_HEIGHT;
+
+    // CanvasTexture is flipped, so v runs up from the bottom of the canvas
+    return [
+      (x + CELL_GUTTER) / ATLAS_SIZE,
+      1 - (y + CELL_HEIGHT - CELL_GUTTER) / ATLAS_SIZE,
+      (CELL_WIDTH - CELL_GUTTER * 2) / ATLAS_SIZE,
+      (CELL_HEIGHT - CELL_GUTTER * 2) / ATLAS_SIZE
+    ];
+  }
+
+  getPage(cell: number) {
+    return Math.floor(cell / CELLS_PER_PAGE);
+  }
+
+  // Match PhotoMesh's empty slot material - flat color, grid lines for the grid pattern
+  drawEmptyCell(color: string, gridLines: boolean) {
+    const { ctx } = this.pages[0];
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, CELL_WIDTH, CELL_HEIGHT);
+
+    if (gridLines) {
+      ctx.strokeStyle = '#ffffff20';
+      ctx.lineWidth = 1;
+      for (let i = CELL_GUTTER; i <= CELL_WIDTH; i += 8) {
+        ctx.beginPath();
+        ctx.moveTo(i, 0);
+        ctx.lineTo(i, CELL_HEIGHT);
+        ctx.stroke();
+      }
+      for (let i = CELL_GUTTER; i <= CELL_HEIGHT; i += 8) {
+        ctx.beginPath();
+        ctx.moveTo(0, i);
+        ctx.lineTo(CELL_WIDTH, i);
+        ctx.stroke();
+      }
+    }
+
+    this.pages[0].dirty = true;
+    this.pages[0].lastUpload = 0;
+  }
+
+  // Re-upload pages that changed, throttled while many photos are streaming in
+  flush(now: number) {
+    for (const page of this.pages) {
+      if (page.dirty && now - page.lastUpload >= PAGE_UPLOAD_INTERVAL) {
+        page.texture.needsUpdate = true;
+        page.dirty = false;
+        page.lastUpload = now;
+      }
+    }
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.queue = [];
+    this.pages.forEach(page => page.texture.dispose());
+  }
+
+  private addPage() {
+    const canvas = document.createElement('canvas');
+    canvas.width = ATLAS_SIZE;
+    canvas.height = ATLAS_SIZE;
+    const ctx = canvas.getContext('2d')!;
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.anisotropy = this.anisotropy;
+
+    this.pages.push({ canvas, ctx, texture, dirty: true, lastUpload: 0 });
+  }
+
+  private release(photoId: string) {
+    const cell = this.cells.get(photoId);
+    if (cell === undefined) return;
+
+    this.cells.delete(photoId);
+    this.urls.delete(photoId);
+    if (this.loaded.delete(photoId)) this.version++;
+    this.freeCells.push(cell);
+  }
+
+  private pump() {
+    while (this.activeLoads < MAX_CONCURRENT_LOADS && this.queue.length > 0) {
+      const photo = this.queue.shift()!;
+      if (this.urls.get(photo.id) !== photo.url) continue;
+
+      this.activeLoads++;
+      this.load(photo).finally(() => {
+        this.activeLoads--;
+        if (!this.disposed) this.pump();
+      });
+    }
+  }
+
+  // Decode off the main thread - thousands of <img> decodes would stall the frame loop
+  private async fetchBitmap(url: string) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return createImageBitmap(await response.blob());
+  }
+
+  private async load(photo: InstancedPhotoSlot) {
+    const { id: photoId, url } = photo;
+    try {
+      // Cells are tiny - fetch the thumbnail, falling back to the original
+      const thumbnailUrl = getPhotoTextureUrl(photo, 'thumb');
+      const bitmap = await this.fetchBitmap(thumbnailUrl).catch(error => {
+        if (thumbnailUrl === url) throw error;
+        return this.fetchBitmap(url);
+      });
+
+      // The photo may have been removed or replaced while it was loading
+      const cell = this.cells.get(photoId);
+      if (this.disposed || cell === undefined || this.urls.get(photoId) !== url) {
+        bitmap.close();
+        return;
+      }
+
+      // Cover-crop into the whole cell, gutter included
+      const local = cell % CELLS_PER_PAGE;
+      const x = (local % ATLAS_COLUMNS) * CELL_WIDTH;
+      const y = Math.floor(local / ATLAS_COLUMNS) * CELL_HEIGHT;
+      const scale = Math.max(CELL_WIDTH / bitmap.width, CELL_HEIGHT / bitmap.height);
+      const sourceWidth = CELL_WIDTH / scale;
+      const sourceHeight = CELL_HEIGHT / scale;
+
+      const page = this.pages[this.getPage(cell)];
+      page.ctx.clearRect(x, y, CELL_WIDTH, CELL_HEIGHT);
+      page.ctx.drawImage(
+        bitmap,
+        (bitmap.width - sourceWidth) / 2,
+        (bitmap.height - sourceHeight) / 2,
+        sourceWidth,
+        sourceHeight,
+        x,
+        y,
+        CELL_WIDTH,
+        CELL_HEIGHT
+      );
+      bitmap.close();
+
+      page.dirty = true;
+      this.loaded.add(photoId);
+      this.version++;
+    } catch (error) {
+      // Leave the slot showing the empty cell
+      console.warn('⚠️ ATLAS: Could not load photo', photoId.slice(-6), error);
+    }
+  }
+}
+
+// One InstancedMesh per atlas page; `entries` maps instance ids back to photos
+type PageBatch = {
+  mesh: THREE.InstancedMesh;
+  rects: THREE.InstancedBufferAttribute;
+  entries: number[];
+};
+
+const createBatch = (geometry: THREE.PlaneGeometry, texture: THREE.Texture): PageBatch => {
+  const batchGeometry = geometry.clone();
+  const rects = new THREE.InstancedBufferAttribute(new Float32Array(MAX_PATTERN_SLOTS * 4), 4);
+  rects.setUsage(THREE.DynamicDrawUsage);
+  batchGeometry.setAttribute('atlasRect', rects);
+
+  const material = new THREE.MeshStandardMaterial({
+    map: texture,
+    side: THREE.DoubleSide,
+    toneMapped: false,
+    alphaTest: 0.5,
+  });
+
+  // Remap the plane's 0..1 UVs onto this instance's atlas cell
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nattribute vec4 atlasRect;')
+      .replace('#include <uv_vertex>', '#include <uv_vertex>\n#ifdef USE_MAP\nvMapUv = atlasRect.xy + vMapUv * atlasRect.zw;\n#endif');
+  };
+  material.customProgramCacheKey = () => 'photo-atlas';
+
+  const mesh = new THREE.InstancedMesh(batchGeometry, material, MAX_PATTERN_SLOTS);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(MAX_PATTERN_SLOTS * 3), 3);
+  mesh.count = 0;
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  // Instances spread far beyond the plane's own bounds
+  mesh.frustumCulled = false;
+
+  return { mesh, rects, entries: [] };
+};
+
+const disposeBatch = (batch: PageBatch) => {
+  batch.mesh.geometry.dispose();
+  (batch.mesh.material as THREE.Material).dispose();
+  batch.mesh.dispose();
+};
+
+type InstancedPhotoRendererProps<T extends InstancedPhotoSlot> = {
+  photos: T[];
+  targets: SlotTargets;
+  size: number;
+  emptySlotColor: string;
+  pattern: string;
+  shouldFaceCamera: boolean;
+  brightness: number;
+  onSelect?: (photo: T) => void;
+};
+
+const InstancedPhotoRenderer = <T extends InstancedPhotoSlot>({
+  photos,
+  targets,
+  size,
+  emptySlotColor,
+  pattern,
+  shouldFaceCamera,
+  brightness,
+  onSelect
+}: InstancedPhotoRendererProps<T>) => {
+  const { camera, gl } = useThree();
+  const atlas = useMemo(() => new PhotoAtlas(gl.capabilities.getMaxAnisotropy()), [gl]);
+  const geometry = useMemo(() => new THREE.PlaneGeometry(size * (9 / 16), size), [size]);
+  const [batches, setBatches] = useState<PageBatch[]>([]);
+  const batchesRef = useRef<PageBatch[]>([]);
+  batchesRef.current = batches;
+
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const layoutRef = useRef({ photos: null as T[] | null, version: -1, brightness });
+
+  // Per-slot animation state, like PhotoMesh's currentPosition/currentRotation refs
+  const slotState = useMemo(() => ({
+    ids: new Array<string | undefined>(MAX_PATTERN_SLOTS),
+    positions: new Float32Array(MAX_PATTERN_SLOTS * 3),
+    rotations: new Float32Array(MAX_PATTERN_SLOTS * 3),
+  }), []);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  useEffect(() => () => atlas.dispose(), [atlas]);
+
+  useEffect(() => {
+    console.log('🧊 INSTANCED RENDERER: Drawing', photosRef.current.length, 'slots across', batches.length, 'atlas pages');
+  }, [batches.length]);
+
+  useEffect(() => {
+    atlas.drawEmptyCell(emptySlotColor, pattern === 'grid');
+  }, [atlas, emptySlotColor, pattern]);
+
+  // Rebuild batches when the geometry changes; extra pages are added as the atlas grows
+  useEffect(() => {
+    layoutRef.current.photos = null;
+    setBatches(atlas.pages.map(page => createBatch(geometry, page.texture)));
+    return () => batchesRef.current.forEach(disposeBatch);
+  }, [atlas, geometry]);
+
+  useFrame((state) => {
+    if (batches.length === 0) return;
+
+    const currentPhotos = photosRef.current;
+    atlas.sync(currentPhotos);
+
+    if (atlas.pages.length > batches.length) {
+      setBatches([
+        ...batches,
+        ...atlas.pages.slice(batches.length).map(page => createBatch(geometry, page.texture))
+      ]);
+      return;
+    }
+
+    // Re-sort instances into page batches when photos, loaded cells or brightness change
+    const layout = layoutRef.current;
+    if (layout.photos !== currentPhotos || layout.version !== atlas.version || layout.brightness !== brightness) {
+      batches.forEach(batch => { batch.entries = []; });
+
+      currentPhotos.forEach((photo, index) => {
+        const cell = photo.url ? atlas.getCell(photo.id) : EMPTY_CELL;
+        const batch = batches[atlas.getPage(cell)];
+        const instance = batch.entries.length;
+        batch.entries.push(index);
+
+        batch.rects.setXYZW(instance, ...atlas.getRect(cell));
+        // Brightness only applies to real photos - empty slots keep their exact color
+        const tint = cell === EMPTY_CELL ? 1 : brightness;
+        batch.mesh.instanceColor!.setXYZ(instance, tint, tint, tint);
+      });
+
+      batches.forEach(batch => {
+        batch.mesh.count = batch.entries.length;
+        batch.rects.needsUpdate = true;
+        batch.mesh.instanceColor!.needsUpdate = true;
+      });
+
+      layout.photos = currentPhotos;
+      layout.version = atlas.version;
+      layout.brightness = brightness;
+    }
+
+    // Ease every slot toward its target and write the instance matrices
+    const { ids, positions, rotations } = slotState;
+    batches.forEach(batch => {
+      batch.entries.forEach((photoIndex, instance) => {
+        const photo = currentPhotos[photoIndex];
+        const slot = photo.slotIndex;
+        const p = slot * 3;
+        const tx = targets.positions[p], ty = targets.positions[p + 1], tz = targets.positions[p + 2];
+        const rx = targets.rotations[p], ry = targets.rotations[p + 1], rz = targets.rotations[p + 2];
+
+        const distance = Math.hypot(tx - positions[p], ty - positions[p + 1], tz - positions[p + 2]);
+        // New photo in the slot (or a large jump) - start at the target
+        const snap = ids[slot] !== photo.id || photo.transitioning || distance > TELEPORT_THRESHOLD;
+        ids[slot] = photo.id;
+
+        if (snap) {
+          positions.set(targets.positions.subarray(p, p + 3), p);
+          rotations.set(targets.rotations.subarray(p, p + 3), p);
+        } else {
+          positions[p] += (tx - positions[p]) * POSITION_SMOOTHING;
+          positions[p + 1] += (ty - positions[p + 1]) * POSITION_SMOOTHING;
+          positions[p + 2] += (tz - positions[p + 2]) * POSITION_SMOOTHING;
+          rotations[p] += (rx - rotations[p]) * ROTATION_SMOOTHING;
+          rotations[p + 1] += (ry - rotations[p + 1]) * ROTATION_SMOOTHING;
+          rotations[p + 2] += (rz - rotations[p + 2]) * ROTATION_SMOOTHING;
+        }
+
+        dummy.position.set(positions[p], positions[p + 1], positions[p + 2]);
+        if (shouldFaceCamera) {
+          dummy.lookAt(camera.position);
+        } else {
+          dummy.rotation.set(rotations[p], rotations[p + 1], rotations[p + 2]);
+        }
+        dummy.updateMatrix();
+        batch.mesh.setMatrixAt(instance, dummy.matrix);
+      });
+
+      batch.mesh.instanceMatrix.needsUpdate = true;
+      batch.mesh.boundingSphere = null; // Recomputed on demand for pointer raycasts
+    });
+
+    atlas.flush(state.clock.elapsedTime);
+  });
+
+  // Map a hit instance back to its photo - empty slots can't be picked
+  const getPhoto = (batch: PageBatch, instanceId?: number): T | null => {
+    if (instanceId === undefined) return null;
+    const photo = photosRef.current[batch.entries[instanceId]];
+    return photo?.url ? photo : null;
+  };
+
+  useEffect(() => {
+    return () => {
+      document.body.style.cursor = '';
+    };
+  }, []);
+
+  return (
+    <group>
+      {batches.map(batch => (
+        <primitive
+          key={batch.mesh.uuid}
+          object={batch.mesh}
+          onClick={onSelect ? (e: ThreeEvent<MouseEvent>) => {
+            // Ignore the end of an orbit drag - only a tap or click picks
+            if (e.delta > PICK_MAX_DRAG) return;
+            const photo = getPhoto(batch, e.instanceId);
+            if (!photo) return;
+            e.stopPropagation();
+            onSelect(photo);
+          } : undefined}
+          onPointerMove={onSelect ? (e: ThreeEvent<PointerEvent>) => {
+            document.body.style.cursor = getPhoto(batch, e.instanceId) ? 'pointer' : '';
+          } : undefined}
+          onPointerOut={onSelect ? () => { document.body.style.cursor = ''; } : undefined}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default InstancedPhotoRenderer;
@@ -0,0 +1,376 @@
+// src/components/three/PhotoTextureManager.ts - Progressive photo texture streaming with a GPU memory budget
+// Every photo starts as a small thumbnail and is upgraded to the display or full size
+// image once it is big enough on screen to need it. Textures are shared per photo,
+// uploaded to the GPU a couple per frame, and the least recently seen upgrades are
+// dropped back to thumbnails when the budget is exceeded.
+import { useEffect, useState, type RefObject } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { PhotoUrls } from '../../lib/photoDerivatives';
+
+export type TextureLevel = 'thumb' | 'display' | 'full';
+
+export type TexturePhoto = PhotoUrls & {
+  id: string;
+};
+
+const LEVELS: TextureLevel[] = ['thumb', 'display', 'full'];
+
+// Longest edge (px) of each level - full is the original upload, downscaled to fit on the GPU
+export const TEXTURE_LEVEL_SIZES: Record<TextureLevel, number> = {
+  thumb: 256,
+  display: 1024,
+  full: 2048
+};
+
+// Worst-case GPU bytes per level (RGBA, no mipmaps) - reserved before a load starts
+const LEVEL_MAX_BYTES = (level: TextureLevel) => TEXTURE_LEVEL_SIZES[level] ** 2 * 4;
+
+// On-screen photo height (px) from which the next level is worth loading
+const DISPLAY_LEVEL_MIN_PIXELS = 160;
+const FULL_LEVEL_MIN_PIXELS = 700;
+
+const DEFAULT_BUDGET_BYTES = 256 * 1024 * 1024;
+const MAX_CONCURRENT_LOADS = 6;
+const MAX_UPLOADS_PER_FRAME = 2;
+
+const STORAGE_OBJECT_PATH = '/storage/v1/object/public/';
+const STORAGE_RENDER_PATH = '/storage/v1/render/image/public/';
+
+// URL to fetch a level from. Derivatives generated on upload come first; older photos
+// in public Supabase storage are resized by the storage image transformation endpoint,
+// and any other URL only has the original.
+export const getPhotoTextureUrl = (photo: TexturePhoto, level: TextureLevel): string => {
+  if (level === 'thumb' && photo.thumbnail_url) return photo.thumbnail_url;
+  if (level === 'display' && photo.display_url) return photo.display_url;
+  if (level === 'full' || !photo.url.includes(STORAGE_OBJECT_PATH)) return photo.url;
+
+  const size = TEXTURE_LEVEL_SIZES[level];
+  const separator = photo.url.includes('?') ? '&' : '?';
+  return `${photo.url.replace(STORAGE_OBJECT_PATH, STORAGE_RENDER_PATH)}${separator}width=${size}&height=${size}&resize=contain`;
+};
+
+export const getLevelForPixels = (pixels: number): TextureLevel => {
+  if (pixels >= FULL_LEVEL_MIN_PIXELS) return 'full';
+  if (pixels >= DISPLAY_LEVEL_MIN_PIXELS) return 'display';
+  return 'thumb';
+};
+
+type TextureListener = (texture: THREE.Texture | null) => void;
+
+type TextureEntry = {
+  photo: TexturePhoto;
+  textures: Partial<Record<TextureLevel, THREE.Texture>>;
+  bytes: Partial<Record<TextureLevel, number>>;
+  loading: TextureLevel | null;
+  failed: Set<TextureLevel>;
+  originalOnly: boolean; // Resized URLs failed - the project has no image transformations
+  wanted: TextureLevel;
+  priority: number; // On-screen height in px - bigger photos upgrade first
+  lastSeen: number; // Frame the photo was last on screen
+  listeners: Set<TextureListener>;
+  best: THREE.Texture | null;
+};
+
+class PhotoTextureManager {
+  private entries = new Map<string, TextureEntry>();
+  private ready: { entry: TextureEntry; level: TextureLevel; texture: THREE.Texture }[] = [];
+  private loader = new THREE.TextureLoader();
+  private activeLoads = 0;
+  private totalBytes = 0;
+  private budgetBytes = DEFAULT_BUDGET_BYTES;
+  private frame = 0;
+  private frustum = new THREE.Frustum();
+  private bounds = new THREE.Sphere();
+  private projection = new THREE.Matrix4();
+  private anisotropy = 1;
+  private reservedBytes = 0;
+  private warnedOverBudget = false;
+
+  // Returns an unsubscribe function. The listener gets the best loaded texture so far.
+  subscribe(photo: TexturePhoto, listener: TextureListener) {
+    let entry = this.entries.get(photo.id);
+    if (!entry || entry.photo.url !== photo.url) {
+      if (entry) this.release(entry);
+      entry = {
+        photo,
+        textures: {},
+        bytes: {},
+        loading: null,
+        failed: new Set(),
+        originalOnly: false,
+        wanted: 'thumb',
+        priority: 0,
+        lastSeen: this.frame,
+        listeners: new Set(),
+        best: null
+      };
+      this.entries.set(photo.id, entry);
+    }
+
+    const subscribed = entry;
+    subscribed.listeners.add(listener);
+    listener(subscribed.best);
+
+    return () => {
+      subscribed.listeners.delete(listener);
+    };
+  }
+
+  // Called every frame by each visible photo with the level its screen size calls for
+  request(photoId: string, level: TextureLevel, priority: number) {
+    const entry = this.entries.get(photoId);
+    if (!entry) return;
+    entry.wanted = level;
+    entry.priority = priority;
+    entry.lastSeen = this.frame;
+  }
+
+  // Uses last frame's camera - good enough to skip upgrades for photos out of view
+  isVisible(position: THREE.Vector3, radius: number) {
+    return this.frustum.intersectsSphere(this.bounds.set(position, radius));
+  }
+
+  setBudget(megabytes: number) {
+    this.budgetBytes = megabytes * 1024 * 1024;
+  }
+
+  // Drive uploads, new loads and eviction - once per frame from PhotoTextureStreamer
+  update(gl: THREE.WebGLRenderer, camera: THREE.Camera) {
+    this.frame++;
+    this.anisotropy = gl.capabilities.getMaxAnisotropy();
+    this.projection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    this.frustum.setFromProjectionMatrix(this.projection);
+
+    // Spread GPU uploads out so a burst of loads doesn't stall a frame
+    for (const { entry, level, texture } of this.ready.splice(0, MAX_UPLOADS_PER_FRAME)) {
+      entry.loading = null;
+      this.reservedBytes -= LEVEL_MAX_BYTES(level);
+      if (this.entries.get(entry.photo.id) !== entry) {
+        texture.dispose();
+        continue;
+      }
+      gl.initTexture(texture);
+      entry.textures[level] = texture;
+      entry.bytes[level] = texture.image.width * texture.image.height * 4;
+      this.totalBytes += entry.bytes[level]!;
+
+      // Keep the thumbnail as a fallback, drop anything between it and the new level
+      LEVELS.forEach(other => {
+        if (other !== 'thumb' && other !== level && LEVELS.indexOf(other) < LEVELS.indexOf(level)) {
+          this.evictLevel(entry, other);
+        }
+      });
+      this.notify(entry);
+    }
+
+    this.startLoads();
+    this.enforceBudget();
+  }
+
+  // Index into LEVELS of the highest loaded level, -1 when nothing is loaded yet
+  private getLoadedIndex(entry: TextureEntry) {
+    for (let i = LEVELS.length - 1; i >= 0; i--) {
+      if (entry.textures[LEVELS[i]]) return i;
+    }
+    return -1;
+  }
+
+  private getBest(entry: TextureEntry) {
+    const loaded = this.getLoadedIndex(entry);
+    return loaded >= 0 ? entry.textures[LEVELS[loaded]]! : null;
+  }
+
+  private notify(entry: TextureEntry) {
+    const best = this.getBest(entry);
+    if (best === entry.best) return;
+    entry.best = best;
+    entry.listeners.forEach(listener => listener(best));
+  }
+
+  // Next level to fetch for a photo - thumbnail first, then straight to what it wants
+  private getNextLevel(entry: TextureEntry): TextureLevel | null {
+    if (entry.loading || entry.listeners.size === 0) return null;
+    if (!entry.textures.thumb && !entry.failed.has('thumb')) return 'thumb';
+
+    const loaded = Math.max(this.getLoadedIndex(entry), 0);
+    for (let i = LEVELS.indexOf(entry.wanted); i > loaded; i--) {
+      if (!entry.failed.has(LEVELS[i])) return LEVELS[i];
+    }
+    return null;
+  }
+
+  private startLoads() {
+    if (this.activeLoads >= MAX_CONCURRENT_LOADS) return;
+
+    const candidates: { entry: TextureEntry; level: TextureLevel }[] = [];
+    this.entries.forEach(entry => {
+      const level = this.getNextLevel(entry);
+      if (level) candidates.push({ entry, level });
+    });
+
+    // Every photo gets a thumbnail before anything is upgraded; upgrades go biggest on screen first
+    candidates.sort((a, b) => {
+      if ((a.level === 'thumb') !== (b.level === 'thumb')) return a.level === 'thumb' ? -1 : 1;
+      return b.entry.priority - a.entry.priority;
+    });
+
+    // Thumbnails always load; an upgrade only starts if its worst case fits the budget
+    for (const { entry, level } of candidates) {
+      if (this.activeLoads >= MAX_CONCURRENT_LOADS) return;
+      if (level !== 'thumb' && !this.makeRoom(LEVEL_MAX_BYTES(level))) continue;
+      this.load(entry, level);
+    }
+  }
+
+  private load(entry: TextureEntry, level: TextureLevel) {
+    const url = entry.originalOnly ? entry.photo.url : getPhotoTextureUrl(entry.photo, level);
+    entry.loading = level;
+    this.activeLoads++;
+    this.reservedBytes += LEVEL_MAX_BYTES(level);
+
+    this.loader.load(
+      url,
+      (texture) => {
+        // Stays marked as loading until update() uploads it
+        this.activeLoads--;
+        texture.image = fitImage(texture.image, TEXTURE_LEVEL_SIZES[level]);
+        texture.generateMipmaps = false;
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        texture.anisotropy = this.anisotropy;
+        this.ready.push({ entry, level, texture });
+      },
+      undefined,
+      () => {
+        this.activeLoads--;
+        this.reservedBytes -= LEVEL_MAX_BYTES(level);
+        entry.loading = null;
+        if (url !== entry.photo.url) {
+          // Resized URL failed - fall back to the original for every level
+          console.warn('⚠️ TEXTURES: Resized image unavailable, using original for', entry.photo.id.slice(-6));
+          entry.originalOnly = true;
+        } else {
+          console.error('❌ TEXTURES: Failed to load', level, 'for', entry.photo.id.slice(-6));
+          entry.failed.add(level);
+        }
+      }
+    );
+  }
+
+  private evictLevel(entry: TextureEntry, level: TextureLevel) {
+    const texture = entry.textures[level];
+    if (!texture) return;
+    texture.dispose();
+    this.totalBytes -= entry.bytes[level] || 0;
+    delete entry.textures[level];
+    delete entry.bytes[level];
+  }
+
+  private release(entry: TextureEntry) {
+    LEVELS.forEach(level => this.evictLevel(entry, level));
+    this.entries.delete(entry.photo.id);
+  }
+
+  // LRU eviction until `bytes` more fit: photos nobody shows go first, then upgrades
+  // of photos off screen, then upgrades bigger than their photo currently needs
+  private makeRoom(bytes: number) {
+    const fits = () => this.totalBytes + this.reservedBytes + bytes <= this.budgetBytes;
+    if (fits()) return true;
+
+    const byAge = Array.from(this.entries.values()).sort((a, b) => a.lastSeen - b.lastSeen);
+    const onScreen = (entry: TextureEntry) => this.frame - entry.lastSeen <= 1;
+
+    for (const entry of byAge) {
+      if (fits()) return true;
+      if (entry.listeners.size === 0 && !entry.loading) this.release(entry);
+    }
+
+    for (const entry of byAge) {
+      if (fits()) return true;
+      if (onScreen(entry)) continue;
+      (['full', 'display'] as TextureLevel[]).forEach(level => this.evictLevel(entry, level));
+      this.notify(entry);
+    }
+
+    for (const entry of byAge) {
+      if (fits()) return true;
+      if (!onScreen(entry)) continue;
+      LEVELS.forEach((level, index) => {
+        if (index > LEVELS.indexOf(entry.wanted) && level !== 'thumb') this.evictLevel(entry, level);
+      });
+      this.notify(entry);
+    }
+
+    return fits();
+  }
+
+  // Thumbnails alone can outgrow the budget on huge collages - warn once
+  private enforceBudget() {
+    const withinBudget = this.makeRoom(0);
+    if (!withinBudget && !this.warnedOverBudget) {
+      console.warn('⚠️ TEXTURES: Over budget with only needed textures loaded -', Math.round(this.totalBytes / 1048576), 'MB');
+    }
+    this.warnedOverBudget = !withinBudget;
+  }
+}
+
+// Downscale oversized images so the longest edge is at most `maxEdge`
+const fitImage = (image: HTMLImageElement, maxEdge: number): HTMLImageElement | HTMLCanvasElement => {
+  const scale = maxEdge / Math.max(image.width, image.height);
+  if (scale >= 1) return image;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const photoTextureManager = new PhotoTextureManager();
+
+// Mount once inside a Canvas that renders photos with usePhotoTexture
+export const PhotoTextureStreamer = () => {
+  const { gl, camera } = useThree();
+
+  useFrame(() => {
+    photoTextureManager.update(gl, camera);
+  });
+
+  return null;
+};
+
+// Best texture loaded so far for a photo, upgraded as it grows on screen.
+// `height` is the photo's height in world units.
+export const usePhotoTexture = (
+  photo: TexturePhoto,
+  objectRef: RefObject<THREE.Object3D>,
+  height: number
+) => {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const { camera, size } = useThree();
+  const [worldPosition] = useState(() => new THREE.Vector3());
+
+  useEffect(() => {
+    if (!photo.url) {
+      setTexture(null);
+      return;
+    }
+    return photoTextureManager.subscribe(photo, setTexture);
+  }, [photo.id, photo.url]);
+
+  useFrame(() => {
+    if (!photo.url || !objectRef.current) return;
+
+    objectRef.current.getWorldPosition(worldPosition);
+    if (!photoTextureManager.isVisible(worldPosition, height)) return;
+
+    const distance = Math.max(camera.position.distanceTo(worldPosition), 0.1);
+    const fov = (camera as THREE.PerspectiveCamera).fov || 75;
+    const pixels = (height / (2 * distance * Math.tan((fov * Math.PI) / 360))) * size.height;
+
+    photoTextureManager.request(photo.id, getLevelForPixels(pixels), pixels);
+  });
+
+  return texture;
+};
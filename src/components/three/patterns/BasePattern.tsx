@@ -18,7 +18,28 @@ export interface PatternState {
   rotations?: [number, number, number][];
 }
 
-// Base class for pattern implementations
+// Most slots any pattern will lay out - above INSTANCED_RENDER_THRESHOLD the scene
+// switches to InstancedPhotoRenderer, which is what makes counts this high viable
+export const MAX_PATTERN_SLOTS = 5000;
+
+// Deterministic pseudo-random number in [0, 1) for a seed, slot index and channel.
+// Use a different channel for each independent value a slot needs.
+export const seededRandom = (seed: number, index: number, channel = 0): number => {
+  let h = Math.imul(Math.floor(seed) ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ (index + 0x7f4a7c15), 0xc2b2ae35);
+  h = Math.imul(h ^ (channel * 0x165667b1 + 0x27d4eb2f), 0x85ebca6b);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x7feb352d);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x846ca68b);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+// Base class for pattern implementations.
+// generatePositions must be a pure function of (settings, settings.seed, time, slotCount):
+// no Math.random, no wall clock and no state carried between calls, so every display
+// renders the same layout and output can be snapshot-tested without WebGL.
 export abstract class BasePattern {
   protected settings: SceneSettings;
   protected photos: Photo[];
@@ -28,5 +49,77 @@ export abstract class BasePattern {
     this.photos = photos;
   }
 
-  abstract generatePositions(time: number): PatternState;
-}
\ No newline at end of file
+  // `time` is in seconds - patterns apply settings.animationSpeed themselves.
+  // `slotCount` defaults to the pattern's own photoCount, then settings.photoCount.
+  abstract generatePositions(time: number, slotCount?: number): PatternState;
+
+  protected getSlotCount(patternPhotoCount: number | undefined, slotCount?: number): number {
+    const count = slotCount ?? patternPhotoCount ?? this.settings.photoCount;
+    return Math.max(0, Math.min(Math.floor(count), MAX_PATTERN_SLOTS));
+  }
+
+  protected random(index: number, channel = 0): number {
+    return seededRandom(this.settings.seed ?? 0, index, channel);
+  }
+}
+
+// Settings every pattern stores under settings.patterns[id]
+export type PatternSettingsBase = {
+  enabled: boolean;
+  spacing: number;
+  photoCount?: number;
+};
+
+type PatternControlBase<S> = {
+  key: Extract<keyof S, string>;
+  label: string;
+  showWhen?: (settings: S) => boolean; // Hide the control unless this returns true
+};
+
+// Describes one slider in the pattern's editor panel
+export type PatternRangeControl<S> = PatternControlBase<S> & {
+  type?: 'range';
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string; // Defaults to "1.0 units"
+  description: string | ((value: number) => string);
+};
+
+export type PatternSelectControl<S> = PatternControlBase<S> & {
+  type: 'select';
+  options: { value: string; label: string }[];
+  description?: string;
+};
+
+export type PatternTextControl<S> = PatternControlBase<S> & {
+  type: 'text';
+  maxLength?: number;
+  placeholder?: string;
+  description?: string;
+};
+
+// File picker - `read` turns the file into settings for this pattern
+export type PatternFileControl<S> = PatternControlBase<S> & {
+  type: 'file';
+  accept: string;
+  read: (file: File) => Promise<Partial<S>>;
+  description?: string;
+};
+
+export type PatternControl<S> =
+  | PatternRangeControl<S>
+  | PatternSelectControl<S>
+  | PatternTextControl<S>
+  | PatternFileControl<S>;
+
+// Everything the app needs to know about a pattern, registered in PatternRegistry
+export interface PatternDefinition<Id extends string = string, S extends PatternSettingsBase = PatternSettingsBase> {
+  id: Id;
+  name: string;
+  defaults: S;
+  ranges: Partial<Record<Extract<keyof S, string>, [number, number]>>;
+  controls: PatternControl<S>[];
+  faceCamera?: boolean; // Photos always turn toward the camera (e.g. float)
+  create: (settings: SceneSettings, photos: Photo[]) => BasePattern;
+}
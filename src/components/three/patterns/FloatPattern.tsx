@@ -1,69 +1,31 @@
 // src/components/three/patterns/FloatPattern.tsx - UPDATED: Higher float height for better teleport
-import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { BasePattern, type PatternDefinition, type PatternSettingsBase, type PatternState, type Position } from './BasePattern';
 
-export class FloatPattern extends BasePattern {
-  // CRITICAL: Use dynamic base positions that adjust to floor size
-  private static basePositionsCache = new Map<string, { x: number; z: number; phaseOffset: number }[]>();
-  private static maxSlotsGenerated = 0;
+export type FloatPatternSettings = PatternSettingsBase & {
+  height: number;
+  spread: number;
+};
 
-  // Generate base positions that adapt to floor size
-  private generateDynamicBasePositions(maxSlots: number, floorSize: number) {
-    // Create a cache key based on floor size and slot count
-    const cacheKey = `${floorSize}-${maxSlots}`;
-    
-    if (!FloatPattern.basePositionsCache.has(cacheKey) || maxSlots > FloatPattern.maxSlotsGenerated) {
-      console.log('🎈 FLOAT: Generating edge-to-edge positions for floor size:', floorSize, 'slots:', maxSlots);
-      
-      // Always generate for the maximum possible slots to ensure stability
-      const totalSlots = Math.max(maxSlots, 500);
-      FloatPattern.maxSlotsGenerated = Math.max(FloatPattern.maxSlotsGenerated, totalSlots);
-      
-      // FIXED: Use FULL floor area edge-to-edge
-      const fullFloorArea = floorSize; // Use entire floor
-      const halfFloor = fullFloorArea / 2;
-      
-      const positions = [];
-      
-      for (let i = 0; i < totalSlots; i++) {
-        // COMPLETELY DIFFERENT APPROACH: Direct random distribution across entire floor
-        // Use deterministic random but cover the FULL area
-        
-        // Deterministic pseudo-random values based on slot index (never changes)
-        const randomX = Math.sin(i * 2.73 + 1.123); // -1 to 1
-        const randomZ = Math.cos(i * 3.37 + 2.456); // -1 to 1
-        const phaseOffset = (i * 0.211) % 1; // 0 to 1, for staggering
-        
-        // EDGE-TO-EDGE: Map random values directly to full floor bounds
-        const finalX = randomX * halfFloor; // -halfFloor to +halfFloor
-        const finalZ = randomZ * halfFloor; // -halfFloor to +halfFloor
-        
-        positions.push({
-          x: finalX,
-          z: finalZ,
-          phaseOffset: phaseOffset
-        });
-      }
-      
-      // Cache the positions for this floor size
-      FloatPattern.basePositionsCache.set(cacheKey, positions);
-      console.log('🎈 FLOAT: Generated', positions.length, 'positions across FULL floor area', fullFloorArea, 'edge-to-edge');
-    }
-    
-    return FloatPattern.basePositionsCache.get(cacheKey)!;
+export class FloatPattern extends BasePattern {
+  // Seeded base position for a slot - spread edge-to-edge across the whole floor
+  private getBasePosition(index: number, floorSize: number) {
+    const halfFloor = floorSize / 2;
+    return {
+      x: (this.random(index, 0) * 2 - 1) * halfFloor, // -halfFloor to +halfFloor
+      z: (this.random(index, 1) * 2 - 1) * halfFloor, // -halfFloor to +halfFloor
+      phaseOffset: this.random(index, 2) // 0 to 1, for staggering
+    };
   }
 
-  generatePositions(time: number): PatternState {
+  generatePositions(time: number, slotCount?: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     
-    const totalPhotos = Math.min(this.settings.photoCount, 500);
+    const totalPhotos = this.getSlotCount(this.settings.patterns?.float?.photoCount, slotCount);
     
     // Use dynamic floor size from settings
     const floorSize = this.settings.floorSize || 200;
     
-    // Get base positions that adapt to current floor size
-    const basePositions = this.generateDynamicBasePositions(totalPhotos, floorSize);
-    
     // UPDATED: Animation parameters - extremely high float height for completely out-of-view teleport
     const riseSpeed = 8; // Units per second rising speed
     const maxHeight = 300; // MASSIVELY INCREASED: Way higher before recycling (was 60, then 150)
@@ -75,7 +37,7 @@ export class FloatPattern extends BasePattern {
     
     for (let i = 0; i < totalPhotos; i++) {
       // Get base position for current floor size
-      const basePos = basePositions[i];
+      const basePos = this.getBasePosition(i, floorSize);
       
       // Calculate Y position with proper wrapping
       let y: number;
@@ -128,4 +90,41 @@ export class FloatPattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+export const floatPatternDefinition: PatternDefinition<'float', FloatPatternSettings> = {
+  id: 'float',
+  name: 'Float',
+  defaults: {
+    enabled: false,
+    spacing: 0.1,
+    height: 30,
+    spread: 25,
+    photoCount: 100
+  },
+  ranges: {
+    spacing: [0, 1],
+    height: [10, 100],
+    spread: [5, 50]
+  },
+  controls: [
+    {
+      key: 'height',
+      label: 'Float Height',
+      min: 10,
+      max: 100,
+      step: 5,
+      description: 'Maximum height photos will float to before recycling'
+    },
+    {
+      key: 'spread',
+      label: 'Spread Distance',
+      min: 5,
+      max: 50,
+      step: 1,
+      description: 'How far apart photos are spread horizontally'
+    }
+  ],
+  faceCamera: true,
+  create: (settings, photos) => new FloatPattern(settings, photos)
+};
@@ -1,17 +1,17 @@
 // src/components/three/patterns/GridPattern.tsx - FIXED: True edge-to-edge solid wall
-import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { BasePattern, type PatternDefinition, type PatternSettingsBase, type PatternState, type Position } from './BasePattern';
+
+export type GridPatternSettings = PatternSettingsBase & {
+  aspectRatio: number;
+  wallHeight: number;
+};
 
 export class GridPattern extends BasePattern {
-  generatePositions(time: number): PatternState {
+  generatePositions(time: number, slotCount?: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
 
-    // Use pattern-specific photoCount if available
-    const photoCount = this.settings.patterns?.grid?.photoCount !== undefined 
-      ? this.settings.patterns.grid.photoCount 
-      : this.settings.photoCount;
-    
-    const totalPhotos = Math.min(photoCount, 500);
+    const totalPhotos = this.getSlotCount(this.settings.patterns?.grid?.photoCount, slotCount);
     
     // Calculate grid dimensions with aspect ratio
     const aspectRatio = this.settings.patterns?.grid?.aspectRatio || this.settings.gridAspectRatio || 1.0;
@@ -94,4 +94,45 @@ export class GridPattern extends BasePattern {
     
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+export const gridPatternDefinition: PatternDefinition<'grid', GridPatternSettings> = {
+  id: 'grid',
+  name: 'Grid Wall',
+  defaults: {
+    enabled: false,
+    spacing: 0.1,
+    aspectRatio: 1.77778,
+    wallHeight: 0,
+    photoCount: 50
+  },
+  ranges: {
+    spacing: [0, 1],
+    aspectRatio: [0.5, 3],
+    wallHeight: [0, 30]
+  },
+  controls: [
+    {
+      key: 'wallHeight',
+      label: 'Wall Height',
+      min: 0,
+      max: 30,
+      step: 0.5,
+      description: 'Adjust the vertical position of the photo wall'
+    },
+    {
+      key: 'spacing',
+      label: 'Photo Spacing',
+      min: 0,
+      max: 1,
+      step: 0.01,
+      format: (value) => value === 0 ? 'Solid Wall' : `${(value * 200).toFixed(0)}% gaps`,
+      description: (value) => value === 0
+        ? '🧱 Edge-to-edge solid wall (no gaps)'
+        : value < 0.5
+        ? '📐 Small gaps between photos'
+        : '🎯 Large gaps between photos'
+    }
+  ],
+  create: (settings, photos) => new GridPattern(settings, photos)
+};
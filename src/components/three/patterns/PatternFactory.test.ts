@@ -0,0 +1,41 @@
+// src/components/three/patterns/PatternFactory.test.ts - Seeded layouts are deterministic
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PatternFactory } from './PatternFactory';
+import { getPatternDefinitions } from './PatternRegistry';
+import { getDefaultSettings, type SceneSettings } from '../../../lib/sceneSettings';
+
+const TIME = 12.5;
+const SLOTS = 60;
+
+const settingsFor = (animationPattern: string, seed: number): SceneSettings => ({
+  ...getDefaultSettings(),
+  animationPattern: animationPattern as SceneSettings['animationPattern'],
+  seed
+});
+
+describe('PatternFactory.generatePositions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  getPatternDefinitions().forEach(({ id }) => {
+    it(`gives the same "${id}" layout for the same seed and time`, () => {
+      // Layouts must not depend on Math.random
+      vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      const first = PatternFactory.generatePositions(settingsFor(id, 42), TIME, SLOTS);
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+      const second = PatternFactory.generatePositions(settingsFor(id, 42), TIME, SLOTS);
+
+      expect(first.positions).toHaveLength(SLOTS);
+      expect(second).toEqual(first);
+    });
+  });
+
+  it('changes randomized layouts when the seed changes', () => {
+    const first = PatternFactory.generatePositions(settingsFor('float', 1), TIME, SLOTS);
+    const second = PatternFactory.generatePositions(settingsFor('float', 2), TIME, SLOTS);
+
+    expect(second.positions).not.toEqual(first.positions);
+  });
+});
@@ -1,27 +1,24 @@
 import { type SceneSettings } from '../../../store/sceneStore';
-import { type Photo } from './BasePattern';
+import { type Photo, type PatternState } from './BasePattern';
 import { SlotManager } from './SlotManager';
-import { FloatPattern } from './FloatPattern';
-import { GridPattern } from './GridPattern';
-import { SpiralPattern } from './SpiralPattern';
-import { WavePattern } from './WavePattern';
+import { DEFAULT_PATTERN, getPatternDefinition } from './PatternRegistry';
 
 export class PatternFactory {
   static createPattern(type: string, settings: SceneSettings, photos: Photo[]) {
-    switch (type) {
-      case 'float':
-        return new FloatPattern(settings, photos);
-      case 'grid':
-        return new GridPattern(settings, photos);
-      case 'spiral':
-        return new SpiralPattern(settings, photos);
-      case 'wave':
-        return new WavePattern(settings, photos);
-      default:
-        return new GridPattern(settings, photos);
+    const definition = getPatternDefinition(type);
+    if (!definition) {
+      console.warn(`⚠️ PATTERN FACTORY: Unknown pattern "${type}", falling back to "${DEFAULT_PATTERN}"`);
+      return getPatternDefinition(DEFAULT_PATTERN)!.create(settings, photos);
     }
+    return definition.create(settings, photos);
+  }
+
+  // Pure layout for a settings object - the same settings, seed, time and slot count
+  // always give the same PatternState, on any display or in Node
+  static generatePositions(settings: SceneSettings, time: number, slotCount?: number, photos: Photo[] = []): PatternState {
+    return PatternFactory.createPattern(settings.animationPattern, settings, photos).generatePositions(time, slotCount);
   }
 }
 
 // Export SlotManager for use in other components
-export { SlotManager };
\ No newline at end of file
+export { SlotManager };
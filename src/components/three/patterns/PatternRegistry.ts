@@ -0,0 +1,59 @@
+// src/components/three/patterns/PatternRegistry.ts
+// Single list of available animation patterns. The SceneSettings types, the
+// settings defaults/validation, the editor panel and PatternFactory all read
+// from here - to add a pattern, export a PatternDefinition next to its class
+// and add it to PATTERN_DEFINITIONS.
+
+import { type PatternDefinition } from './BasePattern';
+import { gridPatternDefinition } from './GridPattern';
+import { floatPatternDefinition } from './FloatPattern';
+import { wavePatternDefinition } from './WavePattern';
+import { spiralPatternDefinition } from './SpiralPattern';
+import { shapePatternDefinition } from './ShapePattern';
+import { spherePatternDefinition } from './SpherePattern';
+
+export const PATTERN_DEFINITIONS = [
+  gridPatternDefinition,
+  floatPatternDefinition,
+  wavePatternDefinition,
+  spiralPatternDefinition,
+  shapePatternDefinition,
+  spherePatternDefinition,
+] as const;
+
+type BuiltInPattern = (typeof PATTERN_DEFINITIONS)[number];
+
+export type PatternId = BuiltInPattern['id'];
+
+// Shape of SceneSettings.patterns, derived from each pattern's defaults
+export type PatternSettingsMap = {
+  [D in BuiltInPattern as D['id']]: D['defaults'];
+};
+
+export const DEFAULT_PATTERN: PatternId = 'grid';
+
+const registry = new Map<string, PatternDefinition<string, any>>();
+
+// Register a pattern at runtime. Settings validated from then on accept its id and fill in its
+// defaults (see getDefaultSettings); register before loading a collage that uses it.
+export const registerPattern = (definition: PatternDefinition<string, any>) => {
+  if (registry.has(definition.id)) {
+    console.warn(`⚠️ PATTERN REGISTRY: Replacing existing pattern "${definition.id}"`);
+  }
+  registry.set(definition.id, definition);
+};
+
+PATTERN_DEFINITIONS.forEach(definition => registerPattern(definition));
+
+export const getPatternDefinition = (id: string): PatternDefinition<string, any> | undefined => registry.get(id);
+
+export const getPatternDefinitions = (): PatternDefinition<string, any>[] => Array.from(registry.values());
+
+// Defaults for SceneSettings.patterns - only the default pattern starts enabled
+export const getDefaultPatternSettings = (): PatternSettingsMap => {
+  const patterns: Record<string, unknown> = {};
+  registry.forEach((definition, id) => {
+    patterns[id] = { ...definition.defaults, enabled: id === DEFAULT_PATTERN };
+  });
+  return patterns as PatternSettingsMap;
+};
@@ -0,0 +1,167 @@
+// src/components/three/patterns/PatternTransitions.ts - Choreographed transitions between animation patterns
+// Pure helpers: the AnimationController freezes where every slot is when the
+// pattern changes, then asks for each slot's in-between position every frame.
+import { type PatternState, type Position } from './BasePattern';
+
+export type TransitionType = 'none' | 'morph' | 'explode' | 'cascade' | 'flythrough';
+export type TransitionEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'easeOutBack';
+
+export type TransitionSettings = {
+  type: TransitionType;
+  duration: number; // Seconds
+  easing: TransitionEasing;
+};
+
+type Rotation = [number, number, number];
+
+export const TRANSITION_TYPES: { value: TransitionType; label: string; description: string }[] = [
+  { value: 'none', label: 'None (Instant)', description: 'Photos glide or snap straight to the new pattern' },
+  { value: 'morph', label: 'Morph', description: 'Every photo travels directly to its new spot' },
+  { value: 'explode', label: 'Explode & Reassemble', description: 'Photos burst outwards, then fly back into the new pattern' },
+  { value: 'cascade', label: 'Staggered Cascade', description: 'Photos hop into place one after another' },
+  { value: 'flythrough', label: 'Fly-Through', description: 'Photos swoop past the camera on their way to the new pattern' },
+];
+
+export const EASINGS: Record<TransitionEasing, { label: string; fn: (t: number) => number }> = {
+  linear: { label: 'Linear', fn: (t) => t },
+  easeIn: { label: 'Ease In', fn: (t) => t * t * t },
+  easeOut: { label: 'Ease Out', fn: (t) => 1 - Math.pow(1 - t, 3) },
+  easeInOut: { label: 'Ease In-Out', fn: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2) },
+  easeOutBack: {
+    label: 'Overshoot',
+    fn: (t) => {
+      const c1 = 1.70158;
+      const c3 = c1 + 1;
+      return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+    }
+  },
+};
+
+// Choreography constants
+const EXPLODE_RADIUS = 45;
+const CASCADE_STAGGER = 0.6; // Share of the duration spent staggering start times
+const CASCADE_ARC = 8;
+const FLYTHROUGH_STAGGER = 0.3;
+const FLYTHROUGH_SPREAD = 6;
+
+export type ActiveTransition = {
+  type: Exclude<TransitionType, 'none'>;
+  easing: (t: number) => number;
+  duration: number;
+  startTime: number;
+  from: PatternState; // Where each slot was when the pattern changed
+  origin: Position; // Centre of the old layout - slots that did not exist start here
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerp3 = <T extends Position | Rotation>(a: T, b: T, t: number): T =>
+  [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)] as T;
+
+// Deterministic, evenly spread direction for a slot (Fibonacci sphere)
+const slotDirection = (slotIndex: number, slotCount: number): Position => {
+  const y = 1 - (2 * (slotIndex + 0.5)) / Math.max(1, slotCount);
+  const ring = Math.sqrt(1 - y * y);
+  const angle = slotIndex * Math.PI * (3 - Math.sqrt(5));
+  return [Math.cos(angle) * ring, y, Math.sin(angle) * ring];
+};
+
+// Returns null when transitions are off, so callers fall back to the old behaviour
+export const startTransition = (settings: TransitionSettings | undefined, from: PatternState, startTime: number): ActiveTransition | null => {
+  if (!settings || settings.type === 'none' || !(settings.duration > 0) || from.positions.length === 0) {
+    return null;
+  }
+
+  const origin: Position = [0, 0, 0];
+  from.positions.forEach(position => {
+    origin[0] += position[0] / from.positions.length;
+    origin[1] += position[1] / from.positions.length;
+    origin[2] += position[2] / from.positions.length;
+  });
+
+  return {
+    type: settings.type,
+    easing: (EASINGS[settings.easing] || EASINGS.easeInOut).fn,
+    duration: settings.duration,
+    startTime,
+    from,
+    origin,
+  };
+};
+
+export const getTransitionProgress = (transition: ActiveTransition, now: number) =>
+  clamp01((now - transition.startTime) / transition.duration);
+
+// In-between position and rotation for one slot at time `now`
+export const getTransitionSlot = (
+  transition: ActiveTransition,
+  slotIndex: number,
+  slotCount: number,
+  to: { position: Position; rotation: Rotation },
+  now: number,
+  cameraPosition: Position
+): { position: Position; rotation: Rotation } => {
+  const t = getTransitionProgress(transition, now);
+  const ease = transition.easing;
+  const fromPosition = transition.from.positions[slotIndex] || transition.origin;
+  const fromRotation = (transition.from.rotations?.[slotIndex] || [0, 0, 0]) as Rotation;
+
+  switch (transition.type) {
+    case 'explode': {
+      const direction = slotDirection(slotIndex, slotCount);
+      const burst: Position = [
+        transition.origin[0] + direction[0] * EXPLODE_RADIUS,
+        transition.origin[1] + direction[1] * EXPLODE_RADIUS,
+        transition.origin[2] + direction[2] * EXPLODE_RADIUS,
+      ];
+      const position = t < 0.5
+        ? lerp3(fromPosition, burst, ease(t * 2))
+        : lerp3(burst, to.position, ease(t * 2 - 1));
+
+      // Tumble while in flight, settling flat on arrival
+      const tumble = Math.sin(Math.PI * t) * Math.PI;
+      const rotation = lerp3(fromRotation, to.rotation, t);
+      return { position, rotation: [rotation[0] + tumble * direction[1], rotation[1] + tumble * direction[0], rotation[2]] };
+    }
+
+    case 'cascade': {
+      const delay = (slotIndex / Math.max(1, slotCount - 1)) * CASCADE_STAGGER;
+      const local = clamp01((t - delay) / (1 - CASCADE_STAGGER));
+      const k = ease(local);
+      const position = lerp3(fromPosition, to.position, k);
+      position[1] += Math.sin(Math.PI * local) * CASCADE_ARC;
+      return { position, rotation: lerp3(fromRotation, to.rotation, k) };
+    }
+
+    case 'flythrough': {
+      const delay = (slotIndex / Math.max(1, slotCount - 1)) * FLYTHROUGH_STAGGER;
+      const local = clamp01((t - delay) / (1 - FLYTHROUGH_STAGGER));
+      const k = ease(local);
+      const direction = slotDirection(slotIndex, slotCount);
+
+      // Quadratic Bezier bending through a point just around the camera
+      const control: Position = [
+        cameraPosition[0] + direction[0] * FLYTHROUGH_SPREAD,
+        cameraPosition[1] + direction[1] * FLYTHROUGH_SPREAD,
+        cameraPosition[2] + direction[2] * FLYTHROUGH_SPREAD,
+      ];
+      const a = (1 - k) * (1 - k);
+      const b = 2 * (1 - k) * k;
+      const c = k * k;
+      const position: Position = [
+        a * fromPosition[0] + b * control[0] + c * to.position[0],
+        a * fromPosition[1] + b * control[1] + c * to.position[1],
+        a * fromPosition[2] + b * control[2] + c * to.position[2],
+      ];
+      return { position, rotation: lerp3(fromRotation, to.rotation, k) };
+    }
+
+    case 'morph':
+    default: {
+      const k = ease(t);
+      return { position: lerp3(fromPosition, to.position, k), rotation: lerp3(fromRotation, to.rotation, k) };
+    }
+  }
+};
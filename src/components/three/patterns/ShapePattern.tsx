@@ -0,0 +1,474 @@
+// src/components/three/patterns/ShapePattern.tsx - Fills a silhouette (heart, star, ring, SVG, PNG mask or text) with photo slots
+import { BasePattern, type PatternDefinition, type PatternSettingsBase, type PatternState, type Position } from './BasePattern';
+
+export type ShapeType = 'heart' | 'star' | 'ring' | 'text' | 'svg' | 'image';
+
+export type ShapePatternSettings = PatternSettingsBase & {
+  shape: ShapeType;
+  text: string;
+  svgPath: string; // Path data ("d" attributes) from an uploaded SVG
+  maskUrl: string; // Downscaled PNG alpha mask as a data URL
+  size: number; // Height of the silhouette in world units
+  depth: number; // How far the wall ripples in and out when animating
+};
+
+// Silhouette in local space: u spans [-aspect, aspect], v spans [-1, 1] (v up)
+type ShapeMask = {
+  aspect: number;
+  inside: (u: number, v: number) => boolean;
+};
+
+const MAX_TEXT_LENGTH = 12;
+const MASK_RESOLUTION = 128;
+const MASK_CACHE_SIZE = 8;
+const LAYOUT_CACHE_SIZE = 16;
+
+// ---------- Caches ----------
+
+// Least recently used entries go first. Typing text adds a mask per keystroke, so the caches
+// must not grow with everything the organizer ever tried.
+class LruCache<V> {
+  private entries = new Map<string, V>();
+
+  constructor(private readonly limit: number) {}
+
+  has(key: string) {
+    return this.entries.has(key);
+  }
+
+  get(key: string): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.limit) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+// FNV-1a, so uploaded masks aren't keyed by their whole data URL
+const hashSource = (source: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${source.length}`;
+};
+
+const maskKey = (shape: ShapeType, source: string) => `${shape}:${hashSource(source)}`;
+
+// Masks and slot layouts are expensive to build, so share them across the per-frame instances
+const maskCache = new LruCache<ShapeMask | null>(MASK_CACHE_SIZE);
+const pendingImages = new Set<string>();
+const layoutCache = new LruCache<[number, number][]>(LAYOUT_CACHE_SIZE);
+
+// ---------- Built-in shapes ----------
+
+const heartMask: ShapeMask = {
+  aspect: 1,
+  inside: (u, v) => {
+    // Classic implicit heart: (x² + y² - 1)³ - x²y³ <= 0, x in ±1.14, y in [-1, 1.24]
+    const x = u * 1.14;
+    const y = -1 + (v + 1) * 1.12;
+    const a = x * x + y * y - 1;
+    return a * a * a - x * x * y * y * y <= 0;
+  }
+};
+
+const starPoints: [number, number][] = Array.from({ length: 10 }, (_, i) => {
+  const angle = Math.PI / 2 + (i * Math.PI) / 5;
+  const radius = i % 2 === 0 ? 1 : 0.45;
+  return [Math.cos(angle) * radius, Math.sin(angle) * radius - 0.1];
+});
+
+const starMask: ShapeMask = {
+  aspect: 1,
+  inside: (u, v) => {
+    // Even-odd point-in-polygon test
+    let inside = false;
+    for (let i = 0, j = starPoints.length - 1; i < starPoints.length; j = i++) {
+      const [xi, yi] = starPoints[i];
+      const [xj, yj] = starPoints[j];
+      if ((yi > v) !== (yj > v) && u < ((xj - xi) * (v - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+};
+
+const ringMask: ShapeMask = {
+  aspect: 1,
+  inside: (u, v) => {
+    const r = Math.sqrt(u * u + v * v);
+    return r <= 1 && r >= 0.6;
+  }
+};
+
+const BUILT_IN_MASKS: Record<'heart' | 'star' | 'ring', ShapeMask> = {
+  heart: heartMask,
+  star: starMask,
+  ring: ringMask
+};
+
+// ---------- Raster masks (text, SVG, PNG) ----------
+
+const createCanvas = (width: number, height: number): CanvasRenderingContext2D | null => {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently: true });
+};
+
+// Turn a drawn canvas into a mask using its alpha channel
+const maskFromCanvas = (ctx: CanvasRenderingContext2D): ShapeMask | null => {
+  const { width, height } = ctx.canvas;
+  const alpha = ctx.getImageData(0, 0, width, height).data;
+  const aspect = width / height;
+
+  let filled = 0;
+  for (let i = 3; i < alpha.length; i += 4) {
+    if (alpha[i] > 127) filled++;
+  }
+  if (filled === 0) return null;
+
+  return {
+    aspect,
+    inside: (u, v) => {
+      const px = Math.floor(((u / aspect + 1) / 2) * width);
+      const py = Math.floor(((1 - v) / 2) * height);
+      if (px < 0 || py < 0 || px >= width || py >= height) return false;
+      return alpha[(py * width + px) * 4 + 3] > 127;
+    }
+  };
+};
+
+const createTextMask = (text: string): ShapeMask | null => {
+  const value = text.trim().slice(0, MAX_TEXT_LENGTH);
+  if (!value) return null;
+
+  const font = `900 ${MASK_RESOLUTION}px "Arial Black", Arial, sans-serif`;
+  const measure = createCanvas(1, 1);
+  if (!measure) return null;
+  measure.font = font;
+  const width = Math.max(1, Math.ceil(measure.measureText(value).width));
+
+  const ctx = createCanvas(width, MASK_RESOLUTION);
+  if (!ctx) return null;
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(value, width / 2, MASK_RESOLUTION / 2);
+
+  return maskFromCanvas(ctx);
+};
+
+const createSvgMask = (pathData: string): ShapeMask | null => {
+  if (!pathData.trim() || typeof document === 'undefined') return null;
+
+  // Measure the path with a throwaway SVG element so any viewBox fits the mask
+  const svgNS = 'http://www.w3.org/2000/svg';
+  const svg = document.createElementNS(svgNS, 'svg');
+  const path = document.createElementNS(svgNS, 'path');
+  path.setAttribute('d', pathData);
+  svg.setAttribute('style', 'position:absolute;width:0;height:0;visibility:hidden');
+  svg.appendChild(path);
+  document.body.appendChild(svg);
+
+  let bbox: { x: number; y: number; width: number; height: number };
+  try {
+    bbox = path.getBBox();
+  } catch (error) {
+    console.warn('⚠️ SHAPE: Could not measure SVG path:', error);
+    return null;
+  } finally {
+    document.body.removeChild(svg);
+  }
+  if (!bbox.width || !bbox.height) return null;
+
+  const aspect = bbox.width / bbox.height;
+  const width = Math.max(1, Math.round(MASK_RESOLUTION * aspect));
+  const ctx = createCanvas(width, MASK_RESOLUTION);
+  if (!ctx) return null;
+
+  const scale = MASK_RESOLUTION / bbox.height;
+  ctx.setTransform(scale, 0, 0, scale, -bbox.x * scale, -bbox.y * scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fill(new Path2D(pathData));
+
+  return maskFromCanvas(ctx);
+};
+
+// ---------- Upload helpers ----------
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Failed to load mask image'));
+  image.src = src;
+});
+
+// Read an uploaded SVG or PNG into shape settings. SVGs keep only their path
+// data and PNGs are shrunk so the mask fits comfortably in collage settings.
+export const readShapeFile = async (file: File): Promise<Partial<ShapePatternSettings>> => {
+  if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+    const doc = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+    const svgPath = Array.from(doc.querySelectorAll('path'))
+      .map(path => path.getAttribute('d') || '')
+      .filter(Boolean)
+      .join(' ');
+
+    if (!svgPath) {
+      throw new Error('SVG file has no <path> elements');
+    }
+    return { shape: 'svg', svgPath };
+  }
+
+  if (file.type === 'image/png') {
+    const objectUrl = URL.createObjectURL(file);
+    try {
+      const image = await loadImage(objectUrl);
+      const scale = Math.min(1, MASK_RESOLUTION / Math.max(image.width, image.height));
+      const ctx = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+      if (!ctx) throw new Error('Canvas is not available');
+      ctx.drawImage(image, 0, 0, ctx.canvas.width, ctx.canvas.height);
+      const maskUrl = ctx.canvas.toDataURL('image/png');
+      // Ready before the settings change, so the editor preview never shows the fallback heart
+      maskCache.set(maskKey('image', maskUrl), maskFromCanvas(ctx));
+      return { shape: 'image', maskUrl };
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  }
+
+  throw new Error('Shape masks must be SVG or PNG files');
+};
+
+// ---------- Pattern ----------
+
+export class ShapePattern extends BasePattern {
+  // A saved PNG mask that isn't cached yet (another display, or after a reload) loads
+  // asynchronously. Until it has, the shape is laid out as the heart and the layout switches to
+  // the PNG on the first frame after it loads.
+  private getMask(shapeSettings: ShapePatternSettings): { key: string; mask: ShapeMask } {
+    const { shape } = shapeSettings;
+
+    if (shape === 'heart' || shape === 'star' || shape === 'ring') {
+      return { key: shape, mask: BUILT_IN_MASKS[shape] };
+    }
+
+    const source = shape === 'text' ? shapeSettings.text : shape === 'svg' ? shapeSettings.svgPath : shapeSettings.maskUrl;
+    const key = maskKey(shape, source || '');
+
+    if (!maskCache.has(key)) {
+      if (shape === 'text') {
+        maskCache.set(key, createTextMask(source || ''));
+      } else if (shape === 'svg') {
+        maskCache.set(key, createSvgMask(source || ''));
+      } else if (source && typeof document !== 'undefined' && !pendingImages.has(key)) {
+        pendingImages.add(key);
+        loadImage(source)
+          .then(image => {
+            const ctx = createCanvas(image.width, image.height);
+            if (!ctx) return;
+            ctx.drawImage(image, 0, 0);
+            maskCache.set(key, maskFromCanvas(ctx));
+          })
+          .catch(error => {
+            console.warn('⚠️ SHAPE: Failed to load PNG mask:', error);
+            maskCache.set(key, null);
+          })
+          .finally(() => pendingImages.delete(key));
+      }
+    }
+
+    const mask = maskCache.get(key);
+    return mask ? { key, mask } : { key: 'heart', mask: heartMask };
+  }
+
+  // Spread `count` points evenly over the silhouette using a staggered grid
+  // whose spacing shrinks until enough points land inside the shape.
+  private static layoutSlots(key: string, mask: ShapeMask, count: number): [number, number][] {
+    const cacheKey = `${key}-${count}`;
+    const cached = layoutCache.get(cacheKey);
+    if (cached) return cached;
+
+    const probe = 64;
+    let filled = 0;
+    for (let i = 0; i < probe; i++) {
+      for (let j = 0; j < probe; j++) {
+        const u = (-1 + ((i + 0.5) * 2) / probe) * mask.aspect;
+        const v = -1 + ((j + 0.5) * 2) / probe;
+        if (mask.inside(u, v)) filled++;
+      }
+    }
+
+    let points: [number, number][] = [];
+    if (filled > 0 && count > 0) {
+      const area = (filled / (probe * probe)) * 4 * mask.aspect;
+      let spacing = Math.sqrt(area / count);
+
+      for (let attempt = 0; attempt < 20; attempt++) {
+        points = [];
+        const rowHeight = spacing * 0.866;
+        let row = 0;
+        for (let v = 1 - rowHeight / 2; v > -1; v -= rowHeight, row++) {
+          const offset = row % 2 === 0 ? 0 : spacing / 2;
+          for (let u = -mask.aspect + spacing / 2 + offset; u < mask.aspect; u += spacing) {
+            if (mask.inside(u, v)) points.push([u, v]);
+          }
+        }
+        if (points.length >= count) break;
+        spacing *= 0.92;
+      }
+
+      // Thin out evenly rather than dropping the bottom rows
+      if (points.length > count) {
+        const all = points;
+        points = Array.from({ length: count }, (_, i) => all[Math.floor((i * all.length) / count)]);
+      }
+    }
+
+    layoutCache.set(cacheKey, points);
+    return points;
+  }
+
+  generatePositions(time: number, slotCount?: number): PatternState {
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const shapeSettings = { ...shapePatternDefinition.defaults, ...this.settings.patterns?.shape };
+
+    const totalPhotos = this.getSlotCount(shapeSettings.photoCount, slotCount);
+
+    const { key, mask } = this.getMask(shapeSettings);
+    const slots = ShapePattern.layoutSlots(key, mask, totalPhotos);
+
+    const scale = (shapeSettings.size || 40) / 2;
+    const baseY = this.settings.wallHeight + scale;
+    const speed = this.settings.animationSpeed / 50;
+    const animationTime = time * speed;
+    const depth = shapeSettings.depth ?? 2;
+
+    for (let i = 0; i < totalPhotos; i++) {
+      const slot = slots[i];
+      if (!slot) {
+        // Shape could not hold this many photos - park the rest out of view
+        positions.push([0, -1000, 0]);
+        rotations.push([0, 0, 0]);
+        continue;
+      }
+
+      const [u, v] = slot;
+      const x = u * scale;
+      const y = baseY + v * scale;
+
+      // Gentle ripple radiating out from the centre of the shape
+      const z = this.settings.animationEnabled
+        ? Math.sin(animationTime - Math.sqrt(u * u + v * v) * 3) * depth
+        : 0;
+
+      positions.push([x, y, z]);
+
+      if (this.settings.photoRotation && this.settings.animationEnabled) {
+        const sway = Math.sin(animationTime * 0.5) * 0.15;
+        rotations.push([0, sway, Math.sin(animationTime + i * 0.3) * 0.03]);
+      } else {
+        rotations.push([0, 0, 0]);
+      }
+    }
+
+    return { positions, rotations };
+  }
+}
+
+export const shapePatternDefinition: PatternDefinition<'shape', ShapePatternSettings> = {
+  id: 'shape',
+  name: 'Shape',
+  defaults: {
+    enabled: false,
+    spacing: 0,
+    shape: 'heart',
+    text: 'LOVE',
+    svgPath: '',
+    maskUrl: '',
+    size: 40,
+    depth: 2,
+    photoCount: 150
+  },
+  ranges: {
+    spacing: [0, 1],
+    size: [10, 120],
+    depth: [0, 10]
+  },
+  controls: [
+    {
+      key: 'shape',
+      type: 'select',
+      label: 'Shape',
+      options: [
+        { value: 'heart', label: 'Heart' },
+        { value: 'star', label: 'Star' },
+        { value: 'ring', label: 'Ring' },
+        { value: 'text', label: 'Text' },
+        { value: 'svg', label: 'Uploaded SVG' },
+        { value: 'image', label: 'Uploaded PNG Mask' }
+      ],
+      description: 'Silhouette the photos fill'
+    },
+    {
+      key: 'text',
+      type: 'text',
+      label: 'Text',
+      maxLength: MAX_TEXT_LENGTH,
+      placeholder: 'LOVE',
+      description: `Up to ${MAX_TEXT_LENGTH} characters`,
+      showWhen: (settings) => settings.shape === 'text'
+    },
+    {
+      key: 'svgPath',
+      type: 'file',
+      label: 'Upload SVG',
+      accept: '.svg,image/svg+xml',
+      read: readShapeFile,
+      description: 'Path outlines from the SVG are filled with photos',
+      showWhen: (settings) => settings.shape === 'svg'
+    },
+    {
+      key: 'maskUrl',
+      type: 'file',
+      label: 'Upload PNG Mask',
+      accept: 'image/png',
+      read: readShapeFile,
+      description: 'Opaque pixels of the PNG are filled with photos',
+      showWhen: (settings) => settings.shape === 'image'
+    },
+    {
+      key: 'size',
+      label: 'Shape Size',
+      min: 10,
+      max: 120,
+      step: 1,
+      description: 'Height of the silhouette'
+    },
+    {
+      key: 'depth',
+      label: 'Ripple Depth',
+      min: 0,
+      max: 10,
+      step: 0.5,
+      description: 'How far photos ripple in and out while animating'
+    }
+  ],
+  create: (settings, photos) => new ShapePattern(settings, photos)
+};
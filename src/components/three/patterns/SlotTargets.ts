@@ -0,0 +1,36 @@
+// src/components/three/patterns/SlotTargets.ts
+// Where every slot should be this frame. AnimationController writes the pattern targets here
+// each frame and PhotoMesh and InstancedPhotoRenderer read them in useFrame, so animated
+// patterns don't go through React state - only changes to which photo is in which slot do.
+
+import { MAX_PATTERN_SLOTS } from './BasePattern';
+
+export type SlotTargets = {
+  positions: Float32Array; // xyz per slot
+  rotations: Float32Array; // Euler xyz per slot
+};
+
+export const createSlotTargets = (): SlotTargets => ({
+  positions: new Float32Array(MAX_PATTERN_SLOTS * 3),
+  rotations: new Float32Array(MAX_PATTERN_SLOTS * 3),
+});
+
+export const writeSlotTarget = (
+  targets: SlotTargets,
+  slotIndex: number,
+  position: [number, number, number],
+  rotation: [number, number, number]
+) => {
+  targets.positions.set(position, slotIndex * 3);
+  targets.rotations.set(rotation, slotIndex * 3);
+};
+
+export const readSlotPosition = (targets: SlotTargets, slotIndex: number): [number, number, number] => {
+  const p = slotIndex * 3;
+  return [targets.positions[p], targets.positions[p + 1], targets.positions[p + 2]];
+};
+
+export const readSlotRotation = (targets: SlotTargets, slotIndex: number): [number, number, number] => {
+  const p = slotIndex * 3;
+  return [targets.rotations[p], targets.rotations[p + 1], targets.rotations[p + 2]];
+};
@@ -0,0 +1,105 @@
+// src/components/three/patterns/SpherePattern.tsx - Photos wrapped evenly around a rotating globe
+import { BasePattern, type PatternDefinition, type PatternSettingsBase, type PatternState, type Position } from './BasePattern';
+
+export type SpherePatternSettings = PatternSettingsBase & {
+  radius: number;
+  rotationSpeed: number;
+  facing: 'outward' | 'inward';
+};
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export class SpherePattern extends BasePattern {
+  generatePositions(time: number, slotCount?: number): PatternState {
+    const positions: Position[] = [];
+    const rotations: [number, number, number][] = [];
+
+    const sphereSettings = { ...spherePatternDefinition.defaults, ...this.settings.patterns?.sphere };
+
+    const totalPhotos = this.getSlotCount(sphereSettings.photoCount, slotCount);
+
+    const speed = this.settings.animationSpeed / 50;
+    const animationTime = time * speed;
+
+    const radius = sphereSettings.radius;
+    const spin = this.settings.animationEnabled ? animationTime * sphereSettings.rotationSpeed : 0;
+    const facingSign = sphereSettings.facing === 'inward' ? -1 : 1;
+
+    // Globe rests on the floor (or wall height) rather than sinking into it
+    const centerY = this.settings.wallHeight + radius;
+
+    // Fibonacci lattice - slot i always maps to the same point on the globe, so
+    // the SlotManager's photo -> slot assignments keep photos in place
+    for (let i = 0; i < totalPhotos; i++) {
+      const dy = 1 - (2 * (i + 0.5)) / totalPhotos; // 1 (top) to -1 (bottom)
+      const ringRadius = Math.sqrt(1 - dy * dy);
+      const angle = i * GOLDEN_ANGLE + spin;
+
+      const dx = Math.sin(angle) * ringRadius;
+      const dz = Math.cos(angle) * ringRadius;
+
+      positions.push([dx * radius, centerY + dy * radius, dz * radius]);
+
+      if (this.settings.photoRotation) {
+        // Orient the photo's +Z normal along the surface normal (Euler XYZ)
+        const nx = dx * facingSign;
+        const ny = dy * facingSign;
+        const nz = dz * facingSign;
+        rotations.push([Math.atan2(-ny, nz), Math.asin(Math.max(-1, Math.min(1, nx))), 0]);
+      } else {
+        // Without photo rotation the photos stay upright and turn with the globe
+        rotations.push([0, facingSign > 0 ? angle : angle + Math.PI, 0]);
+      }
+    }
+
+    return { positions, rotations };
+  }
+}
+
+export const spherePatternDefinition: PatternDefinition<'sphere', SpherePatternSettings> = {
+  id: 'sphere',
+  name: 'Sphere',
+  defaults: {
+    enabled: false,
+    spacing: 0.1,
+    radius: 20,
+    rotationSpeed: 0.3,
+    facing: 'outward',
+    photoCount: 200
+  },
+  ranges: {
+    spacing: [0, 1],
+    radius: [5, 60],
+    rotationSpeed: [0, 2]
+  },
+  controls: [
+    {
+      key: 'radius',
+      label: 'Sphere Radius',
+      min: 5,
+      max: 60,
+      step: 1,
+      description: 'Size of the globe'
+    },
+    {
+      key: 'rotationSpeed',
+      label: 'Rotation Speed',
+      min: 0,
+      max: 2,
+      step: 0.05,
+      format: (value) => `${value.toFixed(2)} rad/s`,
+      description: 'How fast the globe spins (scaled by animation speed)'
+    },
+    {
+      key: 'facing',
+      type: 'select',
+      label: 'Photo Facing',
+      options: [
+        { value: 'outward', label: 'Outward (view from outside)' },
+        { value: 'inward', label: 'Inward (view from inside)' }
+      ],
+      description: 'Which side of the globe photos face when Photo Rotation is on'
+    }
+  ],
+  create: (settings, photos) => new SpherePattern(settings, photos)
+};
@@ -1,16 +1,16 @@
-import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { BasePattern, type PatternDefinition, type PatternSettingsBase, type PatternState, type Position } from './BasePattern';
+
+export type SpiralPatternSettings = PatternSettingsBase & {
+  radius: number;
+  heightStep: number;
+};
 
 export class SpiralPattern extends BasePattern {
-  generatePositions(time: number): PatternState {
+  generatePositions(time: number, slotCount?: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
     
-    // Use pattern-specific photoCount if available
-    const photoCount = this.settings.patterns?.spiral?.photoCount !== undefined 
-      ? this.settings.patterns.spiral.photoCount 
-      : this.settings.photoCount;
-    
-    const totalPhotos = Math.min(photoCount, 500);
+    const totalPhotos = this.getSlotCount(this.settings.patterns?.spiral?.photoCount, slotCount);
     
     const speed = this.settings.animationSpeed / 50;
     const animationTime = time * speed * 2;
@@ -27,10 +27,10 @@ export class SpiralPattern extends BasePattern {
     const heightStep = this.settings.patterns?.spiral?.heightStep || 0.5; // Vertical spacing between spiral layers
     
     for (let i = 0; i < totalPhotos; i++) {
-      // Generate random but consistent values for each photo
-      const randomSeed1 = Math.sin(i * 0.73) * 0.5 + 0.5;
-      const randomSeed2 = Math.cos(i * 1.37) * 0.5 + 0.5;
-      const randomSeed3 = Math.sin(i * 2.11) * 0.5 + 0.5;
+      // Seeded random values for each photo - stable for a given seed
+      const randomSeed1 = this.random(i, 0);
+      const randomSeed2 = this.random(i, 1);
+      const randomSeed3 = this.random(i, 2);
       
       // Determine if this photo is on the main funnel or an outer orbit
       const isOrbital = randomSeed1 < orbitalChance;
@@ -110,4 +110,41 @@ export class SpiralPattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+export const spiralPatternDefinition: PatternDefinition<'spiral', SpiralPatternSettings> = {
+  id: 'spiral',
+  name: 'Spiral',
+  defaults: {
+    enabled: false,
+    spacing: 0.1,
+    radius: 15,
+    heightStep: 0.5,
+    photoCount: 150
+  },
+  ranges: {
+    spacing: [0, 1],
+    radius: [5, 30],
+    heightStep: [0.1, 2]
+  },
+  controls: [
+    {
+      key: 'radius',
+      label: 'Spiral Radius',
+      min: 5,
+      max: 30,
+      step: 1,
+      description: 'Width of the spiral'
+    },
+    {
+      key: 'heightStep',
+      label: 'Height Step',
+      min: 0.1,
+      max: 2,
+      step: 0.1,
+      format: (value) => `${value.toFixed(2)} units`,
+      description: 'Vertical spacing between spiral layers'
+    }
+  ],
+  create: (settings, photos) => new SpiralPattern(settings, photos)
+};
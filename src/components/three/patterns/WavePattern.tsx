@@ -1,17 +1,17 @@
-import { BasePattern, type PatternState, type Position } from './BasePattern';
+import { BasePattern, type PatternDefinition, type PatternSettingsBase, type PatternState, type Position } from './BasePattern';
+
+export type WavePatternSettings = PatternSettingsBase & {
+  amplitude: number;
+  frequency: number;
+};
 
 export class WavePattern extends BasePattern {
-  generatePositions(time: number): PatternState {
+  generatePositions(time: number, slotCount?: number): PatternState {
     const positions: Position[] = [];
     const rotations: [number, number, number][] = [];
 
-    // Use pattern-specific photoCount if available
-    const photoCount = this.settings.patterns?.wave?.photoCount !== undefined 
-      ? this.settings.patterns.wave.photoCount 
-      : this.settings.photoCount;
-    
     const spacing = this.settings.photoSize * (1 + (this.settings.patterns?.wave?.spacing || this.settings.photoSpacing || 0.15));
-    const totalPhotos = Math.min(photoCount, 500);
+    const totalPhotos = this.getSlotCount(this.settings.patterns?.wave?.photoCount, slotCount);
     
     // Calculate grid dimensions based on total photos
     const columns = Math.ceil(Math.sqrt(totalPhotos));
@@ -58,4 +58,41 @@ export class WavePattern extends BasePattern {
 
     return { positions, rotations };
   }
-}
\ No newline at end of file
+}
+
+export const wavePatternDefinition: PatternDefinition<'wave', WavePatternSettings> = {
+  id: 'wave',
+  name: 'Wave',
+  defaults: {
+    enabled: false,
+    spacing: 0.15,
+    amplitude: 5,
+    frequency: 0.5,
+    photoCount: 75
+  },
+  ranges: {
+    spacing: [0, 1],
+    amplitude: [1, 20],
+    frequency: [0.1, 2]
+  },
+  controls: [
+    {
+      key: 'amplitude',
+      label: 'Wave Amplitude',
+      min: 1,
+      max: 20,
+      step: 0.5,
+      description: 'Height of the wave peaks'
+    },
+    {
+      key: 'frequency',
+      label: 'Wave Frequency',
+      min: 0.1,
+      max: 2,
+      step: 0.05,
+      format: (value) => value.toFixed(2),
+      description: 'How close together the wave peaks are'
+    }
+  ],
+  create: (settings, photos) => new WavePattern(settings, photos)
+};
@@ -0,0 +1,11 @@
+// src/lib/authRedirect.ts - Return-to URLs for the login and signup pages
+// Route guards send signed-out users to /login?redirect=<where they were>. Only same-site paths
+// are followed, so the parameter can't bounce people to another site.
+
+export const REDIRECT_PARAM = 'redirect';
+
+export const loginPath = (returnTo: string, page: '/login' | '/signup' = '/login') =>
+  `${page}?${REDIRECT_PARAM}=${encodeURIComponent(returnTo)}`;
+
+export const safeRedirect = (value: string | null | undefined, fallback = '/'): string =>
+  value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : fallback;
@@ -0,0 +1,38 @@
+// src/lib/collageCodes.ts - Collage join codes
+// The database generates codes (generate_collage_code()) from an alphabet without look-alikes like
+// 0/O and 1/I, and checks they're unique. Organizers can pick a vanity code like SMITHWEDDING
+// instead. Codes are stored upper-case without spaces or dashes, so guests can type them any way.
+
+// Same rule as the code_format constraint on collages
+export const COLLAGE_CODE_PATTERN = /^[A-Z0-9]{4,20}$/;
+export const COLLAGE_CODE_MAX_LENGTH = 20;
+
+// "smith-wedding" and "Smith Wedding" both become SMITHWEDDING, like normalize_collage_code()
+export const normalizeCollageCode = (code: string): string =>
+  code.replace(/[\s-]/g, '').toUpperCase();
+
+// Why a vanity code can't be used as typed, or null if the format is fine
+export const validateCollageCode = (code: string): string | null => {
+  const normalized = normalizeCollageCode(code);
+  if (normalized.length < 4 || normalized.length > COLLAGE_CODE_MAX_LENGTH) {
+    return `Codes are 4 to ${COLLAGE_CODE_MAX_LENGTH} letters or numbers.`;
+  }
+  if (!COLLAGE_CODE_PATTERN.test(normalized)) {
+    return 'Codes can only use letters and numbers.';
+  }
+  return null;
+};
+
+// create_collage() raises collage_code_taken, a plain update hits the unique constraint
+export const describeCollageCodeError = (error: any): string | null => {
+  if (error?.code === '23505' || /collage_code_taken/.test(error?.message || '')) {
+    return 'That code is already taken. Try another one.';
+  }
+  if (error?.code === '23514') {
+    return `Codes are 4 to ${COLLAGE_CODE_MAX_LENGTH} letters or numbers.`;
+  }
+  if (error?.code === '42501') {
+    return 'Only the owner can change the collage code.';
+  }
+  return null;
+};
@@ -0,0 +1,254 @@
+// src/lib/collageRoles.ts - Collaborator roles per collage
+// The owner (collages.user_id) can do everything. Other signed-in users join through an invite
+// link bound to their email: co-hosts edit the scene and collage settings, moderators approve and
+// delete photos, viewers can watch the moderation page. The database enforces the same ranks with
+// has_collage_role() - these helpers only decide what the UI offers.
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { useAuthStore } from '../store/authStore';
+
+export type CollageRole = 'owner' | 'co_host' | 'moderator' | 'viewer';
+export type MemberRole = Exclude<CollageRole, 'owner'>;
+
+export const MEMBER_ROLES: MemberRole[] = ['co_host', 'moderator', 'viewer'];
+
+export const COLLAGE_ROLE_LABELS: Record<CollageRole, string> = {
+  owner: 'Owner',
+  co_host: 'Co-host',
+  moderator: 'Moderator',
+  viewer: 'Viewer',
+};
+
+export const COLLAGE_ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  co_host: 'Edits the scene and collage settings, and moderates photos',
+  moderator: 'Approves, hides and deletes photos',
+  viewer: 'Sees the moderation queue and history without changing anything',
+};
+
+// Matches collage_role_rank() in the database
+const ROLE_RANK: Record<CollageRole, number> = {
+  owner: 4,
+  co_host: 3,
+  moderator: 2,
+  viewer: 1,
+};
+
+export const hasCollageRole = (role: CollageRole | null | undefined, required: CollageRole): boolean =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+
+export const canModerate = (role: CollageRole | null | undefined) => hasCollageRole(role, 'moderator');
+export const canEditScene = (role: CollageRole | null | undefined) => hasCollageRole(role, 'co_host');
+export const canManageCollage = (role: CollageRole | null | undefined) => role === 'owner'; // Delete, team
+
+const isCollageRole = (value: unknown): value is CollageRole =>
+  typeof value === 'string' && value in ROLE_RANK;
+
+export interface CollageMember {
+  collage_id: string;
+  user_id: string;
+  email: string | null;
+  role: MemberRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
+export interface CollageInvite {
+  id: string;
+  collage_id: string;
+  email: string;
+  role: MemberRole;
+  token: string;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+}
+
+// What an invite link is for - readable before signing in
+export interface InviteDetails {
+  collage_id: string;
+  collage_name: string;
+  email: string;
+  role: MemberRole;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The signed-in user's role, or null for guests and strangers
+export const fetchCollageRole = async (collageId: string): Promise<CollageRole | null> => {
+  const { data, error } = await supabase.rpc('collage_role', { p_collage_id: collageId });
+  if (error) {
+    console.error('❌ Failed to fetch collage role:', error);
+    throw error;
+  }
+  return isCollageRole(data) ? data : null;
+};
+
+// Role for a collage page, fetched again whenever the signed-in user changes. Still loading until
+// the answer matches the current collage and user, so a stale role never shows for a moment.
+export const useCollageRole = (collageId?: string | null) => {
+  const userId = useAuthStore(state => state.user?.id ?? null);
+  const [attempt, setAttempt] = useState(0);
+  const [result, setResult] = useState<{ key: string; role: CollageRole | null; error: string | null } | null>(null);
+  const key = `${collageId ?? ''}:${userId ?? ''}:${attempt}`;
+
+  useEffect(() => {
+    if (!collageId || !userId) {
+      setResult({ key, role: null, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    fetchCollageRole(collageId)
+      .then(role => {
+        if (!cancelled) setResult({ key, role, error: null });
+      })
+      .catch((err: any) => {
+        if (!cancelled) setResult({ key, role: null, error: err.message || 'Failed to check access' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [collageId, userId, key]);
+
+  const reload = useCallback(() => setAttempt(prev => prev + 1), []);
+  const current = result?.key === key ? result : null;
+
+  return {
+    role: current?.role ?? null,
+    loading: !current,
+    error: current?.error ?? null,
+    reload
+  };
+};
+
+export const fetchCollageMembers = async (collageId: string): Promise<CollageMember[]> => {
+  const { data, error } = await supabase
+    .from('collage_members')
+    .select('*')
+    .eq('collage_id', collageId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ Failed to fetch collage members:', error);
+    throw error;
+  }
+  return (data || []) as CollageMember[];
+};
+
+export const updateMemberRole = async (collageId: string, userId: string, role: MemberRole) => {
+  const { error } = await supabase
+    .from('collage_members')
+    .update({ role })
+    .eq('collage_id', collageId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('❌ Failed to update member role:', error);
+    throw error;
+  }
+};
+
+// Owners remove members; members can remove themselves to leave
+export const removeMember = async (collageId: string, userId: string) => {
+  const { error } = await supabase
+    .from('collage_members')
+    .delete()
+    .eq('collage_id', collageId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('❌ Failed to remove member:', error);
+    throw error;
+  }
+};
+
+// Invites that haven't been accepted yet, expired ones included so the owner can resend them
+export const fetchCollageInvites = async (collageId: string): Promise<CollageInvite[]> => {
+  const { data, error } = await supabase
+    .from('collage_invites')
+    .select('*')
+    .eq('collage_id', collageId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ Failed to fetch invites:', error);
+    throw error;
+  }
+  return (data || []) as CollageInvite[];
+};
+
+// Inviting an address again replaces its open invite with a fresh link and expiry
+export const createCollageInvite = async (
+  collageId: string,
+  email: string,
+  role: MemberRole
+): Promise<CollageInvite> => {
+  const normalizedEmail = email.trim().toLowerCase();
+  console.log('✉️ Inviting', normalizedEmail, 'as', role);
+
+  const { error: revokeError } = await supabase
+    .from('collage_invites')
+    .delete()
+    .eq('collage_id', collageId)
+    .eq('email', normalizedEmail)
+    .is('accepted_at', null);
+
+  if (revokeError) {
+    console.error('❌ Failed to replace existing invite:', revokeError);
+    throw revokeError;
+  }
+
+  const { data, error } = await supabase
+    .from('collage_invites')
+    .insert([{ collage_id: collageId, email: normalizedEmail, role }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Failed to create invite:', error);
+    throw error;
+  }
+  return data as CollageInvite;
+};
+
+export const revokeCollageInvite = async (inviteId: string) => {
+  const { error } = await supabase
+    .from('collage_invites')
+    .delete()
+    .eq('id', inviteId);
+
+  if (error) {
+    console.error('❌ Failed to revoke invite:', error);
+    throw error;
+  }
+};
+
+export const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export const fetchInvite = async (token: string): Promise<InviteDetails | null> => {
+  if (!UUID_PATTERN.test(token)) return null;
+
+  const { data, error } = await supabase.rpc('get_collage_invite', { p_token: token });
+  if (error) {
+    console.error('❌ Failed to fetch invite:', error);
+    throw error;
+  }
+  return (data?.[0] as InviteDetails | undefined) ?? null;
+};
+
+// Returns the collage the invite was for
+export const acceptInvite = async (token: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_collage_invite', { p_token: token });
+  if (error) {
+    console.error('❌ Failed to accept invite:', error);
+    throw error;
+  }
+  console.log('✅ Joined collage:', data);
+  return data as string;
+};
@@ -0,0 +1,123 @@
+// src/lib/contentSafety.ts - Pluggable content safety screening for uploads
+// uploadPhoto asks the configured provider for labels and scores before storing a photo. If any
+// label reaches the threshold (or screening fails) the photo is held: the database inserts it as
+// 'pending' so it only reaches public screens once a moderator approves it.
+//
+// Providers are picked with VITE_CONTENT_SAFETY_PROVIDER ('none' turns screening off) and the
+// threshold with VITE_CONTENT_SAFETY_THRESHOLD. Development builds default to the stub provider.
+//
+// Screening runs in the uploader's browser, so a modified client can skip it - collages that need
+// a hard guarantee should use pre-moderation.
+
+export interface SafetyLabel {
+  label: string; // e.g. 'nudity', 'violence'
+  score: number; // 0..1 confidence
+}
+
+export interface ContentSafetyProvider {
+  id: string;
+  name: string;
+  screen: (image: File) => Promise<SafetyLabel[]>;
+}
+
+export interface ScreeningResult {
+  provider: string;
+  labels: SafetyLabel[];
+  held: boolean;
+  error?: string;
+}
+
+export const DEFAULT_SAFETY_THRESHOLD = 0.8;
+
+// A provider that never answers must not stall the upload queue
+const SCREENING_TIMEOUT_MS = 15000;
+
+const STUB_LABELS = ['nudity', 'violence', 'weapons', 'drugs', 'hate_symbols'];
+// Highest score the stub gives an ordinary image - well under any sensible threshold
+const STUB_BASELINE_MAX = 0.3;
+
+// Local, deterministic provider for development and tests. The same bytes always get the same
+// low scores; a file name containing "unsafe-<label>" (e.g. "party-unsafe-nudity.jpg") scores
+// 0.99 for that label so the hold path can be exercised on purpose.
+export const stubContentSafetyProvider: ContentSafetyProvider = {
+  id: 'stub',
+  name: 'Local stub',
+  screen: async (image: File) => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await image.arrayBuffer()));
+    const forced = /unsafe-([a-z_]+)/i.exec(image.name)?.[1]?.toLowerCase();
+
+    return STUB_LABELS.map((label, index) => ({
+      label,
+      score: label === forced ? 0.99 : Number(((digest[index] / 255) * STUB_BASELINE_MAX).toFixed(3))
+    }));
+  }
+};
+
+const registry = new Map<string, ContentSafetyProvider>();
+
+// Register a provider at runtime - call before the first upload, then select it with
+// VITE_CONTENT_SAFETY_PROVIDER
+export const registerContentSafetyProvider = (provider: ContentSafetyProvider) => {
+  if (registry.has(provider.id)) {
+    console.warn(`⚠️ CONTENT SAFETY: Replacing existing provider "${provider.id}"`);
+  }
+  registry.set(provider.id, provider);
+};
+
+registerContentSafetyProvider(stubContentSafetyProvider);
+
+const configuredProviderId = (): string =>
+  import.meta.env.VITE_CONTENT_SAFETY_PROVIDER || (import.meta.env.DEV ? 'stub' : 'none');
+
+export const getSafetyThreshold = (): number => {
+  const configured = Number(import.meta.env.VITE_CONTENT_SAFETY_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_SAFETY_THRESHOLD;
+};
+
+// Screen an image with the configured provider. Returns null when screening is off; a provider
+// that is missing, throws or times out holds the photo rather than letting it through unchecked.
+export const screenImage = async (image: File): Promise<ScreeningResult | null> => {
+  const providerId = configuredProviderId();
+  if (providerId === 'none') return null;
+
+  const provider = registry.get(providerId);
+  if (!provider) {
+    console.error(`❌ CONTENT SAFETY: No provider registered as "${providerId}" - holding photo`);
+    return { provider: providerId, labels: [], held: true, error: 'Unknown screening provider' };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const labels = await Promise.race([
+      provider.screen(image),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Screening timed out')), SCREENING_TIMEOUT_MS);
+      })
+    ]);
+
+    const threshold = getSafetyThreshold();
+    const held = labels.some(label => label.score >= threshold);
+    console.log(`🛡️ CONTENT SAFETY: ${provider.name} -`, held ? 'holding for review' : 'passed', labels);
+    return { provider: provider.id, labels, held };
+  } catch (error: any) {
+    console.error('❌ CONTENT SAFETY: Screening failed - holding photo:', error);
+    return { provider: provider.id, labels: [], held: true, error: error?.message || 'Screening failed' };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const formatSafetyLabel = (label: string) =>
+  label.charAt(0).toUpperCase() + label.slice(1).replace(/_/g, ' ');
+
+// Why screening held a photo, for moderators - e.g. "Nudity 99%"
+export const describeSafetyHold = (photo: { safety_held?: boolean | null; safety_labels?: SafetyLabel[] | null }): string | null => {
+  if (!photo.safety_held) return null;
+  const labels = [...(photo.safety_labels || [])].sort((a, b) => b.score - a.score);
+  if (labels.length === 0) return 'Screening failed';
+
+  // The threshold may have changed since upload - fall back to the top label
+  const threshold = getSafetyThreshold();
+  const flagged = labels.filter(label => label.score >= threshold);
+  return (flagged.length > 0 ? flagged : labels.slice(0, 1)).map(label => `${formatSafetyLabel(label.label)} ${Math.round(label.score * 100)}%`).join(', ');
+};
@@ -0,0 +1,139 @@
+// src/lib/imageNormalizer.ts - Prepare guest photos for upload
+// Applies EXIF orientation, converts iPhone HEIC/HEIF, downsizes to a maximum
+// dimension (VITE_UPLOAD_MAX_DIMENSION, default 2560px) and re-encodes to JPEG or WebP. Re-encoding through a canvas drops all
+// EXIF metadata, so GPS location never leaves the guest's phone.
+
+export type NormalizeOptions = {
+  maxDimension: number; // Longest edge in px
+  quality: number; // 0-1 for JPEG/WebP encoding
+};
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+  maxDimension: 2560,
+  quality: 0.9,
+};
+
+// Bounds for VITE_UPLOAD_MAX_DIMENSION - below 640px photos look soft on a big screen, above
+// 8192px the canvas fails on most phones
+const MAX_DIMENSION_RANGE: [number, number] = [640, 8192];
+
+export const getMaxUploadDimension = (): number => {
+  const configured = Math.round(Number(import.meta.env.VITE_UPLOAD_MAX_DIMENSION));
+  return configured >= MAX_DIMENSION_RANGE[0] && configured <= MAX_DIMENSION_RANGE[1]
+    ? configured
+    : DEFAULT_NORMALIZE_OPTIONS.maxDimension;
+};
+
+// Inputs can be big - phones shoot 12-48MP - the normalized result must still fit MAX_UPLOAD_SIZE
+export const MAX_INPUT_FILE_SIZE = 40 * 1024 * 1024; // 40MB
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const ACCEPTED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+];
+
+// Some browsers report an empty type for HEIC, so check the extension too
+export const isHeicFile = (file: File) =>
+  ['image/heic', 'image/heif'].includes(file.type) || /\.(heic|heif)$/i.test(file.name);
+
+export const isAcceptedImageFile = (file: File) =>
+  ACCEPTED_IMAGE_TYPES.includes(file.type) || isHeicFile(file);
+
+const replaceExtension = (name: string, extension: string) => {
+  const base = name.replace(/\.[^./]+$/, '') || 'photo';
+  return `${base}.${extension}`;
+};
+
+// Decode HEIC - Safari 17+ can do it natively, everything else needs libheif (loaded on demand)
+const decodeHeic = async (file: File): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    bitmap.close();
+    return file;
+  } catch {
+    console.log('📱 NORMALIZE: Converting HEIC with libheif');
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+    return Array.isArray(converted) ? converted[0] : converted;
+  }
+};
+
+// Decode with EXIF orientation applied - falls back to <img>, which honours it too
+const decodeImage = async (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  try {
+    return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch {
+    const url = URL.createObjectURL(blob);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      type,
+      quality
+    );
+  });
+
+// Returns the file to upload. GIFs are passed through untouched to keep their animation.
+export const normalizeImage = async (
+  file: File,
+  options: Partial<NormalizeOptions> = {}
+): Promise<File> => {
+  const { maxDimension, quality } = { ...DEFAULT_NORMALIZE_OPTIONS, ...options };
+
+  if (!isAcceptedImageFile(file)) {
+    throw new Error('Invalid file type. Only JPEG, PNG, GIF, WebP and HEIC images are supported.');
+  }
+  if (file.size > MAX_INPUT_FILE_SIZE) {
+    throw new Error(`File is too large. Maximum file size is ${MAX_INPUT_FILE_SIZE / 1024 / 1024}MB.`);
+  }
+  if (file.type === 'image/gif') {
+    return file;
+  }
+
+  const heic = isHeicFile(file);
+  const source = heic ? await decodeHeic(file) : file;
+  const image = await decodeImage(source);
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    // PNG and WebP may carry transparency - keep it with WebP, everything else becomes JPEG
+    const keepAlpha = file.type === 'image/png' || file.type === 'image/webp';
+    const blob = await encodeCanvas(canvas, keepAlpha ? 'image/webp' : 'image/jpeg', quality);
+
+    // Browsers without WebP encoding hand back PNG
+    const extension = blob.type === 'image/webp' ? 'webp' : blob.type === 'image/png' ? 'png' : 'jpg';
+    const normalized = new File([blob], replaceExtension(file.name, extension), {
+      type: blob.type,
+      lastModified: file.lastModified,
+    });
+
+    console.log('🧹 NORMALIZE:', file.name, `${(file.size / 1024).toFixed(0)}KB`, '→', normalized.name, `${(normalized.size / 1024).toFixed(0)}KB`, `${canvas.width}x${canvas.height}`);
+    return normalized;
+  } finally {
+    if ('close' in image) image.close();
+  }
+};
@@ -0,0 +1,32 @@
+// src/lib/moderation.ts - Photo moderation states and collage moderation modes
+// In 'post' mode (the default) photos go live as soon as they're uploaded and moderators remove
+// them afterwards. In 'pre' mode the database inserts every new photo as 'pending' and viewers
+// only see it once a moderator approves it.
+
+export type PhotoStatus = 'pending' | 'approved' | 'rejected';
+export type ModerationMode = 'post' | 'pre';
+
+export const DEFAULT_MODERATION_MODE: ModerationMode = 'post';
+
+export const PHOTO_STATUS_LABELS: Record<PhotoStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Rows fetched before the status column existed count as approved
+export const isPhotoApproved = (photo: { status?: PhotoStatus | null }) =>
+  (photo.status ?? 'approved') === 'approved';
+
+export const isPhotoPending = (photo: { status?: PhotoStatus | null }) =>
+  photo.status === 'pending';
+
+// Deleted photos stay in the trash this long before the scheduled purge removes them for good.
+// Matches PHOTO_TRASH_RETENTION_DAYS in the purge-deleted-photos Edge Function.
+export const TRASH_RETENTION_DAYS = 30;
+
+// Whole days until a trashed photo is purged - 0 means it goes in the next purge run
+export const trashDaysLeft = (deletedAt: string, now = Date.now()) => {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - now) / (24 * 60 * 60 * 1000)));
+};
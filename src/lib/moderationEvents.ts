@@ -0,0 +1,107 @@
+// src/lib/moderationEvents.ts - Moderation audit log
+// Database triggers write moderation_events for every approve/reject/delete/restore/purge and
+// collage setting change, with the signed-in user as the actor. The browser only reads the log,
+// and can attach a reason to the request that makes a change.
+import { supabase } from './supabase';
+
+export type ModerationAction =
+  | 'approve'
+  | 'reject'
+  | 'requeue'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'dismiss_duplicate'
+  | 'moderation_mode'
+  | 'rename'
+  | 'settings';
+
+export interface ModerationEvent {
+  id: string;
+  collage_id: string;
+  photo_id: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  action: ModerationAction;
+  reason: string | null;
+  details: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface ModerationEventFilters {
+  action?: ModerationAction;
+  actorId?: string;
+  photoId?: string;
+  before?: Pick<ModerationEvent, 'created_at' | 'id'>; // Last event already loaded
+  limit?: number;
+}
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  approve: 'Approved',
+  reject: 'Hid',
+  requeue: 'Moved back to pending',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Deleted permanently',
+  dismiss_duplicate: 'Not a duplicate',
+  moderation_mode: 'Changed approval mode',
+  rename: 'Renamed collage',
+  settings: 'Changed scene settings',
+};
+
+// Read by current_moderation_reason() in the database
+export const MODERATION_REASON_HEADER = 'x-moderation-reason';
+
+// Header values must be ASCII - base64 keeps emoji and accents intact
+export const encodeModerationReason = (reason: string): string => {
+  const bytes = new TextEncoder().encode(reason.trim());
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+// Attach a reason to a Supabase query that makes a moderation change
+export const withModerationReason = <T extends { setHeader: (name: string, value: string) => T }>(
+  query: T,
+  reason?: string
+): T => reason?.trim() ? query.setHeader(MODERATION_REASON_HEADER, encodeModerationReason(reason)) : query;
+
+// Who did it, for display - scheduled jobs run as service_role
+export const describeActor = (event: Pick<ModerationEvent, 'actor_email' | 'actor_role'>): string => {
+  if (event.actor_email) return event.actor_email;
+  if (event.actor_role === 'service_role') return 'System';
+  return 'Anonymous';
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Newest first; page with `before`. A bulk action logs many events with the same timestamp,
+// so the id breaks ties.
+export const fetchModerationEvents = async (
+  collageId: string,
+  filters: ModerationEventFilters = {}
+): Promise<ModerationEvent[]> => {
+  let query = supabase
+    .from('moderation_events')
+    .select('*')
+    .eq('collage_id', collageId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(filters.limit ?? DEFAULT_PAGE_SIZE);
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.photoId) query = query.eq('photo_id', filters.photoId);
+  if (filters.before) {
+    const { created_at, id } = filters.before;
+    query = query.or(`created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('❌ Failed to fetch moderation events:', error);
+    throw error;
+  }
+  return (data || []) as ModerationEvent[];
+};
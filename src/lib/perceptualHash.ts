@@ -0,0 +1,127 @@
+// src/lib/perceptualHash.ts - Near-duplicate detection with a 64-bit difference hash (dHash)
+// The image is shrunk to 9x8 greyscale and each bit records whether a pixel is brighter than
+// its right-hand neighbour. Re-encoded, resized or slightly recompressed copies of a photo
+// land within a few bits of each other, so the Hamming distance between hashes measures
+// how alike two photos look.
+
+const HASH_WIDTH = 9; // One extra column - 8 comparisons per row
+const HASH_HEIGHT = 8;
+
+// Identical hashes are the same image re-encoded - the upload is rejected. Burst shots can land
+// a bit or two apart, so anything else is left to the organizer.
+export const DUPLICATE_REJECT_DISTANCE = 0;
+// Hashes this close are probably the same shot - the photo is flagged for the organizer
+export const DUPLICATE_FLAG_DISTANCE = 10;
+
+export class DuplicatePhotoError extends Error {
+  duplicateOf: string | null; // Null when the earlier photo isn't visible to the uploader
+
+  constructor(duplicateOf: string | null) {
+    super('This photo has already been uploaded to this collage.');
+    this.name = 'DuplicatePhotoError';
+    this.duplicateOf = duplicateOf;
+  }
+}
+
+// dHash from RGBA pixels of a HASH_WIDTH x HASH_HEIGHT image, as 16 hex characters
+export const dHashFromPixels = (rgba: ArrayLike<number>): string => {
+  const grey = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114;
+  }
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = grey[y * HASH_WIDTH + x];
+      const right = grey[y * HASH_WIDTH + x + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+// Returns null when the browser can't decode the image - the photo just isn't checked
+export const computePerceptualHash = async (image: Blob): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_WIDTH;
+      canvas.height = HASH_HEIGHT;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+      return dHashFromPixels(ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data);
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    console.warn('⚠️ PHASH: Could not hash image, skipping duplicate check:', error);
+    return null;
+  }
+};
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+// Number of differing bits between two hashes - same as photo_hash_distance() in the database
+export const hashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+type DuplicateCandidate = {
+  id: string;
+  created_at: string;
+  phash?: string | null;
+  duplicate_of?: string | null;
+};
+
+export type DuplicateGroup<T extends DuplicateCandidate> = {
+  original: T; // Earliest upload - the one suggested to keep
+  duplicates: { photo: T; distance: number | null }[];
+};
+
+// Group flagged photos with the photo they duplicate. Chains (C flagged against B, B against A)
+// collapse into one group; photos whose original was deleted are no longer flagged.
+export const groupDuplicates = <T extends DuplicateCandidate>(photos: T[]): DuplicateGroup<T>[] => {
+  const byId = new Map(photos.map(photo => [photo.id, photo]));
+
+  const findRoot = (photo: T) => {
+    let current = photo;
+    const seen = new Set<string>();
+    while (current.duplicate_of && byId.has(current.duplicate_of) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.duplicate_of)!;
+    }
+    return current;
+  };
+
+  const groups = new Map<string, T[]>();
+  photos.forEach(photo => {
+    if (!photo.duplicate_of || !byId.has(photo.duplicate_of)) return;
+    const root = findRoot(photo);
+    const members = groups.get(root.id) || [root];
+    if (!members.includes(photo)) members.push(photo);
+    groups.set(root.id, members);
+  });
+
+  return Array.from(groups.values())
+    .map(members => {
+      const sorted = [...members].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      const [original, ...rest] = sorted;
+      return {
+        original,
+        duplicates: rest.map(photo => ({
+          photo,
+          distance: original.phash && photo.phash ? hashDistance(original.phash, photo.phash) : null,
+        })),
+      };
+    })
+    .sort((a, b) => b.original.created_at.localeCompare(a.original.created_at));
+};
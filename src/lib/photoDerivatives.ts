@@ -0,0 +1,81 @@
+// src/lib/photoDerivatives.ts - Thumbnail and display-size copies of uploaded photos
+// Generated in the browser before the photo row is inserted, so the moderation grid
+// and the 3D scene never have to download the original. Photos uploaded before
+// derivatives existed (or whose derivatives failed) fall back to the original URL.
+
+export type PhotoSize = 'thumb' | 'display' | 'full';
+
+export type PhotoUrls = {
+  url: string;
+  thumbnail_url?: string | null;
+  display_url?: string | null;
+};
+
+// Longest edge in px of each generated derivative
+export const DERIVATIVE_SIZES = {
+  thumb: 256,
+  display: 1024,
+} as const;
+
+const JPEG_QUALITY = 0.85;
+
+export type PhotoDerivatives = {
+  thumb: Blob;
+  display: Blob;
+  extension: string;
+};
+
+// Best stored URL for a size - each size falls back to the next larger one
+export const getPhotoUrl = (photo: PhotoUrls, size: PhotoSize): string => {
+  if (size === 'thumb' && photo.thumbnail_url) return photo.thumbnail_url;
+  if (size !== 'full' && photo.display_url) return photo.display_url;
+  return photo.url;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      type,
+      JPEG_QUALITY
+    );
+  });
+
+const resize = async (image: ImageBitmap, maxEdge: number, type: string) => {
+  const scale = Math.min(1, maxEdge / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return canvasToBlob(canvas, type);
+};
+
+// Returns null when the browser can't decode the file - callers upload the original only
+export const createPhotoDerivatives = async (file: Blob): Promise<PhotoDerivatives | null> => {
+  try {
+    const image = await createImageBitmap(file);
+
+    // Keep transparency for PNG/GIF/WebP sources, JPEG for everything else
+    const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+
+    try {
+      const [thumb, display] = await Promise.all([
+        resize(image, DERIVATIVE_SIZES.thumb, type),
+        resize(image, DERIVATIVE_SIZES.display, type),
+      ]);
+
+      // Browsers without WebP encoding hand back PNG instead
+      const extension = thumb.type === 'image/jpeg' ? 'jpg' : thumb.type === 'image/webp' ? 'webp' : 'png';
+      return { thumb, display, extension };
+    } finally {
+      image.close();
+    }
+  } catch (error) {
+    console.warn('⚠️ DERIVATIVES: Could not generate thumbnails, using original only:', error);
+    return null;
+  }
+};
@@ -0,0 +1,59 @@
+// src/lib/photoSelection.ts - Multi-select for photo grids
+// Click toggles a photo, shift-click selects the range from the last clicked photo, and
+// select-all takes whatever the grid is currently showing. IDs that drop out of the grid
+// (deleted, filtered away) are pruned from the selection automatically.
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+export const usePhotoSelection = (orderedIds: string[]) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  // Keep the selection to photos still on screen
+  useEffect(() => {
+    setSelectedIds(prev => {
+      if (prev.size === 0) return prev;
+      const visible = new Set(orderedIds);
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [orderedIds]);
+
+  const toggle = useCallback((id: string, range = false) => {
+    const anchor = anchorRef.current;
+    const anchorIndex = anchor ? orderedIds.indexOf(anchor) : -1;
+    const index = orderedIds.indexOf(id);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (range && anchorIndex !== -1 && index !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        orderedIds.slice(from, to + 1).forEach(rangeId => next.add(rangeId));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+
+    // Ranges chain from the photo clicked last, like a file manager
+    anchorRef.current = id;
+  }, [orderedIds]);
+
+  const selectAll = useCallback(() => {
+    setSelectedIds(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  // Selected IDs in grid order - bulk actions and undo work through them in a stable order
+  const selectedInOrder = useMemo(
+    () => orderedIds.filter(id => selectedIds.has(id)),
+    [orderedIds, selectedIds]
+  );
+
+  return { selectedIds, selectedInOrder, toggle, selectAll, clear };
+};
@@ -0,0 +1,192 @@
+// src/lib/sceneSettings.test.ts - Old collage_settings JSON upgrades to the current schema
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getDefaultSettings,
+  migrateSceneSettings,
+  SCENE_SETTINGS_VERSION,
+  validateSceneSettings
+} from './sceneSettings';
+
+// Settings as the legacy collageStore saved them, before versioning existed
+const legacySettings = () => ({
+  animationPattern: 'grid_wall',
+  showFloor: false,
+  showGrid: true,
+  photoSize: 1.5,
+  cameraRotationSpeed: 20,
+  patterns: {
+    grid_wall: { enabled: true, spacing: 0.3, photoCount: 40 },
+    float: { enabled: false, photoCount: 25 }
+  }
+});
+
+describe('migrateSceneSettings', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('upgrades unversioned settings through v1 to the current version', () => {
+    const settings = migrateSceneSettings(legacySettings());
+    const defaults = getDefaultSettings();
+
+    expect(SCENE_SETTINGS_VERSION).toBe(2);
+    expect(settings.version).toBe(2);
+    // v1 -> v2 additions
+    expect(settings.transition).toEqual(defaults.transition);
+    expect(settings.playlist).toEqual(defaults.playlist);
+    expect(settings.heroPhoto).toEqual(defaults.heroPhoto);
+    expect(settings.seed).toBe(defaults.seed);
+    expect(settings.patterns.shape).toEqual({ ...defaults.patterns.shape, enabled: false });
+    expect(settings.patterns.sphere).toEqual({ ...defaults.patterns.sphere, enabled: false });
+  });
+
+  it('maps grid_wall to grid and showFloor/showGrid to floorEnabled/gridEnabled', () => {
+    const settings = migrateSceneSettings(legacySettings()) as Record<string, any>;
+
+    expect(settings.animationPattern).toBe('grid');
+    expect(settings.patterns.grid).toMatchObject({ enabled: true, spacing: 0.3, photoCount: 40 });
+    expect(settings.patterns.grid_wall).toBeUndefined();
+    expect(settings.floorEnabled).toBe(false);
+    expect(settings.gridEnabled).toBe(true);
+    expect(settings.showFloor).toBeUndefined();
+    expect(settings.showGrid).toBeUndefined();
+  });
+
+  it('keeps pattern settings the legacy store saved for other patterns', () => {
+    const settings = migrateSceneSettings(legacySettings());
+
+    expect(settings.patterns.float).toMatchObject({ enabled: false, photoCount: 25 });
+  });
+
+  it('converts legacy photoSize to scene units and cameraRotationSpeed from percent', () => {
+    const settings = migrateSceneSettings(legacySettings());
+
+    expect(settings.photoSize).toBe(6);
+    expect(settings.cameraRotationSpeed).toBeCloseTo(0.2);
+  });
+
+  it('only scales photoSize for settings from the legacy store', () => {
+    const settings = migrateSceneSettings({ animationPattern: 'float', photoSize: 5 });
+
+    expect(settings.photoSize).toBe(5);
+  });
+
+  it('upgrades v1 settings without touching their values', () => {
+    const settings = migrateSceneSettings({
+      version: 1,
+      animationPattern: 'wave',
+      photoSize: 5,
+      cameraRotationSpeed: 1.5,
+      patterns: { wave: { enabled: true, photoCount: 80 } }
+    });
+
+    expect(settings.version).toBe(2);
+    expect(settings.animationPattern).toBe('wave');
+    expect(settings.photoSize).toBe(5);
+    expect(settings.cameraRotationSpeed).toBe(1.5);
+    expect(settings.patterns.wave).toMatchObject({ enabled: true, photoCount: 80 });
+    expect(settings.patterns.shape.enabled).toBe(false);
+  });
+
+  it('leaves current settings unchanged, however often they are migrated', () => {
+    const current = { ...getDefaultSettings(), photoSize: 5, cameraRotationSpeed: 1.5, animationPattern: 'spiral' as const };
+
+    const once = migrateSceneSettings(current);
+    const twice = migrateSceneSettings(once);
+
+    expect(once).toEqual(current);
+    expect(twice).toEqual(once);
+    expect(migrateSceneSettings(migrateSceneSettings(legacySettings()))).toEqual(migrateSceneSettings(legacySettings()));
+  });
+
+  it('never downgrades settings saved by a newer build', () => {
+    const settings = migrateSceneSettings({ ...getDefaultSettings(), version: 3 });
+
+    expect(settings.version).toBe(3);
+  });
+
+  it('falls back to the defaults for anything that is not an object', () => {
+    expect(migrateSceneSettings(null)).toEqual({ ...getDefaultSettings(), version: SCENE_SETTINGS_VERSION });
+    expect(migrateSceneSettings('broken')).toEqual({ ...getDefaultSettings(), version: SCENE_SETTINGS_VERSION });
+  });
+});
+
+describe('validateSceneSettings', () => {
+  it('clamps out-of-range numbers and reports them', () => {
+    const { settings, issues } = validateSceneSettings({
+      ...getDefaultSettings(),
+      photoSize: 100,
+      floorOpacity: -1,
+      cameraRotationSpeed: 5,
+      particles: { enabled: true, theme: 'Purple Magic', intensity: 2 }
+    });
+
+    expect(settings.photoSize).toBe(20);
+    expect(settings.floorOpacity).toBe(0);
+    expect(settings.cameraRotationSpeed).toBe(2);
+    expect(settings.particles.intensity).toBe(1);
+    expect(issues.map(issue => issue.path)).toEqual(
+      expect.arrayContaining(['photoSize', 'floorOpacity', 'cameraRotationSpeed', 'particles.intensity'])
+    );
+  });
+
+  it('replaces values of the wrong type with defaults', () => {
+    const defaults = getDefaultSettings();
+    const { settings, issues } = validateSceneSettings({
+      ...defaults,
+      animationSpeed: 'fast',
+      floorEnabled: 'yes',
+      backgroundColor: 42,
+      cameraAnimation: 'orbit'
+    });
+
+    expect(settings.animationSpeed).toBe(defaults.animationSpeed);
+    expect(settings.floorEnabled).toBe(defaults.floorEnabled);
+    expect(settings.backgroundColor).toBe(defaults.backgroundColor);
+    expect(settings.cameraAnimation).toEqual(defaults.cameraAnimation);
+    expect(issues).toHaveLength(4);
+  });
+
+  it('coerces numeric strings and 0/1 booleans', () => {
+    const { settings } = validateSceneSettings({ ...getDefaultSettings(), photoCount: '30', floorEnabled: 0 });
+
+    expect(settings.photoCount).toBe(30);
+    expect(settings.floorEnabled).toBe(false);
+  });
+
+  it('replaces unknown enum values with the default', () => {
+    const { settings, issues } = validateSceneSettings({
+      ...getDefaultSettings(),
+      animationPattern: 'carousel',
+      gridAspectRatioPreset: '3:2'
+    });
+
+    expect(settings.animationPattern).toBe('grid');
+    expect(settings.gridAspectRatioPreset).toBe('16:9');
+    expect(issues).toHaveLength(2);
+  });
+
+  it('keeps unknown keys so settings from newer builds are not lost', () => {
+    const { settings, issues } = validateSceneSettings({
+      ...getDefaultSettings(),
+      futureOption: { level: 3 },
+      particles: { ...getDefaultSettings().particles, sparkle: true }
+    });
+
+    expect((settings as Record<string, any>).futureOption).toEqual({ level: 3 });
+    expect((settings.particles as Record<string, any>).sparkle).toBe(true);
+    expect(issues).toEqual([]);
+  });
+
+  it('fills in missing settings from the defaults', () => {
+    const { settings, issues } = validateSceneSettings({ photoSize: 8 });
+
+    expect(settings).toEqual({ ...getDefaultSettings(), photoSize: 8 });
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,464 @@
+// src/lib/sceneSettings.ts - Canonical, versioned scene settings schema
+// Single source of truth for the SceneSettings shape, its defaults, runtime
+// validation and the migrations that upgrade old collage_settings JSON.
+
+import {
+  getDefaultPatternSettings,
+  getPatternDefinition,
+  getPatternDefinitions,
+  type PatternId,
+  type PatternSettingsMap
+} from '../components/three/patterns/PatternRegistry';
+import { MAX_PATTERN_SLOTS } from '../components/three/patterns/BasePattern';
+import { EASINGS, TRANSITION_TYPES, type TransitionSettings } from '../components/three/patterns/PatternTransitions';
+import type { ShowPlaylist, ShowScene } from './showSequencer';
+
+// Bump this whenever the shape changes and add a matching entry to `migrations`
+export const SCENE_SETTINGS_VERSION = 2;
+
+// Pattern ids and per-pattern settings come from the pattern registry
+export type AnimationPattern = PatternId;
+
+export type SceneSettings = {
+  version: number;
+  animationPattern: AnimationPattern;
+  gridAspectRatioPreset: '1:1' | '4:3' | '16:9' | '21:9' | 'custom';
+  particles: {
+    enabled: boolean;
+    theme: string; // Will store the theme name
+    intensity: number; // 0-1 for particle density
+  };
+  patterns: PatternSettingsMap;
+  transition: TransitionSettings; // How photos move when animationPattern changes
+  playlist: ShowPlaylist; // Timed scenes played by the viewer
+  heroPhoto: {
+    enabled: boolean; // Feature each new upload in front of the camera before it takes its slot
+    holdDuration: number; // Seconds
+    caption: string; // Shown under the photo while it is held, empty for none
+  };
+  cameraAnimation: {
+    enabled: boolean;
+    type: 'none' | 'orbit' | 'figure8' | 'centerRotate' | 'wave' | 'spiral';
+    speed: number;
+    radius: number;
+    height: number;
+    amplitude: number;
+    frequency: number;
+  };
+  animationSpeed: number;
+  animationEnabled: boolean;
+  seed: number; // Seeds pattern randomness so every display shows the same layout
+  photoCount: number;
+  backgroundColor: string;
+  backgroundGradient: boolean;
+  backgroundGradientStart: string;
+  backgroundGradientEnd: string;
+  backgroundGradientAngle: number;
+  emptySlotColor: string;
+  cameraDistance: number;
+  cameraRotationEnabled: boolean;
+  cameraRotationSpeed: number;
+  cameraHeight: number;
+  cameraEnabled: boolean;
+  spotlightCount: number;
+  spotlightHeight: number;
+  spotlightDistance: number;
+  spotlightAngle: number;
+  spotlightWidth: number;
+  spotlightPenumbra: number;
+  ambientLightIntensity: number;
+  spotlightIntensity: number;
+  spotlightColor: string;
+  floorEnabled: boolean;
+  floorColor: string;
+  floorOpacity: number;
+  floorSize: number;
+  floorReflectivity: number;
+  floorMetalness: number;
+  floorRoughness: number;
+  gridEnabled: boolean;
+  gridColor: string;
+  gridSize: number;
+  gridDivisions: number;
+  gridOpacity: number;
+  photoSize: number;
+  photoRotation: boolean;
+  photoSpacing: number;
+  wallHeight: number;
+  gridAspectRatio: number;
+  photoBrightness: number;
+};
+
+export const defaultSettings: SceneSettings = {
+  version: SCENE_SETTINGS_VERSION,
+  animationPattern: 'grid',
+  gridAspectRatioPreset: '16:9',
+  animationSpeed: 50,
+  animationEnabled: true,
+  seed: 1,
+  photoCount: 50,
+  backgroundColor: '#000000',
+  backgroundGradient: false,
+  backgroundGradientStart: '#000000',
+  backgroundGradientEnd: '#1a1a1a',
+  backgroundGradientAngle: 180,
+  emptySlotColor: '#1A1A1A',
+  cameraDistance: 25,
+  cameraRotationEnabled: true,
+  cameraRotationSpeed: 0.2,
+  cameraHeight: 10,
+  cameraEnabled: true,
+  cameraAnimation: {
+    enabled: false,
+    type: 'none',
+    speed: 0.3,
+    radius: 30,
+    height: 15,
+    amplitude: 8,
+    frequency: 0.5
+  },
+  spotlightCount: 4,
+  spotlightHeight: 30,
+  spotlightDistance: 40,
+  spotlightAngle: Math.PI / 4,
+  spotlightWidth: 0.6,
+  spotlightPenumbra: 0.4,
+  ambientLightIntensity: 0.8,
+  spotlightIntensity: 150.0,
+  spotlightColor: '#ffffff',
+  floorEnabled: true,
+  floorColor: '#1A1A1A',
+  floorOpacity: 0.8,
+  floorSize: 200,
+  floorReflectivity: 0.8,
+  floorMetalness: 0.7,
+  floorRoughness: 0.2,
+  gridEnabled: true,
+  gridColor: '#444444',
+  gridSize: 200,
+  gridDivisions: 30,
+  gridOpacity: 1.0,
+  photoSize: 6.0, // INCREASED: From 4.0 to 6.0 for better visibility in grid pattern
+  photoRotation: true,
+  photoSpacing: 0, // SOLID WALL: Default to edge-to-edge photos
+  wallHeight: 0,
+  gridAspectRatio: 1.77778,
+  photoBrightness: 1.0, // 1.0 = natural photo brightness (100%)
+  particles: {
+    enabled: true,
+    theme: 'Purple Magic', // Default theme name
+    intensity: 0.7 // 70% intensity by default
+  },
+  patterns: getDefaultPatternSettings(),
+  transition: {
+    type: 'morph',
+    duration: 2,
+    easing: 'easeInOut'
+  },
+  playlist: {
+    enabled: false,
+    loop: true,
+    scenes: []
+  },
+  heroPhoto: {
+    enabled: false,
+    holdDuration: 5,
+    caption: 'Just uploaded!'
+  }
+};
+
+// defaultSettings.patterns only has the patterns registered when this module loaded. This
+// includes patterns registered at runtime since, so validation keeps their settings.
+export const getDefaultSettings = (): SceneSettings => ({
+  ...defaultSettings,
+  patterns: getDefaultPatternSettings()
+});
+
+// Allowed values for string unions, keyed by dotted settings path
+const ENUM_VALUES: Record<string, readonly string[]> = {
+  gridAspectRatioPreset: ['1:1', '4:3', '16:9', '21:9', 'custom'],
+  'cameraAnimation.type': ['none', 'orbit', 'figure8', 'centerRotate', 'wave', 'spiral'],
+  'transition.type': TRANSITION_TYPES.map(type => type.value),
+  'transition.easing': Object.keys(EASINGS),
+};
+
+// Inclusive [min, max] ranges for numeric settings, keyed by dotted settings path
+export const NUMBER_RANGES: Record<string, [number, number]> = {
+  animationSpeed: [0, 100],
+  seed: [0, 2147483647],
+  photoCount: [5, MAX_PATTERN_SLOTS],
+  photoSize: [1, 20],
+  photoBrightness: [0.1, 3],
+  photoSpacing: [0, 1],
+  gridAspectRatio: [0.5, 3],
+  cameraDistance: [5, 200],
+  cameraHeight: [-50, 100],
+  cameraRotationSpeed: [0, 2],
+  spotlightCount: [1, 4],
+  spotlightIntensity: [0, 300],
+  ambientLightIntensity: [0, 10],
+  floorOpacity: [0, 1],
+  gridOpacity: [0, 1],
+  backgroundGradientAngle: [0, 360],
+  'particles.intensity': [0, 1],
+  'transition.duration': [0.2, 10],
+  'playlist.scenes.duration': [5, 14400],
+  'heroPhoto.holdDuration': [1, 30],
+};
+
+const getAllowedValues = (path: string): readonly string[] | undefined => {
+  if (path === 'animationPattern') {
+    return getPatternDefinitions().map(definition => definition.id);
+  }
+
+  // Select controls on a pattern define the allowed values for patterns.<id>.<key>
+  const [root, patternId, key] = path.split('.');
+  if (root === 'patterns' && patternId && key) {
+    const control = getPatternDefinition(patternId)?.controls.find(c => c.key === key);
+    return control?.type === 'select' ? control.options.map(option => option.value) : undefined;
+  }
+
+  return ENUM_VALUES[path];
+};
+
+// Ranges for patterns.<id>.<key> come from the pattern's registry definition
+const getNumberRange = (path: string): [number, number] | undefined => {
+  const [root, patternId, key] = path.split('.');
+  if (root === 'patterns' && patternId && key) {
+    const range = getPatternDefinition(patternId)?.ranges[key];
+    return range ?? (key === 'photoCount' ? NUMBER_RANGES.photoCount : undefined);
+  }
+  return NUMBER_RANGES[path];
+};
+
+export type SettingsIssue = {
+  path: string;
+  message: string;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Clamp a single numeric setting to its allowed range, returning NaN for non-numbers
+export const clampSetting = (path: string, value: unknown): number => {
+  const num = Number(value);
+  if (value === null || value === '' || isNaN(num)) return NaN;
+  const range = getNumberRange(path);
+  return range ? Math.min(Math.max(range[0], num), range[1]) : num;
+};
+
+// Validate one node against its default, recursing into nested objects.
+// Unknown keys are kept so settings written by newer builds are not lost.
+const validateNode = (value: unknown, fallback: unknown, path: string, issues: SettingsIssue[]): unknown => {
+  if (Array.isArray(fallback)) {
+    if (!Array.isArray(value)) {
+      if (value !== undefined) {
+        issues.push({ path, message: 'expected a list, using defaults' });
+      }
+      return [...fallback];
+    }
+    return path === 'playlist.scenes' ? validateShowScenes(value, issues) : value;
+  }
+
+  if (isPlainObject(fallback)) {
+    if (!isPlainObject(value)) {
+      if (value !== undefined) {
+        issues.push({ path, message: 'expected an object, using defaults' });
+      }
+      return JSON.parse(JSON.stringify(fallback));
+    }
+
+    const output: Record<string, unknown> = { ...value };
+    Object.keys(fallback).forEach(key => {
+      output[key] = validateNode(value[key], fallback[key], path ? `${path}.${key}` : key, issues);
+    });
+    return output;
+  }
+
+  if (value === undefined) {
+    return fallback;
+  }
+
+  if (typeof fallback === 'number') {
+    const num = clampSetting(path, value);
+    if (isNaN(num)) {
+      issues.push({ path, message: `expected a number, got ${JSON.stringify(value)}` });
+      return fallback;
+    }
+    if (num !== value) {
+      issues.push({ path, message: `coerced ${JSON.stringify(value)} to ${num}` });
+    }
+    return num;
+  }
+
+  if (typeof fallback === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (value === 0 || value === 1 || value === 'true' || value === 'false') {
+      issues.push({ path, message: `coerced ${JSON.stringify(value)} to a boolean` });
+      return value === 1 || value === 'true';
+    }
+    issues.push({ path, message: `expected a boolean, got ${JSON.stringify(value)}` });
+    return fallback;
+  }
+
+  if (typeof fallback === 'string') {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected a string, got ${JSON.stringify(value)}` });
+      return fallback;
+    }
+    const allowed = getAllowedValues(path);
+    if (allowed && !allowed.includes(value)) {
+      issues.push({ path, message: `unknown value "${value}", using "${fallback}"` });
+      return fallback;
+    }
+    return value;
+  }
+
+  return value;
+};
+
+// Scene overrides are partial, so only the keys a scene sets are validated
+const validateOverrides = (value: Record<string, any>, fallback: Record<string, any>, path: string, issues: SettingsIssue[]) => {
+  const output: Record<string, unknown> = {};
+  Object.keys(value).forEach(key => {
+    const childPath = path ? `${path}.${key}` : key;
+    if (!path && (key === 'playlist' || key === 'version')) {
+      issues.push({ path: childPath, message: 'cannot be overridden by a scene, removed' });
+    } else if (isPlainObject(fallback[key])) {
+      if (isPlainObject(value[key])) {
+        output[key] = validateOverrides(value[key], fallback[key], childPath, issues);
+      } else {
+        issues.push({ path: childPath, message: 'expected an object, removed' });
+      }
+    } else {
+      output[key] = key in fallback ? validateNode(value[key], fallback[key], childPath, issues) : value[key];
+    }
+  });
+  return output;
+};
+
+const validateShowScenes = (scenes: unknown[], issues: SettingsIssue[]): ShowScene[] =>
+  scenes.flatMap((scene, index) => {
+    const path = `playlist.scenes.${index}`;
+    if (!isPlainObject(scene)) {
+      issues.push({ path, message: 'expected a scene object, removed' });
+      return [];
+    }
+
+    const duration = clampSetting('playlist.scenes.duration', scene.duration);
+    if (duration !== scene.duration) {
+      issues.push({ path: `${path}.duration`, message: `invalid duration ${JSON.stringify(scene.duration)}` });
+    }
+
+    // Override paths are validated relative to the settings root, then reported in full
+    const overrideIssues: SettingsIssue[] = [];
+    const overrides = isPlainObject(scene.overrides)
+      ? validateOverrides(scene.overrides, getDefaultSettings(), '', overrideIssues)
+      : {};
+    overrideIssues.forEach(issue => issues.push({ path: `${path}.overrides.${issue.path}`, message: issue.message }));
+
+    return [{
+      id: typeof scene.id === 'string' && scene.id ? scene.id : `scene-${index + 1}`,
+      name: typeof scene.name === 'string' ? scene.name : `Scene ${index + 1}`,
+      duration: isNaN(duration) ? 60 : duration,
+      overrides: overrides as ShowScene['overrides'],
+    }];
+  });
+
+// Check raw settings against the schema, filling gaps from defaults and
+// coercing or replacing invalid values. Never throws.
+export const validateSceneSettings = (raw: unknown): { settings: SceneSettings; issues: SettingsIssue[] } => {
+  const issues: SettingsIssue[] = [];
+  const settings = validateNode(raw, getDefaultSettings(), '', issues) as SceneSettings;
+  return { settings, issues };
+};
+
+type SettingsMigration = (settings: Record<string, any>) => Record<string, any>;
+
+// The legacy collageStore measured photoSize as a multiple of the renderer's old 4-unit
+// fallback size and cameraRotationSpeed on a 0-100 scale
+const LEGACY_PHOTO_SIZE_UNITS = 4;
+const LEGACY_ROTATION_SPEED_SCALE = 100;
+
+// Each entry upgrades settings FROM the version used as its key to the next one.
+// Settings saved before versioning existed are treated as version 0.
+const migrations: Record<number, SettingsMigration> = {
+  // v0 -> v1: legacy collageStore defaults used different key names
+  0: (legacy) => {
+    const { showFloor, showGrid, ...settings } = legacy;
+    const fromCollageStore = showFloor !== undefined || showGrid !== undefined || settings.animationPattern === 'grid_wall';
+
+    if (fromCollageStore && typeof settings.photoSize === 'number') {
+      settings.photoSize = settings.photoSize * LEGACY_PHOTO_SIZE_UNITS;
+    }
+    // Anything above the current maximum can only be the old percentage scale
+    if (typeof settings.cameraRotationSpeed === 'number' && settings.cameraRotationSpeed > NUMBER_RANGES.cameraRotationSpeed[1]) {
+      settings.cameraRotationSpeed = settings.cameraRotationSpeed / LEGACY_ROTATION_SPEED_SCALE;
+    }
+
+    if (settings.floorEnabled === undefined && showFloor !== undefined) {
+      settings.floorEnabled = showFloor;
+    }
+    if (settings.gridEnabled === undefined && showGrid !== undefined) {
+      settings.gridEnabled = showGrid;
+    }
+
+    if (settings.animationPattern === 'grid_wall') {
+      settings.animationPattern = 'grid';
+    }
+
+    if (isPlainObject(settings.patterns) && 'grid_wall' in settings.patterns) {
+      const { grid_wall, ...patterns } = settings.patterns;
+      settings.patterns = {
+        ...patterns,
+        grid: { ...(isPlainObject(grid_wall) ? grid_wall : {}), ...(patterns.grid || {}) }
+      };
+    }
+
+    return settings;
+  },
+
+  // v1 -> v2: registry patterns (shape, sphere), pattern transitions, show playlist, hero photo
+  // mode and seeded layouts. Existing pattern settings are kept and new patterns start disabled.
+  1: (settings) => {
+    const patterns = isPlainObject(settings.patterns) ? settings.patterns : {};
+    const newPatterns = Object.fromEntries(
+      Object.entries(getDefaultPatternSettings()).filter(([id]) => !(id in patterns))
+    );
+
+    return {
+      ...settings,
+      patterns: { ...newPatterns, ...patterns },
+      transition: settings.transition ?? { ...defaultSettings.transition },
+      playlist: settings.playlist ?? { ...defaultSettings.playlist, scenes: [] },
+      heroPhoto: settings.heroPhoto ?? { ...defaultSettings.heroPhoto },
+      // v1 layouts were re-randomized on every load, so any fixed seed is as faithful as another
+      seed: settings.seed ?? defaultSettings.seed
+    };
+  },
+};
+
+// Upgrade settings JSON from any older version to the current schema and validate it.
+// Use this wherever collage_settings.settings is read from the database.
+export const migrateSceneSettings = (raw: unknown): SceneSettings => {
+  let settings: Record<string, any> = isPlainObject(raw) ? { ...raw } : {};
+  const savedVersion = typeof settings.version === 'number' ? settings.version : 0;
+
+  for (let version = savedVersion; version < SCENE_SETTINGS_VERSION; version++) {
+    const migrate = migrations[version];
+    if (migrate) {
+      console.log(`🔧 SCENE SETTINGS: Migrating from v${version} to v${version + 1}`);
+      settings = migrate(settings);
+    }
+  }
+
+  // Never downgrade settings saved by a newer build
+  settings.version = Math.max(savedVersion, SCENE_SETTINGS_VERSION);
+
+  const { settings: validated, issues } = validateSceneSettings(settings);
+  if (issues.length > 0) {
+    console.warn('⚠️ SCENE SETTINGS: Fixed invalid values:', issues);
+  }
+
+  return validated;
+};
@@ -0,0 +1,157 @@
+// src/lib/showSequencer.ts - Timed playlist of scene overrides for unattended event displays
+// The playlist lives in collage settings; CollageViewerPage plays it by layering
+// the active scene's overrides on top of the collage's base settings.
+import { useEffect, useMemo, useState } from 'react';
+import type { SceneSettings } from './sceneSettings';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+// Everything except the playlist itself and the schema version can be overridden
+export type SceneOverrides = DeepPartial<Omit<SceneSettings, 'playlist' | 'version'>>;
+
+export type ShowScene = {
+  id: string;
+  name: string;
+  duration: number; // Seconds
+  overrides: SceneOverrides;
+};
+
+export type ShowPlaylist = {
+  enabled: boolean;
+  loop: boolean;
+  scenes: ShowScene[];
+};
+
+// Settings a new scene captures from the editor - pattern, camera and particles
+export const CAPTURED_SETTINGS = [
+  'animationPattern',
+  'animationSpeed',
+  'photoCount',
+  'transition',
+  'cameraRotationEnabled',
+  'cameraRotationSpeed',
+  'cameraDistance',
+  'cameraHeight',
+  'cameraAnimation',
+  'particles',
+] as const;
+
+export const captureSceneOverrides = (settings: SceneSettings): SceneOverrides => {
+  const overrides: Record<string, unknown> = {};
+  CAPTURED_SETTINGS.forEach(key => {
+    overrides[key] = JSON.parse(JSON.stringify(settings[key]));
+  });
+
+  // Keep the active pattern's own settings so the scene looks the same when played back
+  overrides.patterns = {
+    [settings.animationPattern]: JSON.parse(JSON.stringify(settings.patterns[settings.animationPattern]))
+  };
+
+  return overrides as SceneOverrides;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const mergeOverrides = (target: any, source: any): any => {
+  const output = { ...target };
+  Object.keys(source).forEach(key => {
+    output[key] = isPlainObject(source[key]) && isPlainObject(target[key])
+      ? mergeOverrides(target[key], source[key])
+      : source[key];
+  });
+  return output;
+};
+
+export const applySceneOverrides = (settings: SceneSettings, overrides: SceneOverrides): SceneSettings => {
+  const { playlist, version, ...safeOverrides } = overrides as Record<string, unknown>;
+  const merged = mergeOverrides(settings, safeOverrides) as SceneSettings;
+
+  // Only the scene's pattern is enabled, mirroring what the editor does on a pattern change
+  if (safeOverrides.animationPattern && merged.patterns) {
+    const patterns: Record<string, any> = {};
+    Object.entries(merged.patterns).forEach(([id, patternSettings]) => {
+      patterns[id] = { ...patternSettings, enabled: id === merged.animationPattern };
+    });
+    merged.patterns = patterns as SceneSettings['patterns'];
+  }
+
+  return merged;
+};
+
+export const getPlaylistDuration = (playlist: ShowPlaylist) =>
+  playlist.scenes.reduce((total, scene) => total + scene.duration, 0);
+
+// Which scene should be showing `elapsed` seconds after playback started.
+// Returns null when nothing should play (disabled, empty, or finished without looping).
+export const getActiveScene = (
+  playlist: ShowPlaylist | undefined,
+  elapsed: number
+): { index: number; scene: ShowScene; remaining: number } | null => {
+  if (!playlist?.enabled || playlist.scenes.length === 0) return null;
+
+  const total = getPlaylistDuration(playlist);
+  if (total <= 0) return null;
+
+  let position = elapsed;
+  if (playlist.loop) {
+    position = elapsed % total;
+  } else if (elapsed >= total) {
+    // Hold the final scene once a one-shot playlist finishes
+    const index = playlist.scenes.length - 1;
+    return { index, scene: playlist.scenes[index], remaining: 0 };
+  }
+
+  for (let index = 0; index < playlist.scenes.length; index++) {
+    const scene = playlist.scenes[index];
+    if (position < scene.duration) {
+      return { index, scene, remaining: scene.duration - position };
+    }
+    position -= scene.duration;
+  }
+
+  return null;
+};
+
+// Plays the collage's playlist, returning the settings to render right now.
+// Playback restarts whenever the playlist itself is edited.
+export const useShowSequencer = (settings: SceneSettings | undefined) => {
+  const playlist = settings?.playlist;
+  const playlistKey = JSON.stringify(playlist ?? null);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setStartedAt(Date.now());
+    setNow(Date.now());
+  }, [playlistKey]);
+
+  useEffect(() => {
+    if (!playlist?.enabled || playlist.scenes.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [playlist?.enabled, playlist?.scenes.length]);
+
+  const active = getActiveScene(playlist, (now - startedAt) / 1000);
+  const activeIndex = active?.index ?? -1;
+
+  useEffect(() => {
+    if (activeIndex >= 0 && playlist) {
+      console.log(`🎬 SHOW: Playing scene ${activeIndex + 1}/${playlist.scenes.length} - ${playlist.scenes[activeIndex].name}`);
+    }
+  }, [activeIndex, playlistKey]);
+
+  // Only rebuild settings when the scene changes, not on every tick
+  const displaySettings = useMemo(() => {
+    if (!settings || activeIndex < 0 || !playlist) return settings;
+    return applySceneOverrides(settings, playlist.scenes[activeIndex].overrides);
+  }, [settings, activeIndex, playlistKey]);
+
+  return {
+    settings: displaySettings,
+    activeScene: active?.scene ?? null,
+    activeIndex,
+    remaining: active?.remaining ?? 0,
+  };
+};
@@ -49,4 +49,82 @@ export const getFileUrl = (bucket: string, path: string): string => {
   if (!supabaseUrl) return '';
   const baseUrl = `${supabaseUrl}/storage/v1/object/public/${bucket}/${path}`;
   return normalizeFileExtension(baseUrl);
-};
\ No newline at end of file
+};
+
+// Storage upload failure with the HTTP status - 0 means the request never reached the server
+export class StorageUploadError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'StorageUploadError';
+    this.status = status;
+  }
+}
+
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+// supabase.storage.upload() goes through fetch, which can't report upload progress -
+// this posts to the same Storage endpoint with XHR so the uploader can show real bytes
+export const uploadFileWithProgress = async (
+  bucket: string,
+  path: string,
+  body: Blob,
+  options: { onProgress?: UploadProgressHandler; signal?: AbortSignal; cacheControl?: string; headers?: Record<string, string> } = {}
+): Promise<{ path: string }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const token = session?.access_token || supabaseAnonKey;
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new DOMException('Upload aborted', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    const cleanup = () => options.signal?.removeEventListener('abort', abort);
+
+    xhr.open('POST', `${supabaseUrl}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.setRequestHeader('apikey', supabaseAnonKey);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.setRequestHeader('cache-control', `max-age=${options.cacheControl || '3600'}`);
+    if (body.type) xhr.setRequestHeader('content-type', body.type);
+    Object.entries(options.headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      options.onProgress?.(event.loaded, event.lengthComputable ? event.total : body.size);
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        options.onProgress?.(body.size, body.size);
+        resolve({ path });
+        return;
+      }
+
+      let message = `Upload failed (HTTP ${xhr.status})`;
+      try {
+        const response = JSON.parse(xhr.responseText);
+        message = response.message || response.error || message;
+      } catch {
+        // Non-JSON error body - keep the status message
+      }
+      reject(new StorageUploadError(message, xhr.status));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new StorageUploadError('Network error during upload', 0));
+    };
+    xhr.ontimeout = xhr.onerror;
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Upload aborted', 'AbortError'));
+    };
+
+    xhr.send(body);
+  });
+};
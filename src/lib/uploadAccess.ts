@@ -0,0 +1,273 @@
+// src/lib/uploadAccess.ts - Guest upload policies
+// Co-hosts can protect uploads with a PIN, an upload window, a per-device limit and a cap on the
+// collage's photos (collage_upload_policies). Guests trade the PIN for an upload pass once
+// (verify_upload_pin(), which limits wrong guesses), then send the pass and a device id with every
+// upload in request headers. The database refuses anything the policy doesn't allow - these helpers
+// send the headers and turn refusals into messages.
+import { useCallback, useEffect, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { supabase } from './supabase';
+
+// Read by collage_accepts_uploads() and enforce_upload_policy() in the database
+export const UPLOAD_PASS_HEADER = 'x-upload-pass';
+export const UPLOAD_DEVICE_HEADER = 'x-upload-device';
+
+// Same as the pin_format constraint
+export const UPLOAD_PIN_PATTERN = /^[0-9]{6,8}$/;
+
+export type UploadDeniedReason =
+  | 'not_found'
+  | 'disabled'
+  | 'collage_full'
+  | 'not_open'
+  | 'closed'
+  | 'pin_required'
+  | 'pin_invalid'
+  | 'pin_locked'
+  | 'device_required'
+  | 'device_limit';
+
+const UPLOAD_DENIED_REASONS: UploadDeniedReason[] = [
+  'not_found', 'disabled', 'collage_full', 'not_open', 'closed', 'pin_required',
+  'pin_invalid', 'pin_locked', 'device_required', 'device_limit'
+];
+
+// Co-hosts and the owner only - guests never see the PIN
+export interface UploadPolicy {
+  collage_id: string;
+  pin: string | null;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_per_device: number | null;
+  max_photos: number | null;
+  updated_at: string;
+}
+
+export type UploadPolicyChanges = Pick<UploadPolicy, 'pin' | 'opens_at' | 'closes_at' | 'max_per_device' | 'max_photos'>;
+
+// What a guest can know before uploading, from get_upload_access()
+export interface UploadAccess {
+  allowed: boolean;
+  reason: UploadDeniedReason | null;
+  pin_required: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_per_device: number | null;
+  device_uploads: number | null; // Only while the per-device limit applies
+  max_photos: number | null;
+  photo_count: number;
+}
+
+const DEVICE_ID_KEY = 'photosphere-upload-device';
+const PASS_KEY_PREFIX = 'photosphere-upload-pass:';
+
+// Used when the browser won't let us store anything - counts as one device until reload
+let sessionDeviceId: string | null = null;
+
+// Random per browser and kept across visits, so the per-device limit survives a reload
+export const getUploadDeviceId = (): string => {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = nanoid();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    sessionDeviceId = sessionDeviceId || nanoid();
+    return sessionDeviceId;
+  }
+};
+
+export const getUploadPass = (collageId: string): string | null => {
+  try {
+    return localStorage.getItem(PASS_KEY_PREFIX + collageId);
+  } catch {
+    return null;
+  }
+};
+
+// Remembered per collage so queued uploads can still send it after a reload
+export const rememberUploadPass = (collageId: string, pass: string | null) => {
+  try {
+    if (pass) {
+      localStorage.setItem(PASS_KEY_PREFIX + collageId, pass);
+    } else {
+      localStorage.removeItem(PASS_KEY_PREFIX + collageId);
+    }
+  } catch {
+    // Storage unavailable - the guest types the PIN again next time
+  }
+};
+
+export const uploadAccessHeaders = (collageId: string): Record<string, string> => {
+  const pass = getUploadPass(collageId);
+  return {
+    [UPLOAD_DEVICE_HEADER]: getUploadDeviceId(),
+    ...(pass ? { [UPLOAD_PASS_HEADER]: pass } : {})
+  };
+};
+
+// Attach the guest's upload pass and device id to a Supabase query that inserts photos or checks access
+export const withUploadAccess = <T extends { setHeader: (name: string, value: string) => T }>(
+  query: T,
+  collageId: string
+): T => Object.entries(uploadAccessHeaders(collageId)).reduce((q, [name, value]) => q.setHeader(name, value), query);
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export const describeUploadDenial = (reason: UploadDeniedReason, access?: UploadAccess | null): string => {
+  switch (reason) {
+    case 'not_found':
+      return 'This collage no longer exists.';
+    case 'disabled':
+      return 'The host has turned off uploads for this collage.';
+    case 'collage_full':
+      return access?.max_photos
+        ? `This collage is full - it holds ${access.max_photos} photos.`
+        : 'This collage is full.';
+    case 'not_open':
+      return access?.opens_at
+        ? `Uploads open ${formatTime(access.opens_at)}. Come back then!`
+        : "Uploads haven't opened yet.";
+    case 'closed':
+      return access?.closes_at
+        ? `Uploads closed ${formatTime(access.closes_at)}. Thanks for coming!`
+        : 'Uploads for this collage have closed.';
+    case 'pin_required':
+      return 'Enter the event PIN to add photos.';
+    case 'pin_invalid':
+      return "That PIN isn't right. Ask the host for the event PIN.";
+    case 'pin_locked':
+      return 'Too many wrong PINs. Wait a few minutes and try again.';
+    case 'device_required':
+      return "This browser couldn't be identified for the upload limit. Reload the page and try again.";
+    case 'device_limit':
+      return access?.max_per_device
+        ? `You've added the maximum of ${access.max_per_device} photos from this device.`
+        : "You've reached the upload limit for this device.";
+  }
+};
+
+export class UploadDeniedError extends Error {
+  reason: UploadDeniedReason;
+
+  constructor(reason: UploadDeniedReason, access?: UploadAccess | null) {
+    super(describeUploadDenial(reason, access));
+    this.name = 'UploadDeniedError';
+    this.reason = reason;
+  }
+}
+
+// enforce_upload_policy() raises "upload_denied:<reason>"
+export const toUploadDeniedError = (error: any): UploadDeniedError | null => {
+  const match = /upload_denied:([a-z_]+)/.exec(error?.message || '');
+  const reason = match?.[1] as UploadDeniedReason | undefined;
+  return reason && UPLOAD_DENIED_REASONS.includes(reason) ? new UploadDeniedError(reason) : null;
+};
+
+// Checks with the remembered pass and this device
+export const checkUploadAccess = async (collageId: string): Promise<UploadAccess | null> => {
+  const { data, error } = await withUploadAccess(
+    supabase.rpc('get_upload_access', { p_collage_id: collageId }),
+    collageId
+  );
+
+  if (error) {
+    console.error('❌ Failed to check upload access:', error);
+    throw error;
+  }
+  return (data?.[0] as UploadAccess | undefined) ?? null;
+};
+
+// Trades the PIN for an upload pass and remembers it. Returns why not if the PIN was refused.
+export const verifyUploadPin = async (collageId: string, pin: string): Promise<UploadDeniedReason | null> => {
+  const { data, error } = await withUploadAccess(
+    supabase.rpc('verify_upload_pin', { p_collage_id: collageId, p_pin: pin.trim() }),
+    collageId
+  );
+
+  if (error) {
+    console.error('❌ Failed to check upload PIN:', error);
+    throw error;
+  }
+
+  const [result] = data || [];
+  if (result?.pass) {
+    rememberUploadPass(collageId, result.pass);
+  }
+  return (result?.reason as UploadDeniedReason | null | undefined) ?? null;
+};
+
+// Upload access for a guest page - submitPin() trades a PIN for a pass if it's right
+export const useUploadAccess = (collageId?: string | null) => {
+  const [access, setAccess] = useState<UploadAccess | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!collageId) return;
+    try {
+      setAccess(await checkUploadAccess(collageId));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to check upload access');
+    } finally {
+      setLoading(false);
+    }
+  }, [collageId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setAccess(null);
+    refresh();
+  }, [refresh]);
+
+  const submitPin = useCallback(async (pin: string): Promise<UploadAccess | null> => {
+    if (!collageId) return null;
+    const refused = await verifyUploadPin(collageId, pin);
+    if (refused) {
+      // Stay on the PIN prompt and say why
+      const result = access ? { ...access, allowed: false, reason: refused } : null;
+      setAccess(result);
+      return result;
+    }
+
+    const result = await checkUploadAccess(collageId);
+    setAccess(result);
+    return result;
+  }, [collageId, access]);
+
+  return { access, loading, error, refresh, submitPin };
+};
+
+export const fetchUploadPolicy = async (collageId: string): Promise<UploadPolicy | null> => {
+  const { data, error } = await supabase
+    .from('collage_upload_policies')
+    .select('*')
+    .eq('collage_id', collageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to fetch upload policy:', error);
+    throw error;
+  }
+  return data as UploadPolicy | null;
+};
+
+export const saveUploadPolicy = async (collageId: string, changes: UploadPolicyChanges): Promise<UploadPolicy> => {
+  console.log('🔐 Saving upload policy for collage:', collageId);
+
+  const { data, error } = await supabase
+    .from('collage_upload_policies')
+    .upsert({ collage_id: collageId, ...changes }, { onConflict: 'collage_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Failed to save upload policy:', error);
+    throw error;
+  }
+  return data as UploadPolicy;
+};
@@ -0,0 +1,85 @@
+// src/lib/uploadQueueDb.ts - IndexedDB persistence for the upload queue
+// Queued files are stored as Blobs so a reload (or a phone killing the tab) on flaky
+// venue Wi-Fi doesn't lose them. Every call fails soft - private browsing modes without
+// IndexedDB just get an in-memory queue.
+
+const DB_NAME = 'photosphere-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+export interface StoredUpload {
+  id: string;
+  collageId: string;
+  file: File;
+  normalized: boolean; // File was already run through normalizeImage
+  paused: boolean;
+  attempts: number;
+  error?: string; // Set once the upload failed for good - restored for a manual retry
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Don't cache a failed open - the next call tries again
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadStoredUploads = async (): Promise<StoredUpload[]> => {
+  try {
+    const uploads = await runTransaction('readonly', store => store.getAll() as IDBRequest<StoredUpload[]>);
+    return uploads.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.warn('⚠️ UPLOAD QUEUE: Could not read saved uploads:', error);
+    return [];
+  }
+};
+
+export const saveStoredUpload = async (upload: StoredUpload): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => store.put(upload));
+  } catch (error) {
+    // Usually quota - the upload still runs, it just won't survive a reload
+    console.warn('⚠️ UPLOAD QUEUE: Could not save upload for offline retry:', error);
+  }
+};
+
+export const deleteStoredUpload = async (id: string): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.warn('⚠️ UPLOAD QUEUE: Could not remove saved upload:', error);
+  }
+};
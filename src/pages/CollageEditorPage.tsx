@@ -1,17 +1,22 @@
 // src/pages/CollageEditorPage.tsx - UPDATED: Left-side settings panel with improved styling
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { ChevronLeft, Settings, Image, Shield, Video } from 'lucide-react';
+import { ChevronLeft, Settings, Image, Shield, Video, Lock } from 'lucide-react';
 import { useCollageStore } from '../store/collageStore';
-import { useSceneStore } from '../store/sceneStore';
+import { useSceneStore, getDefaultSettings } from '../store/sceneStore';
 import { ErrorBoundary } from 'react-error-boundary';
 import Layout from '../components/layout/Layout';
 import SceneSettings from '../components/collage/SceneSettings';
+import ShowPlaylistEditor from '../components/collage/ShowPlaylistEditor';
+import UploadPolicySettings from '../components/collage/UploadPolicySettings';
 import CollageScene from '../components/three/CollageScene';
 import PhotoUploader from '../components/collage/PhotoUploader';
 import CollagePhotos from '../components/collage/CollagePhotos';
 import RealtimeDebugPanel from '../components/debug/RealtimeDebugPanel';
 import MobileVideoRecorder from '../components/video/MobileVideoRecorder';
+import { isPhotoApproved, isPhotoPending } from '../lib/moderation';
+import { canEditScene, canModerate, COLLAGE_ROLE_LABELS } from '../lib/collageRoles';
+import { useGuardedCollageRole } from '../components/auth/RequireCollageRole';
 
 type Tab = 'settings' | 'photos';
 
@@ -55,6 +60,9 @@ const CollageEditorPage: React.FC = () => {
     refreshPhotos
   } = useCollageStore();
   const { settings, updateSettings } = useSceneStore();
+  // Co-hosts and the owner edit the scene; everyone else on the team sees it read-only
+  const role = useGuardedCollageRole();
+  const canEdit = canEditScene(role);
   
   const [activeTab, setActiveTab] = useState<Tab>('settings');
   const [showVideoRecorder, setShowVideoRecorder] = useState(false);
@@ -63,8 +71,10 @@ const CollageEditorPage: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [recordingResolution, setRecordingResolution] = useState({ width: 1920, height: 1080 });
 
-  // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  // SAFETY: Ensure photos is always an array - the scene only shows approved photos
+  const allPhotos = useMemo(() => (Array.isArray(photos) ? photos : []), [photos]);
+  const safePhotos = useMemo(() => allPhotos.filter(isPhotoApproved), [allPhotos]);
+  const pendingCount = useMemo(() => allPhotos.filter(isPhotoPending).length, [allPhotos]);
 
   // DEBUG: Log settings comparison
   useEffect(() => {
@@ -99,6 +109,9 @@ const CollageEditorPage: React.FC = () => {
   // Auto-save settings with debounce
   const handleSettingsChange = (newSettings: Partial<any>) => {
     updateSettings(newSettings);
+
+    // The database would refuse the save anyway
+    if (!canEdit) return;
     
     // Clear existing timeout
     if (saveTimeoutRef.current) {
@@ -142,62 +155,9 @@ const CollageEditorPage: React.FC = () => {
   const handleResetSettings = () => {
     if (!currentCollage) return;
     
-    const defaultSettings = {
-      animationPattern: 'grid' as const,
-      animationSpeed: 50,
-      animationEnabled: true,
-      photoCount: 50,
-      backgroundColor: '#000000',
-      backgroundGradient: false,
-      backgroundGradientStart: '#000000',
-      backgroundGradientEnd: '#1a1a1a',
-      backgroundGradientAngle: 180,
-      emptySlotColor: '#1A1A1A',
-      cameraDistance: 25,
-      cameraRotationEnabled: true,
-      cameraRotationSpeed: 0.2,
-      cameraHeight: 10,
-      cameraEnabled: true,
-      spotlightCount: 4,
-      spotlightHeight: 30,
-      spotlightDistance: 40,
-      spotlightAngle: Math.PI / 6,
-      spotlightIntensity: 2,
-      spotlightColor: '#ffffff',
-      ambientLightIntensity: 0.4,
-      ambientLightColor: '#404040',
-      floorEnabled: true,
-      floorSize: 200,
-      floorColor: '#1A1A1A',
-      floorOpacity: 1,
-      floorMetalness: 0.5,
-      floorRoughness: 0.5,
-      gridEnabled: false,
-      gridSize: 100,
-      gridDivisions: 20,
-      gridColor: '#404040',
-      gridOpacity: 0.5,
-      photoSize: 4.0,
-      photoBrightness: 1.0,
-      photoSpacing: 1.2,
-      photoRotation: 0,
-      photoTilt: 0,
-      photoDepth: 0.1,
-      shadowsEnabled: true,
-      shadowQuality: 'medium' as const,
-      fogEnabled: false,
-      fogColor: '#000000',
-      fogNear: 50,
-      fogFar: 200,
-      postProcessingEnabled: false,
-      bloomEnabled: false,
-      bloomStrength: 0.5,
-      bloomRadius: 0.4,
-      bloomThreshold: 0.9,
-    };
-    
-    updateSettings(defaultSettings);
-    handleSettingsChange(defaultSettings);
+    const defaults = getDefaultSettings();
+    updateSettings(defaults);
+    handleSettingsChange(defaults);
   };
 
   if (loading && !currentCollage) {
@@ -250,9 +210,19 @@ const CollageEditorPage: React.FC = () => {
                 <div>
                   <h1 className="text-xl font-bold text-white">{currentCollage.name}</h1>
                   <div className="flex items-center space-x-2 text-gray-400 text-sm">
+                    <span>{COLLAGE_ROLE_LABELS[role]}</span>
+                    <span>•</span>
                     <span>Code: {currentCollage.code}</span>
                     <span>•</span>
                     <span>{safePhotos.length} photos</span>
+                    {pendingCount > 0 && (
+                      <>
+                        <span>•</span>
+                        <Link to={`/collage/${currentCollage.id}/moderation`} className="text-yellow-400 hover:text-yellow-300">
+                          {pendingCount} awaiting approval
+                        </Link>
+                      </>
+                    )}
                     <span>•</span>
                     <div className="flex items-center space-x-1">
                       <div className={`w-2 h-2 rounded-full ${isRealtimeConnected ? 'bg-green-400' : 'bg-yellow-400'}`}></div>
@@ -343,19 +313,36 @@ const CollageEditorPage: React.FC = () => {
 
             {/* Maximized Content Area */}
             <div className="flex-1 overflow-auto">
-              {activeTab === 'settings' ? (
+              {activeTab === 'settings' && !canEdit ? (
+                <div className="p-4 text-sm text-gray-400">
+                  <Lock className="w-5 h-5 mb-2" />
+                  Only co-hosts and the owner can change the scene. You're a {COLLAGE_ROLE_LABELS[role].toLowerCase()} on this collage.
+                </div>
+              ) : activeTab === 'settings' ? (
                 <div className="p-4">
                   <SceneSettings
                     settings={settings}
                     onSettingsChange={handleSettingsChange}
                     onReset={handleResetSettings}
                   />
+
+                  <div className="mt-6 pt-6 border-t border-gray-700/50">
+                    <ShowPlaylistEditor
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+                  </div>
+
+                  <div className="mt-6 pt-6 border-t border-gray-700/50">
+                    <UploadPolicySettings collageId={currentCollage.id} />
+                  </div>
                 </div>
               ) : (
                 <div className="p-4 space-y-4">
                   <CollagePhotos 
                     collageId={currentCollage.id}
                     onManualRefresh={handleManualRefresh}
+                    canDelete={canModerate(role)}
                   />
                 </div>
               )}
@@ -1,9 +1,21 @@
 // src/pages/CollageModerationPage.tsx - ENHANCED VERSION WITH BETTER DELETION
-import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { ChevronLeft, Shield, RefreshCw, Trash2, Eye, AlertCircle, Video } from 'lucide-react';
-import { useCollageStore } from '../store/collageStore';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { ChevronLeft, Shield, RefreshCw, Trash2, Eye, EyeOff, Check, AlertCircle, Video, Copy, Clock, CheckSquare, Square, RotateCcw, ShieldAlert, History, Users } from 'lucide-react';
+import { useCollageStore, type Photo, type PhotoStatus } from '../store/collageStore';
+import { getPhotoUrl } from '../lib/photoDerivatives';
+import { isPhotoApproved, isPhotoPending, PHOTO_STATUS_LABELS } from '../lib/moderation';
+import { usePhotoSelection } from '../lib/photoSelection';
+import { describeSafetyHold } from '../lib/contentSafety';
+import { canModerate, canEditScene, COLLAGE_ROLE_LABELS } from '../lib/collageRoles';
+import PendingPhotoQueue from '../components/collage/PendingPhotoQueue';
+import UndoToast from '../components/collage/UndoToast';
+import TrashedPhotos from '../components/collage/TrashedPhotos';
+import ModerationHistory from '../components/collage/ModerationHistory';
+import CollageTeam from '../components/collage/CollageTeam';
+import { useGuardedCollageRole } from '../components/auth/RequireCollageRole';
 import PhotoModerationModal from '../components/collage/PhotoModerationModal';
+import DuplicatePhotoGroups, { useDuplicateGroups } from '../components/collage/DuplicatePhotoGroups';
 import Layout from '../components/layout/Layout';
 import RealtimeStatus from '../components/debug/RealtimeStatus';
 import RealtimeDebugPanel from '../components/debug/RealtimeDebugPanel';
@@ -12,15 +24,48 @@ import MobileVideoRecorder from '../components/video/MobileVideoRecorder';
 // Debug flag for logging
 const DEBUG = false;
 
+// Logged as the reason when an action is undone
+const UNDO_REASON = 'Undo';
+
+// How long the undo toast stays up - deleted photos can still be restored from the Trash tab after it
+const UNDO_WINDOW_MS = 10000;
+
+type StatusFilter = 'all' | PhotoStatus;
+
+interface UndoableAction {
+  message: string;
+  undo: () => Promise<void>;
+}
+
+const STATUS_ACTION_VERBS: Record<PhotoStatus, string> = {
+  approved: 'Approved',
+  rejected: 'Hid',
+  pending: 'Moved back to pending',
+};
+
+const pluralPhotos = (count: number) => `${count} photo${count === 1 ? '' : 's'}`;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
 const CollageModerationPage: React.FC = () => {  
   if (DEBUG) console.log('🛡️ MODERATION PAGE RENDER');
   
   const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const { 
     currentCollage, 
     photos, 
     fetchCollageById, 
-    deletePhoto, 
+    trashedPhotos,
+    deletePhotos, 
+    restorePhotos,
+    purgePhotos,
+    fetchTrashedPhotos,
+    dismissDuplicates,
+    setPhotoStatus,
+    updateModerationMode,
     loading, 
     error, 
     refreshPhotos,
@@ -31,6 +76,10 @@ const CollageModerationPage: React.FC = () => {
   
   // SAFETY: Ensure photos is always an array
   const safePhotos = Array.isArray(photos) ? photos : [];
+
+  // Viewers can look; moderators and up can act. The database enforces the same roles.
+  const role = useGuardedCollageRole();
+  const isModerator = canModerate(role);
   
   // Log when photos array reference changes
   useEffect(() => {
@@ -50,6 +99,35 @@ const CollageModerationPage: React.FC = () => {
   const [showVideoRecorder, setShowVideoRecorder] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [recordingResolution, setRecordingResolution] = useState({ width: 1920, height: 1080 });
+  const [activeView, setActiveView] = useState<'all' | 'pending' | 'duplicates' | 'trash' | 'history' | 'team'>('all');
+  const [bulkReason, setBulkReason] = useState('');
+  const [loadingTrash, setLoadingTrash] = useState(false);
+  const [updatingMode, setUpdatingMode] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [lastAction, setLastAction] = useState<UndoableAction | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const duplicateGroups = useDuplicateGroups(safePhotos);
+
+  const filteredPhotos = useMemo(
+    () => statusFilter === 'all' ? safePhotos : safePhotos.filter(photo => photo.status === statusFilter),
+    [safePhotos, statusFilter]
+  );
+  const filteredIds = useMemo(() => filteredPhotos.map(photo => photo.id), [filteredPhotos]);
+  const { selectedIds, selectedInOrder, toggle: toggleSelected, selectAll, clear: clearSelection } = usePhotoSelection(filteredIds);
+
+  // History thumbnails for photos that are live or in the trash
+  const historyPhotoLookup = useMemo(() => {
+    const lookup = new Map<string, Photo>();
+    trashedPhotos.forEach(photo => lookup.set(photo.id, photo));
+    safePhotos.forEach(photo => lookup.set(photo.id, photo));
+    return lookup;
+  }, [safePhotos, trashedPhotos]);
+
+  // Approval queue runs oldest first
+  const pendingPhotos = useMemo(
+    () => safePhotos.filter(isPhotoPending).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [safePhotos]
+  );
 
   // DEBUG: Log photos changes in moderation
   useEffect(() => {
@@ -92,47 +170,228 @@ const CollageModerationPage: React.FC = () => {
     }
   };
 
-  // Wrap handleDeletePhoto in useCallback to ensure it always has the latest photos array
-  const handleDeletePhoto = useCallback(async (photoId: string) => {
-    if (deletingPhotos.has(photoId)) return;
-    
-    if (DEBUG) console.log('🛡️ MODERATION: handleDeletePhoto called with ID:', photoId?.slice(-6));
-    
-    const confirmed = window.confirm('Delete this photo? It will be removed from all views immediately.');
-    if (!confirmed) return;
+  const setBusy = (photoIds: string[], busy: boolean) => {
+    setDeletingPhotos(prev => {
+      const newSet = new Set(prev);
+      photoIds.forEach(photoId => busy ? newSet.add(photoId) : newSet.delete(photoId));
+      return newSet;
+    });
+  };
 
-    setDeletingPhotos(prev => new Set(prev).add(photoId));
-    
+  const finishLastAction = useCallback(() => {
+    setLastAction(null);
+  }, []);
+
+  // Undo window
+  useEffect(() => {
+    if (!lastAction) return;
+    const timer = setTimeout(finishLastAction, UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [lastAction, finishLastAction]);
+
+  // Trash is loaded when its tab opens - realtime keeps it current after that
+  useEffect(() => {
+    if (activeView !== 'trash' || !currentCollage?.id) return;
+    setLoadingTrash(true);
+    fetchTrashedPhotos(currentCollage.id)
+      .catch((error: any) => setFetchError(error.message))
+      .finally(() => setLoadingTrash(false));
+  }, [activeView, currentCollage?.id, fetchTrashedPhotos]);
+
+  // Move photos to the trash with a single undo instead of a confirm dialog per photo
+  const trashPhotos = useCallback(async (photoIds: string[], message?: string, reason?: string) => {
+    if (photoIds.length === 0) return;
+    setSelectedPhoto(prev => prev && photoIds.includes(prev.id) ? null : prev);
+
+    setBusy(photoIds, true);
     try {
-      if (DEBUG) {
-        console.log('🗑️ MODERATION: Deleting photo:', photoId?.slice(-6));
-        console.log('🛡️ MODERATION: Photos before deletion:', photos.length);
-      }
-      
-      await deletePhoto(photoId);
-      
-      if (DEBUG) console.log('✅ MODERATION: Photo deleted successfully');
-      
-      // Close modal if deleted photo was selected
-      if (selectedPhoto?.id === photoId) {
-        setSelectedPhoto(null);
-      }
-      
+      await deletePhotos(photoIds, reason);
+      setLastAction({
+        message: message || `Moved ${pluralPhotos(photoIds.length)} to the trash`,
+        undo: () => restorePhotos(photoIds, UNDO_REASON)
+      });
     } catch (error: any) {
       console.error('❌ MODERATION: Delete failed:', error);
-      if (!error.message.includes('0 rows')) {
-        const errorMsg = `Failed to delete photo: ${error.message}`;
-        console.error('❌ MODERATION:', errorMsg);
-        alert(errorMsg);
+      alert(`Failed to delete photos: ${error.message}`);
+    } finally {
+      setBusy(photoIds, false);
+    }
+  }, [deletePhotos, restorePhotos]);
+
+  const handleRestore = useCallback(async (toRestore: Photo[]) => {
+    const photoIds = toRestore.map(photo => photo.id);
+    setSelectedPhoto(prev => prev && photoIds.includes(prev.id) ? null : prev);
+    setBusy(photoIds, true);
+    try {
+      await restorePhotos(photoIds);
+    } catch (error: any) {
+      console.error('❌ MODERATION: Restore failed:', error);
+      alert(`Failed to restore photos: ${error.message}`);
+    } finally {
+      setBusy(photoIds, false);
+    }
+  }, [restorePhotos]);
+
+  // Deleting forever can't be undone - the only moderation action that still asks first
+  const handlePurge = useCallback(async (toPurge: Photo[]) => {
+    const confirmed = window.confirm(
+      `Permanently delete ${pluralPhotos(toPurge.length)}? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    const photoIds = toPurge.map(photo => photo.id);
+    setSelectedPhoto(prev => prev && photoIds.includes(prev.id) ? null : prev);
+    setBusy(photoIds, true);
+    try {
+      const purged = await purgePhotos(photoIds);
+      if (purged < photoIds.length) {
+        alert(`Deleted ${purged} of ${pluralPhotos(photoIds.length)}. The rest were no longer in the trash or could not be deleted.`);
       }
+    } catch (error: any) {
+      console.error('❌ MODERATION: Permanent delete failed:', error);
+      alert(`Failed to delete photos: ${error.message}`);
     } finally {
-      setDeletingPhotos((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(photoId);
-        return newSet;
+      setBusy(photoIds, false);
+    }
+  }, [purgePhotos]);
+
+  // Approve/hide photos; undo puts each photo back to the status it had before
+  const applyStatus = useCallback(async (photoIds: string[], status: PhotoStatus, reason?: string) => {
+    const { photosById } = useCollageStore.getState();
+    const previous = new Map<PhotoStatus, string[]>();
+    photoIds.forEach(photoId => {
+      const photo = photosById.get(photoId);
+      if (!photo || photo.status === status) return;
+      previous.set(photo.status, [...(previous.get(photo.status) || []), photoId]);
+    });
+
+    const changed = Array.from(previous.values()).flat();
+    if (changed.length === 0) return;
+
+    setBusy(changed, true);
+    try {
+      await setPhotoStatus(changed, status, reason);
+      setLastAction({
+        message: `${STATUS_ACTION_VERBS[status]} ${pluralPhotos(changed.length)}`,
+        undo: async () => {
+          for (const [previousStatus, group] of previous) {
+            await setPhotoStatus(group, previousStatus, UNDO_REASON);
+          }
+        }
       });
+    } catch (error: any) {
+      console.error('❌ MODERATION: Status update failed:', error);
+      alert(`Failed to update photos: ${error.message}`);
+    } finally {
+      setBusy(changed, false);
+    }
+  }, [setPhotoStatus]);
+
+  const handleUndo = useCallback(async () => {
+    if (!lastAction || undoing) return;
+    setUndoing(true);
+    try {
+      await lastAction.undo();
+      setLastAction(null);
+    } catch (error: any) {
+      console.error('❌ MODERATION: Undo failed:', error);
+      alert(`Failed to undo: ${error.message}`);
+    } finally {
+      setUndoing(false);
+    }
+  }, [lastAction, undoing]);
+
+  const handleDeletePhoto = useCallback((photoId: string) => {
+    if (DEBUG) console.log('🛡️ MODERATION: handleDeletePhoto called with ID:', photoId?.slice(-6));
+    trashPhotos([photoId]);
+  }, [trashPhotos]);
+
+  // Merge a duplicate group - keep one photo, delete the rest
+  const handleKeepDuplicate = useCallback((_keep: Photo, remove: Photo[]) => {
+    trashPhotos(
+      remove.map(photo => photo.id),
+      `Kept 1 photo, moved ${remove.length === 1 ? '1 copy' : `${remove.length} copies`} to the trash`
+    );
+  }, [trashPhotos]);
+
+  const handleDismissDuplicates = useCallback(async (group: Photo[]) => {
+    try {
+      await dismissDuplicates(group.filter(photo => photo.duplicate_of).map(photo => photo.id));
+    } catch (error: any) {
+      alert(`Failed to update photos: ${error.message}`);
+    }
+  }, [dismissDuplicates]);
+
+  const handleApprove = useCallback((photo: Photo) => applyStatus([photo.id], 'approved'), [applyStatus]);
+  const handleReject = useCallback((photo: Photo) => applyStatus([photo.id], 'rejected'), [applyStatus]);
+
+  // Bulk actions on the current selection - the optional reason goes into the audit log
+  const handleBulkStatus = async (status: PhotoStatus) => {
+    await applyStatus(selectedInOrder, status, bulkReason);
+    clearSelection();
+    setBulkReason('');
+  };
+
+  const handleBulkDelete = () => {
+    trashPhotos(selectedInOrder, undefined, bulkReason);
+    clearSelection();
+    setBulkReason('');
+  };
+
+  // Click selects while a selection is in progress (or with shift/ctrl/cmd), otherwise opens the preview
+  const handlePhotoClick = (photo: Photo, event: React.MouseEvent) => {
+    if (isModerator && (selectedIds.size > 0 || event.shiftKey || event.metaKey || event.ctrlKey)) {
+      toggleSelected(photo.id, event.shiftKey);
+    } else {
+      openPhotoPreview(photo);
+    }
+  };
+
+  const changeStatusFilter = (filter: StatusFilter) => {
+    setStatusFilter(filter);
+    clearSelection();
+  };
+
+  // Keyboard: Ctrl/Cmd+A select all shown, Escape clear, Ctrl/Cmd+Z undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return;
+      const mod = event.metaKey || event.ctrlKey;
+
+      if (mod && event.key.toLowerCase() === 'z' && lastAction) {
+        event.preventDefault();
+        handleUndo();
+      } else if (activeView === 'all' && isModerator && mod && event.key.toLowerCase() === 'a') {
+        event.preventDefault();
+        selectAll();
+      } else if (activeView === 'all' && event.key === 'Escape' && selectedIds.size > 0) {
+        clearSelection();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [activeView, isModerator, lastAction, handleUndo, selectAll, clearSelection, selectedIds.size]);
+
+  const handleToggleModerationMode = async () => {
+    if (!currentCollage) return;
+    const nextMode = currentCollage.moderation_mode === 'pre' ? 'post' : 'pre';
+    if (nextMode === 'post' && pendingPhotos.length > 0) {
+      const confirmed = window.confirm(
+        `${pendingPhotos.length} photo(s) are still waiting for approval. They stay hidden until you approve them. Turn off approval for new uploads?`
+      );
+      if (!confirmed) return;
     }
-  }, [photos, deletePhoto, deletingPhotos, selectedPhoto]);
+
+    setUpdatingMode(true);
+    try {
+      await updateModerationMode(currentCollage.id, nextMode);
+    } catch (error: any) {
+      alert(`Failed to change moderation mode: ${error.message}`);
+    } finally {
+      setUpdatingMode(false);
+    }
+  };
 
   const openPhotoPreview = (photo: Photo) => {
     setSelectedPhoto(photo);
@@ -197,6 +456,8 @@ const CollageModerationPage: React.FC = () => {
               <div className="flex items-center space-x-2 text-gray-400 text-sm mt-1">
                 <span>{currentCollage.name}</span>
                 <span>•</span>
+                <span>{COLLAGE_ROLE_LABELS[role]}</span>
+                <span>•</span>
                 <span>Code: {currentCollage.code}</span>
                 <span>•</span>
                 <span>{safePhotos.length} photos</span>
@@ -210,6 +471,22 @@ const CollageModerationPage: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-2">
+            <button
+              onClick={handleToggleModerationMode}
+              disabled={updatingMode || !canEditScene(role)}
+              className={`px-3 py-2 rounded-md transition-colors text-sm flex items-center space-x-2 disabled:opacity-50 ${
+                currentCollage.moderation_mode === 'pre'
+                  ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+              }`}
+              title={canEditScene(role)
+                ? 'When on, new photos only appear in the collage after you approve them'
+                : 'Only co-hosts and the owner can change this'}
+            >
+              <Shield className="w-4 h-4" />
+              <span>{currentCollage.moderation_mode === 'pre' ? 'Approval Required' : 'Approval Off'}</span>
+            </button>
+
             <button
               onClick={handleRefresh}
               disabled={isRefreshing}
@@ -256,12 +533,14 @@ const CollageModerationPage: React.FC = () => {
                 Last updated: {new Date().toLocaleTimeString()}
               </span>
               <div className="flex items-center space-x-2">
-                <button
-                  onClick={() => setShowModerationModal(true)}
-                  className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors text-sm"
-                >
-                  Moderation Modal
-                </button>
+                {isModerator && (
+                  <button
+                    onClick={() => setShowModerationModal(true)}
+                    className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors text-sm"
+                  >
+                    Moderation Modal
+                  </button>
+                )}
                 <button
                   onClick={() => setShowDebugPanel(!showDebugPanel)}
                   className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors text-sm"
@@ -280,9 +559,121 @@ const CollageModerationPage: React.FC = () => {
           </div>
         </div>
 
+        {/* View Tabs */}
+        <div className="flex items-center space-x-2 mb-4">
+          <button
+            onClick={() => setActiveView('all')}
+            className={`px-4 py-2 rounded-md text-sm transition-colors ${
+              activeView === 'all' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            All Photos ({safePhotos.length})
+          </button>
+          {isModerator && (
+            <>
+              <button
+                onClick={() => setActiveView('pending')}
+                className={`px-4 py-2 rounded-md text-sm transition-colors flex items-center space-x-2 ${
+                  activeView === 'pending' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <Clock className="w-4 h-4" />
+                <span>Pending</span>
+                {pendingPhotos.length > 0 && (
+                  <span className="px-1.5 py-0.5 bg-yellow-500 text-black rounded-full text-xs font-bold">
+                    {pendingPhotos.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveView('duplicates')}
+                className={`px-4 py-2 rounded-md text-sm transition-colors flex items-center space-x-2 ${
+                  activeView === 'duplicates' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <Copy className="w-4 h-4" />
+                <span>Possible Duplicates</span>
+                {duplicateGroups.length > 0 && (
+                  <span className="px-1.5 py-0.5 bg-yellow-500 text-black rounded-full text-xs font-bold">
+                    {duplicateGroups.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveView('trash')}
+                className={`px-4 py-2 rounded-md text-sm transition-colors flex items-center space-x-2 ${
+                  activeView === 'trash' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Trash</span>
+                {trashedPhotos.length > 0 && (
+                  <span className="px-1.5 py-0.5 bg-gray-600 text-white rounded-full text-xs font-bold">
+                    {trashedPhotos.length}
+                  </span>
+                )}
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setActiveView('history')}
+            className={`px-4 py-2 rounded-md text-sm transition-colors flex items-center space-x-2 ${
+              activeView === 'history' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <History className="w-4 h-4" />
+            <span>History</span>
+          </button>
+          <button
+            onClick={() => setActiveView('team')}
+            className={`px-4 py-2 rounded-md text-sm transition-colors flex items-center space-x-2 ${
+              activeView === 'team' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            <span>Team</span>
+          </button>
+        </div>
+
         {/* Photo Grid */}
         <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-6">
-          {safePhotos.length === 0 ? (
+          {activeView === 'pending' && isModerator ? (
+            <PendingPhotoQueue
+              photos={pendingPhotos}
+              busyPhotoIds={deletingPhotos}
+              onApprove={handleApprove}
+              onReject={handleReject}
+            />
+          ) : activeView === 'duplicates' && isModerator ? (
+            <DuplicatePhotoGroups
+              groups={duplicateGroups}
+              busyPhotoIds={deletingPhotos}
+              onKeep={handleKeepDuplicate}
+              onDismiss={handleDismissDuplicates}
+              onPreview={openPhotoPreview}
+            />
+          ) : activeView === 'trash' && isModerator ? (
+            <TrashedPhotos
+              photos={trashedPhotos}
+              loading={loadingTrash}
+              busyPhotoIds={deletingPhotos}
+              onRestore={handleRestore}
+              onPurge={handlePurge}
+              onPreview={openPhotoPreview}
+            />
+          ) : activeView === 'history' ? (
+            <ModerationHistory
+              collageId={currentCollage.id}
+              photoLookup={historyPhotoLookup}
+            />
+          ) : activeView === 'team' ? (
+            <CollageTeam
+              collageId={currentCollage.id}
+              collageName={currentCollage.name}
+              role={role}
+              onLeft={() => navigate('/dashboard')}
+            />
+          ) : safePhotos.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-6xl mb-4">📸</div>
               <h3 className="text-xl font-bold text-white mb-2">No Photos Yet</h3>
@@ -301,58 +692,202 @@ const CollageModerationPage: React.FC = () => {
               </Link>
             </div>
           ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {safePhotos.map((photo) => (
-                <div
-                  key={photo.id}
-                  className="bg-gray-800 rounded-lg overflow-hidden border border-gray-600 hover:border-gray-500 transition-colors group"
-                  data-photo-id={photo.id}
-                >
-                  <div className="aspect-square relative">
-                    <img
-                      src={photo.url}
-                      alt={`Photo ${photo.id?.slice(-6)}`}
-                      className="w-full h-full object-cover cursor-pointer"
-                      onClick={() => openPhotoPreview(photo)}
-                      data-photo-id={photo.id}
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement;
-                        target.src = 'https://via.placeholder.com/400x400?text=Error+Loading+' + photo.id.slice(-4);
-                      }}
-                    />
-                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2">
+            <>
+              {/* Status Filter + Selection Toolbar */}
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center space-x-1">
+                  {(['all', 'approved', 'pending', 'rejected'] as StatusFilter[]).map(filter => (
+                    <button
+                      key={filter}
+                      onClick={() => changeStatusFilter(filter)}
+                      className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                        statusFilter === filter ? 'bg-white text-gray-900' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {filter === 'all' ? 'All' : PHOTO_STATUS_LABELS[filter]}
+                      {' '}({filter === 'all' ? safePhotos.length : safePhotos.filter(photo => photo.status === filter).length})
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex items-center space-x-2 text-sm">
+                  {!isModerator ? null : selectedIds.size > 0 ? (
+                    <>
+                      <span className="text-white">{selectedIds.size} selected</span>
+                      <input
+                        type="text"
+                        value={bulkReason}
+                        onChange={(e) => setBulkReason(e.target.value)}
+                        placeholder="Reason (optional)"
+                        maxLength={500}
+                        className="w-40 px-2 py-1 bg-gray-800 border border-gray-600 rounded-md text-white placeholder-gray-500"
+                      />
+                      <button
+                        onClick={selectAll}
+                        className="px-2 py-1 text-gray-300 hover:text-white"
+                      >
+                        Select all {filteredPhotos.length}
+                      </button>
                       <button
-                        onClick={() => openPhotoPreview(photo)}
-                        className="p-2 bg-blue-600 rounded-full hover:bg-blue-700 transition-colors"
-                        title="View full size"
+                        onClick={clearSelection}
+                        className="px-2 py-1 text-gray-300 hover:text-white"
                       >
-                        <Eye className="w-4 h-4 text-white" />
+                        Clear
                       </button>
                       <button
-                        onClick={() => handleDeletePhoto(photo.id)}
-                        disabled={deletingPhotos.has(photo.id)}
-                        className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
-                        title="Delete photo"
+                        onClick={() => handleBulkStatus('approved')}
+                        className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors flex items-center space-x-1"
+                      >
+                        <Check className="w-4 h-4" />
+                        <span>Approve</span>
+                      </button>
+                      <button
+                        onClick={() => handleBulkStatus('rejected')}
+                        className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors flex items-center space-x-1"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                        <span>Hide</span>
+                      </button>
+                      <button
+                        onClick={handleBulkDelete}
+                        className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors flex items-center space-x-1"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete</span>
+                      </button>
+                    </>
+                  ) : filteredPhotos.length > 0 && (
+                    <button
+                      onClick={selectAll}
+                      className="px-2 py-1 text-gray-300 hover:text-white flex items-center space-x-1"
+                      title="Select all shown (Ctrl+A) · shift-click to select a range"
+                    >
+                      <CheckSquare className="w-4 h-4" />
+                      <span>Select all {filteredPhotos.length}</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                {filteredPhotos.map((photo) => (
+                  <div
+                    key={photo.id}
+                    className={`bg-gray-800 rounded-lg overflow-hidden border transition-colors group ${
+                      selectedIds.has(photo.id) ? 'border-purple-500 ring-2 ring-purple-500' : 'border-gray-600 hover:border-gray-500'
+                    }`}
+                    data-photo-id={photo.id}
+                  >
+                    <div className="aspect-square relative">
+                      <img
+                        src={getPhotoUrl(photo, 'thumb')}
+                        alt={`Photo ${photo.id?.slice(-6)}`}
+                        className="w-full h-full object-cover cursor-pointer"
+                        onClick={(e) => handlePhotoClick(photo, e)}
+                        data-photo-id={photo.id}
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.src = 'https://via.placeholder.com/400x400?text=Error+Loading+' + photo.id.slice(-4);
+                        }}
+                      />
+                      {!isPhotoApproved(photo) && (
+                        <span className={`absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                          isPhotoPending(photo) ? 'bg-yellow-500 text-black' : 'bg-red-600 text-white'
+                        }`}>
+                          {PHOTO_STATUS_LABELS[photo.status]}
+                        </span>
+                      )}
+                      {photo.safety_held && (
+                        <span
+                          className="absolute bottom-2 left-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-600 text-white flex items-center space-x-1"
+                          title={`Held by content screening: ${describeSafetyHold(photo)}`}
+                        >
+                          <ShieldAlert className="w-3 h-3" />
+                          <span>Flagged</span>
+                        </span>
+                      )}
+                      <div
+                        className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2 cursor-pointer"
+                        onClick={(e) => {
+                          if (e.target === e.currentTarget) handlePhotoClick(photo, e);
+                        }}
                       >
-                        {deletingPhotos.has(photo.id) ? (
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                        <button
+                          onClick={() => openPhotoPreview(photo)}
+                          className="p-2 bg-blue-600 rounded-full hover:bg-blue-700 transition-colors"
+                          title="View full size"
+                        >
+                          <Eye className="w-4 h-4 text-white" />
+                        </button>
+                        {!isModerator ? null : isPhotoApproved(photo) ? (
+                          <button
+                            onClick={() => handleReject(photo)}
+                            disabled={deletingPhotos.has(photo.id)}
+                            className="p-2 bg-gray-600 rounded-full hover:bg-gray-700 transition-colors disabled:opacity-50"
+                            title="Hide from collage"
+                          >
+                            <EyeOff className="w-4 h-4 text-white" />
+                          </button>
                         ) : (
-                          <Trash2 className="w-4 h-4 text-white" />
+                          <button
+                            onClick={() => handleApprove(photo)}
+                            disabled={deletingPhotos.has(photo.id)}
+                            className="p-2 bg-green-600 rounded-full hover:bg-green-700 transition-colors disabled:opacity-50"
+                            title="Approve"
+                          >
+                            <Check className="w-4 h-4 text-white" />
+                          </button>
                         )}
-                      </button>
+                        {isModerator && (
+                          <button
+                            onClick={() => handleDeletePhoto(photo.id)}
+                            disabled={deletingPhotos.has(photo.id)}
+                            className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
+                            title="Move to trash"
+                          >
+                            {deletingPhotos.has(photo.id) ? (
+                              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4 text-white" />
+                            )}
+                          </button>
+                        )}
+                      </div>
+                      {/* Selection checkbox - shift-click selects a range */}
+                      {isModerator && (
+                        <button
+                          onClick={(e) => toggleSelected(photo.id, e.shiftKey)}
+                          className={`absolute top-2 right-2 p-1 rounded bg-black/60 text-white transition-opacity ${
+                            selectedIds.size > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                          }`}
+                          title={selectedIds.has(photo.id) ? 'Deselect' : 'Select (shift-click for a range)'}
+                        >
+                          {selectedIds.has(photo.id) ? (
+                            <CheckSquare className="w-4 h-4 text-purple-300" />
+                          ) : (
+                            <Square className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
+                    </div>
+                    <div className="p-3">
+                      <p className="text-xs text-gray-400">
+                        Uploaded: {new Date(photo.created_at).toLocaleString()}
+                      </p> 
+                      <p className="text-xs font-mono text-gray-500 mt-1" title={photo.id}>
+                        ID: {photo.id?.slice(-6)}
+                      </p>
                     </div>
                   </div>
-                  <div className="p-3">
-                    <p className="text-xs text-gray-400">
-                      Uploaded: {new Date(photo.created_at).toLocaleString()}
-                    </p> 
-                    <p className="text-xs font-mono text-gray-500 mt-1" title={photo.id}>
-                      ID: {photo.id?.slice(-6)}
-                    </p>
-                  </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+
+              {filteredPhotos.length === 0 && (
+                <p className="text-center text-gray-400 py-8">
+                  No {statusFilter === 'all' ? '' : PHOTO_STATUS_LABELS[statusFilter as PhotoStatus].toLowerCase()} photos.
+                </p>
+              )}
+            </>
           )}
         </div>
 
@@ -365,7 +900,7 @@ const CollageModerationPage: React.FC = () => {
               </div>
               <div className="relative">
                 <img
-                  src={selectedPhoto.url}
+                  src={getPhotoUrl(selectedPhoto, 'display')}
                   alt="Full size preview"
                   className="max-w-full max-h-[80vh] object-contain"
                   data-photo-id={selectedPhoto.id}
@@ -378,18 +913,29 @@ const CollageModerationPage: React.FC = () => {
               
               {/* Modal Controls */}
               <div className="absolute top-4 right-4 flex space-x-2">
-                <button
-                  onClick={() => handleDeletePhoto(selectedPhoto.id)}
-                  disabled={deletingPhotos.has(selectedPhoto.id)}
-                  className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
-                  title="Delete photo"
-                >
-                  {deletingPhotos.has(selectedPhoto.id) ? (
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  ) : (
-                    <Trash2 className="w-5 h-5 text-white" />
-                  )}
-                </button>
+                {!isModerator ? null : selectedPhoto.deleted_at ? (
+                  <button
+                    onClick={() => handleRestore([selectedPhoto])}
+                    disabled={deletingPhotos.has(selectedPhoto.id)}
+                    className="p-2 bg-green-600 rounded-full hover:bg-green-700 transition-colors disabled:opacity-50"
+                    title="Restore photo"
+                  >
+                    <RotateCcw className="w-5 h-5 text-white" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleDeletePhoto(selectedPhoto.id)}
+                    disabled={deletingPhotos.has(selectedPhoto.id)}
+                    className="p-2 bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
+                    title="Move to trash"
+                  >
+                    {deletingPhotos.has(selectedPhoto.id) ? (
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    ) : (
+                      <Trash2 className="w-5 h-5 text-white" />
+                    )}
+                  </button>
+                )}
                 <button
                   onClick={closePhotoPreview}
                   className="p-2 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors"
@@ -434,6 +980,16 @@ const CollageModerationPage: React.FC = () => {
         />
       )}
       
+      {/* Undo for the last moderation action */}
+      {lastAction && (
+        <UndoToast
+          message={lastAction.message}
+          onUndo={handleUndo}
+          onDismiss={finishLastAction}
+          undoing={undoing}
+        />
+      )}
+      
       {/* Debug Panel */}
       {showDebugPanel && (
         <div className="fixed bottom-4 right-4 z-20 w-64">
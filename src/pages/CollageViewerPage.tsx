@@ -1,5 +1,5 @@
 // src/pages/CollageViewerPage.tsx - Clean version with transparent header
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { Share2, Upload, Edit, Maximize2, ChevronLeft, Camera, X, Video } from 'lucide-react';
 import { useCollageStore } from '../store/collageStore';
@@ -7,6 +7,10 @@ import { ErrorBoundary } from 'react-error-boundary';
 import CollageScene from '../components/three/CollageScene';
 import PhotoUploader from '../components/collage/PhotoUploader';
 import MobileVideoRecorder from '../components/video/MobileVideoRecorder';
+import PhotoLightbox from '../components/collage/PhotoLightbox';
+import { useShowSequencer } from '../lib/showSequencer';
+import { isPhotoApproved } from '../lib/moderation';
+import { normalizeCollageCode } from '../lib/collageCodes';
 
 // Error fallback component for 3D scene errors
 function SceneErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
@@ -39,11 +43,19 @@ const CollageViewerPage: React.FC = () => {
     error, 
     isRealtimeConnected,
     refreshPhotos,
-    cleanupRealtimeSubscription
+    cleanupRealtimeSubscription,
+    heroQueue,
+    dequeueHeroPhoto
   } = useCollageStore();
   
-  // SAFETY: Ensure photos is always an array
-  const safePhotos = Array.isArray(photos) ? photos : [];
+  // SAFETY: Ensure photos is always an array - only approved photos are shown
+  const safePhotos = useMemo(
+    () => (Array.isArray(photos) ? photos : []).filter(isPhotoApproved),
+    [photos]
+  );
+
+  // Playlist scenes layered over the collage's saved settings
+  const { settings: displaySettings } = useShowSequencer(currentCollage?.settings);
   
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -51,6 +63,8 @@ const CollageViewerPage: React.FC = () => {
   const [controlsVisible, setControlsVisible] = useState(true);
   const [showVideoRecorder, setShowVideoRecorder] = useState(false);
   const [recordingResolution, setRecordingResolution] = useState({ width: 1920, height: 1080 });
+  const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
+  const [showLightbox, setShowLightbox] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const navigate = useNavigate();
 
@@ -62,7 +76,7 @@ const CollageViewerPage: React.FC = () => {
   };
 
   // Normalize code to uppercase for consistent database lookup
-  const normalizedCode = code?.toUpperCase();
+  const normalizedCode = code ? normalizeCollageCode(code) : undefined;
 
   // Load collage on mount
   useEffect(() => {
@@ -85,6 +99,28 @@ const CollageViewerPage: React.FC = () => {
     }
   }, [currentCollage?.id, refreshPhotos]);
 
+  // Picking a photo pauses the scene and flies to it; the lightbox opens once the camera arrives
+  // Looked up from the store so a photo deleted while open simply closes
+  const selectedPhoto = selectedPhotoId
+    ? safePhotos.find(photo => photo.id === selectedPhotoId) || null
+    : null;
+
+  const handlePhotoSelect = useCallback((photo: { id: string }) => {
+    setSelectedPhotoId(photo.id);
+    setShowLightbox(false);
+  }, []);
+
+  const handleLightboxClose = useCallback(() => {
+    setShowLightbox(false);
+    setSelectedPhotoId(null);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedPhotoId) return;
+    const timer = setTimeout(() => setShowLightbox(true), 900);
+    return () => clearTimeout(timer);
+  }, [selectedPhotoId]);
+
   // Handle fullscreen toggle
   const toggleFullscreen = async () => {
     try {
@@ -200,12 +236,16 @@ const CollageViewerPage: React.FC = () => {
         <CollageScene
           ref={canvasRef}
           photos={safePhotos}
-          settings={currentCollage.settings}
+          settings={displaySettings || currentCollage.settings}
           width={recordingResolution.width}
           height={recordingResolution.height}
           onSettingsChange={(newSettings) => {
             console.log('🎛️ Settings changed from viewer:', newSettings);
           }}
+          heroPhotoId={heroQueue[0] ?? null}
+          onHeroPhotoComplete={dequeueHeroPhoto}
+          onPhotoSelect={handlePhotoSelect}
+          focusedPhotoId={selectedPhoto?.id ?? null}
         />
       </ErrorBoundary>
 
@@ -292,6 +332,11 @@ const CollageViewerPage: React.FC = () => {
         </div>
       )}
 
+      {/* Picked Photo Lightbox */}
+      {selectedPhoto && showLightbox && (
+        <PhotoLightbox photo={selectedPhoto} onClose={handleLightboxClose} />
+      )}
+
       {/* Photo Uploader Modal */}
       {showUploader && (
         <div 
@@ -316,7 +361,7 @@ const CollageViewerPage: React.FC = () => {
                 {/* Upload Instructions */}
                 <div className="text-center text-gray-300 text-sm">
                   <p>Share your photos with the collage!</p>
-                  <p className="text-gray-400 text-xs mt-1">Supported: JPG, PNG, GIF, WebP (max 10MB)</p>
+                  <p className="text-gray-400 text-xs mt-1">Supported: JPG, PNG, GIF, WebP, HEIC (max 40MB)</p>
                 </div>
                 
                 {/* Photo Uploader Component */}
@@ -0,0 +1,59 @@
+// src/pages/ForbiddenPage.tsx - 403 for signed-in users without access
+// Shown in place of a guarded page, so the URL stays put and signing in with the right account
+// brings the user straight back.
+import React from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Lock, ChevronLeft } from 'lucide-react';
+import Layout from '../components/layout/Layout';
+import { useAuthStore } from '../store/authStore';
+import { loginPath } from '../lib/authRedirect';
+
+interface ForbiddenPageProps {
+  message?: string;
+}
+
+const ForbiddenPage: React.FC<ForbiddenPageProps> = ({ message }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user, signOut } = useAuthStore();
+
+  const handleSwitchAccount = async () => {
+    await signOut();
+    navigate(loginPath(location.pathname + location.search + location.hash), { replace: true });
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <Lock className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+          <p className="text-sm font-mono text-gray-500 mb-2">403</p>
+          <h2 className="text-2xl font-bold text-white mb-4">No Access</h2>
+          <p className="text-gray-400 mb-2">
+            {message || "You don't have access to this page."}
+          </p>
+          {user?.email && (
+            <p className="text-gray-500 text-sm mb-6">Signed in as {user.email}</p>
+          )}
+          <div className="flex justify-center space-x-2">
+            <Link
+              to="/dashboard"
+              className="inline-flex items-center px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors"
+            >
+              <ChevronLeft className="w-4 h-4 mr-2" />
+              My Collages
+            </Link>
+            <button
+              onClick={handleSwitchAccount}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors"
+            >
+              Use Another Account
+            </button>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ForbiddenPage;
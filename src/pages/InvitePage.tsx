@@ -0,0 +1,145 @@
+// src/pages/InvitePage.tsx - Accept an invite to help run a collage
+// The link carries the invite token. Anyone can see what it's for; accepting needs the account
+// the invite was sent to.
+import React, { useEffect, useState } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { Users, AlertCircle } from 'lucide-react';
+import Layout from '../components/layout/Layout';
+import { useAuthStore } from '../store/authStore';
+import { loginPath } from '../lib/authRedirect';
+import {
+  fetchInvite,
+  acceptInvite,
+  COLLAGE_ROLE_LABELS,
+  COLLAGE_ROLE_DESCRIPTIONS,
+  type InviteDetails
+} from '../lib/collageRoles';
+
+const InvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  // Who's signed in decides whether the invite can be accepted here
+  const userEmail = useAuthStore(state => state.user?.email ?? null);
+  const authReady = useAuthStore(state => state.initialized);
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    fetchInvite(token)
+      .then(details => { if (!cancelled) setInvite(details); })
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Failed to load the invite'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token || !invite) return;
+    setAccepting(true);
+    setError(null);
+    try {
+      const collageId = await acceptInvite(token);
+      // Co-hosts land in the editor, everyone else on the moderation page
+      navigate(invite.role === 'co_host' ? `/dashboard/collage/${collageId}` : `/collage/${collageId}/moderation`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to accept the invite');
+      setAccepting(false);
+    }
+  };
+
+  const expired = invite ? new Date(invite.expires_at).getTime() < Date.now() : false;
+  const wrongAccount = !!invite && !!userEmail && userEmail.toLowerCase() !== invite.email.toLowerCase();
+
+  return (
+    <Layout>
+      <div className="min-h-[calc(100vh-160px)] flex items-center justify-center py-12 px-4">
+        <div className="max-w-md w-full bg-gray-900/80 border border-gray-700 rounded-lg p-6 text-center">
+          {loading || !authReady ? (
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+          ) : !invite ? (
+            <>
+              <AlertCircle className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Invite Not Found</h1>
+              <p className="text-gray-400">
+                {error || 'This invite link is not valid. Ask the collage owner for a new one.'}
+              </p>
+            </>
+          ) : invite.accepted_at ? (
+            <>
+              <AlertCircle className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Invite Already Used</h1>
+              <p className="text-gray-400 mb-6">
+                This invite to "{invite.collage_name}" has already been accepted.
+              </p>
+              <Link to="/dashboard" className="text-purple-400 hover:text-purple-300">
+                Go to your collages
+              </Link>
+            </>
+          ) : expired ? (
+            <>
+              <AlertCircle className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Invite Expired</h1>
+              <p className="text-gray-400">
+                Ask the owner of "{invite.collage_name}" to invite you again.
+              </p>
+            </>
+          ) : (
+            <>
+              <Users className="w-12 h-12 text-purple-400 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Join "{invite.collage_name}"</h1>
+              <p className="text-gray-300 mb-1">
+                You've been invited as <span className="font-medium text-white">{COLLAGE_ROLE_LABELS[invite.role].toLowerCase()}</span>.
+              </p>
+              <p className="text-gray-400 text-sm mb-6">{COLLAGE_ROLE_DESCRIPTIONS[invite.role]}</p>
+
+              {error && (
+                <p className="text-red-300 text-sm mb-4">{error}</p>
+              )}
+
+              {!userEmail ? (
+                <>
+                  <p className="text-gray-400 text-sm mb-4">
+                    Sign in or create an account with <span className="text-white">{invite.email}</span> to accept.
+                  </p>
+                  <div className="flex justify-center space-x-2">
+                    <Link
+                      to={loginPath(`/invite/${token}`)}
+                      className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md transition-colors"
+                    >
+                      Sign In
+                    </Link>
+                    <Link
+                      to={loginPath(`/invite/${token}`, '/signup')}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors"
+                    >
+                      Create Account
+                    </Link>
+                  </div>
+                </>
+              ) : wrongAccount ? (
+                <p className="text-yellow-300 text-sm">
+                  You're signed in as {userEmail}, but this invite is for {invite.email}. Sign in with that address to accept it.
+                </p>
+              ) : (
+                <button
+                  onClick={handleAccept}
+                  disabled={accepting}
+                  className="px-6 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-md transition-colors"
+                >
+                  {accepting ? 'Joining...' : 'Accept Invite'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default InvitePage;
@@ -1,15 +1,32 @@
 // src/pages/JoinCollage.tsx - FIXED: Use uppercase codes consistently
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ArrowRight } from 'lucide-react';
 import Layout from '../components/layout/Layout';
+import UploadAccessPrompt from '../components/collage/UploadAccessPrompt';
+import { useCollageStore, type Collage } from '../store/collageStore';
+import { useUploadAccess } from '../lib/uploadAccess';
+import { normalizeCollageCode, COLLAGE_CODE_MAX_LENGTH } from '../lib/collageCodes';
 
 const JoinCollage: React.FC = () => {
   const [code, setCode] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [collage, setCollage] = useState<Collage | null>(null);
   const navigate = useNavigate();
+  const { fetchCollageByCode } = useCollageStore();
+  // Check the upload policy here, so a PIN or closed uploads show up before the camera page
+  const { access, loading: accessLoading, submitPin } = useUploadAccess(collage?.id);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useEffect(() => {
+    // A failed check still goes through - the photobooth checks again
+    if (collage && !accessLoading && (!access || access.allowed)) {
+      console.log('🔍 Navigating to photobooth with code:', collage.code);
+      navigate(`/photobooth/${collage.code}`);
+    }
+  }, [collage, access, accessLoading, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     
@@ -18,10 +35,17 @@ const JoinCollage: React.FC = () => {
       return;
     }
     
-    // FIXED: Navigate with uppercase code to match database format
-    const normalizedCode = code.trim().toUpperCase();
-    console.log('🔍 Navigating to photobooth with code:', normalizedCode);
-    navigate(`/photobooth/${normalizedCode}`);
+    // FIXED: Look up with the stored format - upper-case, no spaces or dashes
+    const normalizedCode = normalizeCollageCode(code);
+    setChecking(true);
+    const found = await fetchCollageByCode(normalizedCode);
+    setChecking(false);
+
+    if (!found) {
+      setError(`No collage found with code "${normalizedCode}". Please check the code and try again.`);
+      return;
+    }
+    setCollage(found);
   };
 
   // Auto-convert input to uppercase for better UX
@@ -47,33 +71,55 @@ const JoinCollage: React.FC = () => {
             </div>
           )}
           
-          <form onSubmit={handleSubmit}>
-            <div className="mb-6">
-              <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-2">
-                Collage Code
-              </label>
-              <input
-                id="code"
-                type="text"
-                value={code}
-                onChange={handleInputChange}
-                placeholder="Enter code (e.g. ABC12345)"
-                className="w-full p-3 bg-black/30 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent uppercase tracking-wider"
-                maxLength={8}
-              />
-              <p className="text-xs text-gray-400 mt-1">
-                Codes are automatically converted to uppercase
-              </p>
+          {collage && access && !access.allowed ? (
+            <div className="space-y-4">
+              <p className="text-gray-400 text-sm text-center">{collage.name}</p>
+              <UploadAccessPrompt access={access} onSubmitPin={submitPin} />
+              <div className="flex space-x-2 pt-2">
+                <button
+                  onClick={() => navigate(`/collage/${collage.code}`)}
+                  className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
+                >
+                  View Collage
+                </button>
+                <button
+                  onClick={() => setCollage(null)}
+                  className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
+                >
+                  Try Another Code
+                </button>
+              </div>
             </div>
-            
-            <button
-              type="submit"
-              className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-purple-600 to-blue-500 hover:from-purple-700 hover:to-blue-600 focus:outline-none focus:ring-2 focus:ring-purple-500"
-            >
-              Join Collage
-              <ArrowRight className="ml-2 h-4 w-4" />
-            </button>
-          </form>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="mb-6">
+                <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-2">
+                  Collage Code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  value={code}
+                  onChange={handleInputChange}
+                  placeholder="Enter code (e.g. K7PQ or SMITHWEDDING)"
+                  className="w-full p-3 bg-black/30 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent uppercase tracking-wider"
+                  maxLength={COLLAGE_CODE_MAX_LENGTH + 4}
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Codes are automatically converted to uppercase
+                </p>
+              </div>
+              
+              <button
+                type="submit"
+                disabled={checking || !!collage}
+                className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-purple-600 to-blue-500 hover:from-purple-700 hover:to-blue-600 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-70"
+              >
+                {checking || collage ? 'Checking...' : 'Join Collage'}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </button>
+            </form>
+          )}
           
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-400">
@@ -4,6 +4,10 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { Camera, SwitchCamera, Download, Send, X, RefreshCw, Type, ArrowLeft, Settings, Video, Palette, AlignCenter, AlignLeft, AlignRight, Move, ZoomIn, ZoomOut } from 'lucide-react';
 import { useCollageStore } from '../store/collageStore';
 import MobileVideoRecorder from '../components/video/MobileVideoRecorder';
+import { isPhotoApproved } from '../lib/moderation';
+import { useUploadAccess, UploadDeniedError } from '../lib/uploadAccess';
+import { normalizeCollageCode } from '../lib/collageCodes';
+import UploadAccessPrompt from '../components/collage/UploadAccessPrompt';
 
 type VideoDevice = {
   deviceId: string;
@@ -64,12 +68,15 @@ const PhotoboothPage: React.FC = () => {
   
   const [showError, setShowError] = useState(false);
   const { currentCollage, fetchCollageByCode, uploadPhoto, setupRealtimeSubscription, cleanupRealtimeSubscription, loading, error: storeError, photos } = useCollageStore();
+  // PIN, upload window and limits - the camera only opens once this guest can upload
+  const { access: uploadAccess, loading: accessLoading, refresh: refreshUploadAccess, submitPin } = useUploadAccess(currentCollage?.id);
+  const uploadBlocked = !!uploadAccess && !uploadAccess.allowed;
 
   const textOverlayRef = useRef<HTMLDivElement>(null);
   const photoContainerRef = useRef<HTMLDivElement>(null);
   
-  const safePhotos = Array.isArray(photos) ? photos : [];
-  const normalizedCode = code?.toUpperCase();
+  const safePhotos = Array.isArray(photos) ? photos.filter(isPhotoApproved) : [];
+  const normalizedCode = code ? normalizeCollageCode(code) : undefined;
 
   // Text style presets
   const textStylePresets = [
@@ -951,8 +958,11 @@ const PhotoboothPage: React.FC = () => {
         setSelectedTextId(null);
         setShowTextStylePanel(false);
         
-        setError('Photo uploaded successfully! Your photo will appear in the collage automatically.');
+        setError(result.status === 'pending'
+          ? 'Photo uploaded successfully! It will appear in the collage once the host approves it.'
+          : 'Photo uploaded successfully! Your photo will appear in the collage automatically.');
         setTimeout(() => setError(null), 3000);
+        refreshUploadAccess(); // This may have been the device's last photo
         
         // Ensure camera restarts immediately after upload
         console.log('🔄 Restarting camera after upload...');
@@ -965,10 +975,12 @@ const PhotoboothPage: React.FC = () => {
       }
     } catch (err: any) {
       setError(err.message || 'Failed to upload photo');
+      // The window closed or a limit was hit since the page loaded - show why instead of the camera
+      if (err instanceof UploadDeniedError) refreshUploadAccess();
     } finally {
       setUploading(false);
     }
-  }, [photo, currentCollage, uploadPhoto, startCamera, selectedDevice, textElements, renderTextToCanvas, cleanupCamera]);
+  }, [photo, currentCollage, uploadPhoto, startCamera, selectedDevice, textElements, renderTextToCanvas, cleanupCamera, refreshUploadAccess]);
 
   const downloadPhoto = useCallback(async () => {
     if (!photo) return;
@@ -1174,8 +1186,13 @@ const PhotoboothPage: React.FC = () => {
     };
   }, [currentCollage?.id, setupRealtimeSubscription, cleanupRealtimeSubscription]);
 
+  // Release the camera while uploads are refused
   useEffect(() => {
-    if (currentCollage && !photo && cameraState === 'idle' && !isInitializingRef.current) {
+    if (uploadBlocked) cleanupCamera();
+  }, [uploadBlocked, cleanupCamera]);
+
+  useEffect(() => {
+    if (currentCollage && !accessLoading && !uploadBlocked && !photo && cameraState === 'idle' && !isInitializingRef.current) {
       console.log('🚀 Initializing camera...');
       
       // Try to start camera immediately without waiting for device selection
@@ -1191,10 +1208,10 @@ const PhotoboothPage: React.FC = () => {
       
       return () => clearTimeout(timer);
     }
-  }, [photo, cameraState, startCamera, selectedDevice, currentCollage]);
+  }, [photo, cameraState, startCamera, selectedDevice, currentCollage, accessLoading, uploadBlocked]);
 
   useEffect(() => {
-    if (cameraState === 'error' && currentCollage) {
+    if (cameraState === 'error' && currentCollage && !uploadBlocked) {
       console.log('🔄 Setting up auto-retry for camera error...');
       const retryTimer = setTimeout(() => {
         console.log('🔄 Auto-retrying camera initialization...');
@@ -1203,7 +1220,7 @@ const PhotoboothPage: React.FC = () => {
       
       return () => clearTimeout(retryTimer);
     }
-  }, [cameraState, startCamera, selectedDevice, currentCollage]);
+  }, [cameraState, startCamera, selectedDevice, currentCollage, uploadBlocked]);
 
   useEffect(() => {
     return () => {
@@ -1216,7 +1233,7 @@ const PhotoboothPage: React.FC = () => {
     const handleVisibilityChange = () => {
       if (!document.hidden) {
         console.log('📱 Page visible, resuming camera...');
-        if (!photo && cameraState === 'idle') {
+        if (!photo && cameraState === 'idle' && !uploadBlocked) {
           setTimeout(() => startCamera(selectedDevice), 500);
         }
       }
@@ -1224,9 +1241,9 @@ const PhotoboothPage: React.FC = () => {
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [photo, cameraState, startCamera, selectedDevice]);
+  }, [photo, cameraState, startCamera, selectedDevice, uploadBlocked]);
 
-  if (loading || (!currentCollage && !storeError)) {
+  if (loading || (!currentCollage && !storeError) || (currentCollage && accessLoading)) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black text-white">
         <div className="min-h-screen flex items-center justify-center">
@@ -1289,6 +1306,27 @@ const PhotoboothPage: React.FC = () => {
     );
   }
 
+  if (uploadAccess && !uploadAccess.allowed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black text-white">
+        <div className="min-h-screen flex items-center justify-center px-4">
+          <div className="w-full max-w-md">
+            <div className="bg-gray-900/80 border border-gray-700 rounded-lg p-6">
+              <p className="text-gray-400 text-sm text-center mb-6">{currentCollage.name} • Code: {currentCollage.code}</p>
+              <UploadAccessPrompt access={uploadAccess} onSubmitPin={submitPin} />
+            </div>
+            <button
+              onClick={() => navigate(`/collage/${currentCollage.code}`)}
+              className="w-full mt-4 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+            >
+              View Collage
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black text-white" style={{ paddingBottom: showTextStylePanel ? '300px' : '0' }}>
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4 min-h-screen">
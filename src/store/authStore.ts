@@ -19,6 +19,8 @@ type AuthState = {
   clearError: () => void;
 };
 
+let initializePromise: Promise<void> | null = null;
+
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   session: null,
@@ -156,56 +158,49 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   initialize: async () => {
-    set({ loading: true, error: null });
-    
-    // Check if already initialized to prevent duplicate initialization
-    const state = get();
-    if (state.initialized) {
-      set({ loading: false });
-      return;
-    }
-    
-    try {
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      
-      if (sessionError) {
-        set({ 
-          loading: false, 
-          initialized: true,
-          error: sessionError.message
-        });
-        return;
-      }
-      
-      if (session && session.user) {
-        set({ 
-          user: session.user,
-          session,
-          loading: false,
-          initialized: true
-        });
-        return;
-      }
-      
-      // Set up auth state listener
-      supabase.auth.onAuthStateChange((event, session) => {
-        set({ 
-          user: session?.user || null,
-          session
+    // FIXED: Route guards and the app shell both call this - share one run instead of racing
+    if (get().initialized) return;
+    if (!initializePromise) {
+      initializePromise = (async () => {
+        set({ loading: true, error: null });
+
+        // FIXED: Subscribe before reading the session. Returning early for a restored session used
+        // to skip this, so later sign-outs and token refreshes never reached the store.
+        supabase.auth.onAuthStateChange((event, session) => {
+          set({
+            user: session?.user || null,
+            session
+          });
         });
-      });
-      
-      set({ 
-        loading: false, 
-        initialized: true,
-        error: null
-      });
-    } catch (err: any) {
-      set({ 
-        loading: false, 
-        initialized: true,
-        error: err.message
-      });
+
+        try {
+          const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+          if (sessionError) {
+            set({
+              loading: false,
+              initialized: true,
+              error: sessionError.message
+            });
+            return;
+          }
+
+          set({
+            user: session?.user || null,
+            session,
+            loading: false,
+            initialized: true,
+            error: null
+          });
+        } catch (err: any) {
+          set({
+            loading: false,
+            initialized: true,
+            error: err.message
+          });
+        }
+      })();
     }
+    return initializePromise;
   },
 }));
\ No newline at end of file
@@ -1,8 +1,21 @@
 // src/store/collageStore.ts - FIXED: Proper photo deletion without optimistic updates
 import { create } from 'zustand';
-import { supabase } from '../lib/supabase';
+import { supabase, uploadFileWithProgress, type UploadProgressHandler } from '../lib/supabase';
 import { nanoid } from 'nanoid';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { migrateSceneSettings, SCENE_SETTINGS_VERSION, type SceneSettings } from '../lib/sceneSettings';
+import { createPhotoDerivatives } from '../lib/photoDerivatives';
+import { normalizeImage, getMaxUploadDimension, MAX_UPLOAD_SIZE } from '../lib/imageNormalizer';
+import { isPhotoApproved, DEFAULT_MODERATION_MODE, type ModerationMode, type PhotoStatus } from '../lib/moderation';
+import { screenImage, type SafetyLabel } from '../lib/contentSafety';
+import { withModerationReason } from '../lib/moderationEvents';
+import { checkUploadAccess, uploadAccessHeaders, withUploadAccess, toUploadDeniedError, UploadDeniedError } from '../lib/uploadAccess';
+import { normalizeCollageCode, describeCollageCodeError } from '../lib/collageCodes';
+import type { CollageRole } from '../lib/collageRoles';
+import { computePerceptualHash, DuplicatePhotoError, DUPLICATE_FLAG_DISTANCE, DUPLICATE_REJECT_DISTANCE } from '../lib/perceptualHash';
+
+// Most new photos hero photo mode will hold in its queue
+const MAX_HERO_QUEUE = 20;
 
 // Helper function to get file URL
 const getFileUrl = (bucket: string, path: string): string => {
@@ -10,6 +23,31 @@ const getFileUrl = (bucket: string, path: string): string => {
   return data.publicUrl;
 };
 
+// Storage path inside the photos bucket for a public photo URL
+const getStoragePath = (url: string): string | null => {
+  try {
+    const pathParts = new URL(url).pathname.split('/');
+    const storagePathIndex = pathParts.findIndex(part => part === 'photos');
+    return storagePathIndex !== -1 ? pathParts.slice(storagePathIndex + 1).join('/') : null;
+  } catch (urlError) {
+    console.warn('⚠️ Could not parse photo URL for storage cleanup:', urlError);
+    return null;
+  }
+};
+
+// PostgREST puts `.in()` filters in the URL - keep bulk requests well under URL length limits
+const ID_BATCH_SIZE = 100;
+// Storage accepts at most 1000 paths per remove call
+const STORAGE_REMOVE_BATCH_SIZE = 1000;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
 // Helper for deep merging objects
 function deepMerge(target: any, source: any): any {
   const output = { ...target };
@@ -23,38 +61,21 @@ function deepMerge(target: any, source: any): any {
   return output;
 }
 
-// Default scene settings
-const defaultSettings = {
-  animationPattern: 'grid_wall',
-  photoCount: 100,
-  animationSpeed: 50,
-  cameraDistance: 15,
-  cameraHeight: 8,
-  cameraRotationSpeed: 20,
-  photoSize: 1.0,
-  photoBrightness: 1.0,
-  backgroundColor: '#000000',
-  backgroundGradient: true,
-  backgroundGradientStart: '#1a1a2e',
-  backgroundGradientEnd: '#16213e',
-  backgroundGradientAngle: 45,
-  floorColor: '#111111',
-  showFloor: true,
-  showGrid: true,
-  ambientLightIntensity: 0.4,
-  spotlightIntensity: 0.8,
-  patterns: {
-    grid_wall: { enabled: true },
-    float: { enabled: false },
-    wave: { enabled: false },
-    spiral: { enabled: false }
-  }
-};
-
 export interface Photo {
   id: string;
   collage_id: string;
-  url: string;
+  url: string; // Original upload
+  thumbnail_url?: string | null; // 256px - null for photos uploaded before derivatives
+  display_url?: string | null; // 1024px
+  phash?: string | null; // 64-bit dHash as hex - null for photos uploaded before hashing
+  duplicate_of?: string | null; // Earlier photo this one probably duplicates
+  status: PhotoStatus; // Viewers only render approved photos
+  safety_labels?: SafetyLabel[] | null; // Content safety scores - null if the photo wasn't screened
+  safety_provider?: string | null;
+  safety_held?: boolean; // Screening flagged it, so it was inserted as pending
+  moderated_at?: string | null;
+  deleted_at?: string | null; // Set while the photo is in the trash
+  upload_device?: string | null; // Guest device id, for the per-device upload limit
   created_at: string;
 }
 
@@ -63,30 +84,19 @@ export interface Collage {
   name: string;
   code: string;
   created_at: string;
-  settings: any;
+  user_id: string | null; // Owner - only they can change or delete the collage
+  uploads_enabled: boolean; // Guests can add photos while true
+  moderation_mode: ModerationMode;
+  settings: SceneSettings;
+  role?: CollageRole; // The signed-in user's role - set on the dashboard list
 }
 
-export interface SceneSettings {
-  animationPattern?: string;
-  patterns?: any;
-  photoCount?: number;
-  animationSpeed?: number;
-  cameraDistance?: number;
-  cameraHeight?: number;
-  cameraRotationSpeed?: number;
-  photoSize?: number;
-  photoBrightness?: number;
-  backgroundColor?: string;
-  backgroundGradient?: boolean;
-  backgroundGradientStart?: string;
-  backgroundGradientEnd?: string;
-  backgroundGradientAngle?: number;
-  floorColor?: string;
-  showFloor?: boolean;
-  showGrid?: boolean;
-  ambientLightIntensity?: number;
-  spotlightIntensity?: number;
-  [key: string]: any;
+export type { SceneSettings, ModerationMode, PhotoStatus };
+
+export interface UploadPhotoOptions {
+  onProgress?: UploadProgressHandler; // Bytes sent across the original and its derivatives
+  signal?: AbortSignal; // Aborting removes anything already stored
+  normalized?: boolean; // File already went through normalizeImage
 }
 
 interface CollageStore {
@@ -101,16 +111,29 @@ interface CollageStore {
   isRealtimeConnected: boolean;
   lastRefreshTime: number;
   pollingInterval: NodeJS.Timeout | null;
+  heroQueue: string[]; // New photo IDs waiting to be featured by hero photo mode
+  trashedPhotos: Photo[]; // Deleted photos of the current collage, newest deletion first - loaded by fetchTrashedPhotos
 
   // Actions
   fetchCollages: () => Promise<void>;
   fetchCollageByCode: (code: string) => Promise<Collage | null>;
   fetchCollageById: (id: string) => Promise<Collage | null>;
-  createCollage: (name: string) => Promise<Collage | null>;
+  // Leave code out to have the database pick one
+  createCollage: (name: string, code?: string) => Promise<Collage | null>;
   updateCollageSettings: (collageId: string, settings: Partial<SceneSettings>) => Promise<any>;
   updateCollageName: (collageId: string, name: string) => Promise<any>;
-  uploadPhoto: (collageId: string, file: File) => Promise<Photo | null>;
-  deletePhoto: (photoId: string) => Promise<void>;
+  updateCollageCode: (collageId: string, code: string) => Promise<string>;
+  uploadPhoto: (collageId: string, file: File, options?: UploadPhotoOptions) => Promise<Photo | null>;
+  // Moderation actions take an optional reason for the audit log
+  deletePhoto: (photoId: string, reason?: string) => Promise<void>;
+  deletePhotos: (photoIds: string[], reason?: string) => Promise<void>;
+  restorePhotos: (photoIds: string[], reason?: string) => Promise<void>;
+  purgePhotos: (photoIds: string[], reason?: string) => Promise<number>;
+  fetchTrashedPhotos: (collageId: string) => Promise<void>;
+  dismissDuplicates: (photoIds: string[], reason?: string) => Promise<void>;
+  setPhotoStatus: (photoIds: string[], status: PhotoStatus, reason?: string) => Promise<void>;
+  updateModerationMode: (collageId: string, mode: ModerationMode) => Promise<void>;
+  updateUploadsEnabled: (collageId: string, enabled: boolean) => Promise<void>;
   fetchPhotosByCollageId: (collageId: string) => Promise<void>;
   refreshPhotos: (collageId: string) => Promise<void>;
   
@@ -121,6 +144,7 @@ interface CollageStore {
   // Internal methods
   addPhotoToState: (photo: Photo) => void;
   removePhotoFromState: (photoId: string) => void;
+  dequeueHeroPhoto: (photoId: string) => void;
   startPolling: (collageId: string) => void;
   stopPolling: () => void;
 }
@@ -137,6 +161,8 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   isRealtimeConnected: false,
   lastRefreshTime: 0,
   pollingInterval: null,
+  heroQueue: [],
+  trashedPhotos: [],
 
   // Add photo to state - ENHANCED
   addPhotoToState: (photo: Photo) => {
@@ -162,10 +188,18 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       
       console.log('➕ New photo count AFTER:', newPhotos.length);
       
+      // Queue the photo for hero photo mode - capped so a burst can't back up for hours.
+      // Pending photos are queued when they're approved instead.
+      const heroEnabled = !!state.currentCollage?.settings.heroPhoto?.enabled && isPhotoApproved(photo);
+      const heroQueue = heroEnabled && state.heroQueue.length < MAX_HERO_QUEUE
+        ? [...state.heroQueue, photo.id]
+        : state.heroQueue;
+
       // Add new photo at the beginning (most recent first)
       const newState = {
         photos: newPhotos,
         photosById: newPhotosById,
+        heroQueue,
         lastRefreshTime: Date.now()
       };
       
@@ -176,6 +210,12 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     console.log('➕ AFTER addPhotoToState - Current photos count:', get().photos.length);
   },
 
+  dequeueHeroPhoto: (photoId: string) => {
+    set((state) => ({
+      heroQueue: state.heroQueue.filter(id => id !== photoId)
+    }));
+  },
+
   // Remove photo from state - ENHANCED
   removePhotoFromState: (photoId: string) => {
     console.log('🗑️ BEFORE removePhotoFromState - Current photos count:', get().photos.length);
@@ -265,23 +305,69 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
                 
                 // CRITICAL: Force immediate state update for deletions
                 get().removePhotoFromState(photoId);
+                set((state) => ({ trashedPhotos: state.trashedPhotos.filter(p => p.id !== photoId) }));
               } catch (error) {
                 console.error('❌ Error handling DELETE event:', error);
               }
               
             }
             else if (payload.eventType === 'UPDATE' && payload.new) {
-              console.log('📝 REALTIME UPDATE:', payload.new.id.slice(-6), 'for collage:', collageId);
-              // Handle photo updates if needed
-              set((state) => ({
-                photos: state.photos.map(p => 
-                  p.id === payload.new.id ? payload.new as Photo : p
-                ),
-                lastRefreshTime: Date.now()
-              }));
+              console.log('📝 REALTIME UPDATE:', payload.new.id.slice(-6), 'for collage:', collageId, 'status:', payload.new.status);
+              const updated = payload.new as Photo;
+              const previous = get().photosById.get(updated.id);
+
+              // Moved to the trash - gone for viewers, listed in the moderation Trash tab
+              if (updated.deleted_at) {
+                get().removePhotoFromState(updated.id);
+                get().dequeueHeroPhoto(updated.id);
+                set((state) => ({
+                  trashedPhotos: [updated, ...state.trashedPhotos.filter(p => p.id !== updated.id)]
+                }));
+                return;
+              }
+
+              // A photo we couldn't see before (e.g. just approved or restored) arrives as an UPDATE
+              if (!previous) {
+                set((state) => ({ trashedPhotos: state.trashedPhotos.filter(p => p.id !== updated.id) }));
+                get().addPhotoToState(updated);
+                return;
+              }
+
+              set((state) => {
+                const newPhotosById = new Map(state.photosById);
+                newPhotosById.set(updated.id, updated);
+
+                // Approval is the moment a pre-moderated photo goes live - feature it then
+                let heroQueue = state.heroQueue;
+                const heroEnabled = !!state.currentCollage?.settings.heroPhoto?.enabled;
+                if (!isPhotoApproved(updated)) {
+                  heroQueue = heroQueue.filter(id => id !== updated.id);
+                } else if (heroEnabled && !isPhotoApproved(previous) && heroQueue.length < MAX_HERO_QUEUE) {
+                  heroQueue = [...heroQueue, updated.id];
+                }
+
+                return {
+                  photos: state.photos.map(p => 
+                    p.id === updated.id ? updated : p
+                  ),
+                  photosById: newPhotosById,
+                  heroQueue,
+                  lastRefreshTime: Date.now()
+                };
+              });
             }
           }
         )
+        // Guests and viewers can't read hidden or trashed photos, so they get no UPDATE for them -
+        // the database broadcasts the id instead. The team also gets the UPDATE, which wins.
+        .on('broadcast', { event: 'photo_hidden' }, ({ payload }) => {
+          const photo = payload?.id ? get().photosById.get(payload.id) : undefined;
+          if (!photo || !isPhotoApproved(photo) || photo.deleted_at) return;
+
+          console.log('🙈 REALTIME HIDDEN:', photo.id.slice(-6), 'for collage:', collageId);
+          get().removePhotoFromState(photo.id);
+          get().dequeueHeroPhoto(photo.id);
+        })
         .subscribe((status) => {
           console.log('🔔 Realtime status:', status);
           const connected = status === 'SUBSCRIBED';
@@ -321,7 +407,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       }
     }
     
-    set({ realtimeChannel: null, isRealtimeConnected: false });
+    set({ realtimeChannel: null, isRealtimeConnected: false, heroQueue: [] });
     get().stopPolling();
   },
 
@@ -365,6 +451,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
         .from('photos')
         .select('*')
         .eq('collage_id', collageId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -396,23 +483,52 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   fetchCollages: async () => {
     set({ loading: true, error: null });
     try {
+      // Everyone can read every collage by code - the dashboard lists the user's own collages
+      // and the ones they've joined through an invite
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        set({ collages: [], loading: false });
+        return;
+      }
+
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('collage_members')
+        .select('collage_id, role')
+        .eq('user_id', user.id);
+
+      if (membershipsError) throw membershipsError;
+
+      const memberRoles = new Map((memberships || []).map(member => [member.collage_id, member.role as CollageRole]));
+      const ownedOrJoined = memberRoles.size > 0
+        ? `user_id.eq.${user.id},id.in.(${Array.from(memberRoles.keys()).join(',')})`
+        : `user_id.eq.${user.id}`;
+
       const { data, error } = await supabase
         .from('collages')
         .select('*')
+        .or(ownedOrJoined)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      set({ collages: data as Collage[], loading: false });
+      set({
+        collages: (data || []).map(collage => ({
+          ...collage,
+          role: collage.user_id === user.id ? 'owner' : memberRoles.get(collage.id)
+        })) as Collage[],
+        loading: false
+      });
     } catch (error: any) {
       set({ error: error.message, loading: false });
     }
   },
 
   // FIXED: fetchCollageByCode - Handle missing collages properly
-  fetchCollageByCode: async (code: string) => {
+  fetchCollageByCode: async (rawCode: string) => {
     set({ loading: true, error: null, photos: [] });
     
     try {
+      // Codes are stored upper-case without spaces or dashes
+      const code = normalizeCollageCode(rawCode);
       console.log('🔍 Fetching collage by code:', code);
 
       // FIXED: Use .maybeSingle() instead of .single() to handle 0 rows
@@ -449,10 +565,17 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
 
       const collageWithSettings = {
         ...collage,
-        settings: settings?.settings ? deepMerge(defaultSettings, settings.settings) : defaultSettings
+        moderation_mode: collage.moderation_mode === 'pre' ? 'pre' : DEFAULT_MODERATION_MODE,
+        settings: migrateSceneSettings(settings?.settings)
       } as Collage;
 
-      set({ currentCollage: collageWithSettings, loading: false, error: null });
+      set((state) => ({
+        currentCollage: collageWithSettings,
+        // Another collage's trash doesn't belong here
+        trashedPhotos: state.currentCollage?.id === collageWithSettings.id ? state.trashedPhotos : [],
+        loading: false,
+        error: null
+      }));
       
       // Fetch photos and setup subscription
       try {
@@ -517,10 +640,17 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
 
       const collageWithSettings = {
         ...collage,
-        settings: settings?.settings ? deepMerge(defaultSettings, settings.settings) : defaultSettings
+        moderation_mode: collage.moderation_mode === 'pre' ? 'pre' : DEFAULT_MODERATION_MODE,
+        settings: migrateSceneSettings(settings?.settings)
       } as Collage;
 
-      set({ currentCollage: collageWithSettings, loading: false, error: null });
+      set((state) => ({
+        currentCollage: collageWithSettings,
+        // Another collage's trash doesn't belong here
+        trashedPhotos: state.currentCollage?.id === collageWithSettings.id ? state.trashedPhotos : [],
+        loading: false,
+        error: null
+      }));
       
       // Fetch photos and setup subscription
       try {
@@ -545,49 +675,20 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     }
   },
 
-  createCollage: async (name: string) => {
+  createCollage: async (name: string, code?: string) => {
     set({ loading: true, error: null });
     try {
-      // Generate a 4-digit random code
-      const generateCode = () => {
-        const chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-        let result = '';
-        for (let i = 0; i < 4; i++) {
-          result += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        return result;
-      };
-      
-      // Initial code generation
-      let code = generateCode();
-      console.log('Creating collage:', name, 'with initial code:', code);
-      
-      // Try to insert with the generated code
-      let { data: collage, error: collageError } = await supabase
-        .from('collages')
-        .insert([{ name, code }])
-        .select()
-        .single();
-      
-      // If there's a unique constraint violation, try again with a new code
-      let attempts = 1;
-      const MAX_ATTEMPTS = 5;
-      
-      while (collageError && collageError.code === '23505' && attempts < MAX_ATTEMPTS) {
-        console.log(`Code ${code} already exists, trying again (attempt ${attempts}/${MAX_ATTEMPTS})`);
-        code = generateCode();
-        attempts++;
-        
-        // Try again with a new code
-        const result = await supabase
-          .from('collages')
-          .insert([{ name, code }])
-          .select()
-          .single();
-          
-        collage = result.data;
-        collageError = result.error;
+      // RLS only lets signed-in users create collages, owned by themselves
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('Sign in to create a collage');
       }
+
+      // The database generates a unique code and retries on collisions. A vanity code is used
+      // as-is or refused, never swapped for another.
+      console.log('Creating collage:', name, code ? `with code: ${normalizeCollageCode(code)}` : 'with a generated code');
+      const { data: collage, error: collageError } = await supabase
+        .rpc('create_collage', { p_name: name, p_code: code ? normalizeCollageCode(code) : undefined });
       
       if (collageError) throw collageError;
       
@@ -606,11 +707,12 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
 
       const collageWithSettings = {
         ...collage,
-        settings: settings?.settings || defaultSettings
+        moderation_mode: collage.moderation_mode === 'pre' ? 'pre' : DEFAULT_MODERATION_MODE,
+        settings: migrateSceneSettings(settings?.settings)
       } as Collage;
 
       set((state) => ({
-        collages: [collageWithSettings, ...state.collages],
+        collages: [{ ...collageWithSettings, role: 'owner' }, ...state.collages],
         loading: false
       }));
 
@@ -619,10 +721,7 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       console.error('Create collage error:', error);
       
       // Provide a more user-friendly error message
-      let errorMessage = error.message;
-      if (error.code === '23505') {
-        errorMessage = 'Could not generate a unique code. Please try again.';
-      }
+      const errorMessage = describeCollageCodeError(error) || error.message;
       
       set({ error: errorMessage, loading: false });
       return null;
@@ -634,7 +733,11 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
       const currentCollage = get().currentCollage;
       if (!currentCollage) throw new Error('No current collage');
 
-      const mergedSettings = deepMerge(currentCollage.settings, settings);
+      // Always persist in the current schema version so older rows get upgraded on save
+      const mergedSettings = {
+        ...deepMerge(currentCollage.settings, settings),
+        version: SCENE_SETTINGS_VERSION
+      } as SceneSettings;
 
       const { data, error } = await supabase
         .from('collage_settings')
@@ -693,70 +796,183 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
   },
 
   // Enhanced upload with better error handling
-  uploadPhoto: async (collageId: string, file: File) => {
+  uploadPhoto: async (collageId: string, originalFile: File, options: UploadPhotoOptions = {}) => {
+    const { onProgress, signal, normalized = false } = options;
+
     try {
-      console.log('📤 Starting photo upload:', file.name, 'for collage:', collageId);
+      console.log('📤 Starting photo upload:', originalFile.name, 'for collage:', collageId);
       
+      // Rotate, convert HEIC, downsize and strip EXIF (including GPS) before anything leaves the device
+      const file = normalized ? originalFile : await normalizeImage(originalFile, { maxDimension: getMaxUploadDimension() });
+
       // Validation
-      const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-      if (file.size > MAX_FILE_SIZE) {
+      if (file.size > MAX_UPLOAD_SIZE) {
         throw new Error('File size exceeds 10MB limit');
       }
 
-      const validImageTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-      if (!validImageTypes.includes(file.type)) {
-        throw new Error('Invalid file type. Only images are supported.');
+      // The database enforces the collage's upload policy - ask first so a refused upload says
+      // why and doesn't send any bytes
+      const access = await checkUploadAccess(collageId);
+      if (access && !access.allowed && access.reason) {
+        console.log('🔐 Upload refused by policy:', access.reason);
+        throw new UploadDeniedError(access.reason, access);
       }
+      const accessHeaders = uploadAccessHeaders(collageId);
 
       // Generate unique filename
       const fileExt = file.name.split('.').pop();
-      const fileName = `${collageId}/${nanoid()}.${fileExt}`;
+      const fileId = nanoid();
+      const fileName = `${collageId}/${fileId}.${fileExt}`;
 
       console.log('📤 Uploading to storage path:', fileName);
 
-      // Upload to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('photos')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
+      // Check for near-duplicates before spending bandwidth on the upload
+      const phash = await computePerceptualHash(file);
+      let duplicateOf: string | null = null;
+      if (phash) {
+        const { data: similar, error: similarError } = await withUploadAccess(
+          supabase.rpc('find_similar_photos', {
+            p_collage_id: collageId,
+            p_phash: phash,
+            p_max_distance: DUPLICATE_FLAG_DISTANCE
+          }),
+          collageId
+        );
+
+        if (similarError) {
+          // Never block an upload on the duplicate check
+          console.warn('⚠️ Duplicate check failed, uploading anyway:', similarError);
+        } else if (similar && similar.length > 0) {
+          const [closest] = similar;
+          if (closest.distance <= DUPLICATE_REJECT_DISTANCE) {
+            console.log('🚫 Rejecting duplicate of photo:', closest.photo_id, 'distance:', closest.distance);
+            throw new DuplicatePhotoError(closest.photo_id);
+          }
+          // No id means a photo we can't see yet - the server links it on insert
+          console.log('👯 Flagging possible duplicate of photo:', closest.photo_id, 'distance:', closest.distance);
+          duplicateOf = closest.photo_id;
+        }
+      }
+
+      // Content safety screening - flagged photos are held for review instead of going live
+      const screening = await screenImage(file);
+
+      // Thumbnail and display copies, so viewers never need the original
+      const derivatives = await createPhotoDerivatives(file);
+
+      const uploads: { path: string; body: Blob }[] = [
+        { path: fileName, body: file },
+        ...(derivatives ? [
+          { path: `${collageId}/${fileId}_thumb.${derivatives.extension}`, body: derivatives.thumb },
+          { path: `${collageId}/${fileId}_display.${derivatives.extension}`, body: derivatives.display },
+        ] : [])
+      ];
+
+      // Byte progress across the original and both derivatives
+      const total = uploads.reduce((sum, upload) => sum + upload.body.size, 0);
+      const loadedBytes = uploads.map(() => 0);
+      onProgress?.(0, total);
+
+      // Upload to Supabase Storage - settle every file so nothing is orphaned if one fails
+      const [originalResult, ...derivativeResults] = await Promise.allSettled(
+        uploads.map((upload, index) => uploadFileWithProgress('photos', upload.path, upload.body, {
+          signal,
+          headers: accessHeaders,
+          onProgress: (loaded) => {
+            loadedBytes[index] = loaded;
+            onProgress?.(loadedBytes.reduce((sum, bytes) => sum + bytes, 0), total);
+          }
+        }))
+      );
+
+      const derivativePaths = derivativeResults.flatMap(result => result.status === 'fulfilled' ? [result.value.path] : []);
 
-      if (uploadError) {
-        console.error('❌ Storage upload error:', uploadError);
-        throw uploadError;
+      if (originalResult.status === 'rejected' || signal?.aborted) {
+        const uploadedPaths = originalResult.status === 'fulfilled' ? [originalResult.value.path, ...derivativePaths] : derivativePaths;
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from('photos').remove(uploadedPaths);
+        }
+        if (signal?.aborted) {
+          throw new DOMException('Upload aborted', 'AbortError');
+        }
+        console.error('❌ Storage upload error:', originalResult.status === 'rejected' && originalResult.reason);
+        throw (originalResult as PromiseRejectedResult).reason;
       }
 
+      const uploadData = originalResult.value;
       console.log('✅ File uploaded to storage:', uploadData.path);
 
+      // Derivatives are optional - readers fall back to the original if either is missing
+      const [thumbUpload, displayUpload] = derivativeResults;
+      const derivativesUploaded = thumbUpload?.status === 'fulfilled' && displayUpload?.status === 'fulfilled';
+      if (derivatives && !derivativesUploaded) {
+        const failed = derivativeResults.find(result => result.status === 'rejected') as PromiseRejectedResult | undefined;
+        console.warn('⚠️ Derivative upload failed, storing original only:', failed?.reason);
+      }
+
       // Get public URL
       const publicUrl = getFileUrl('photos', uploadData.path);
+      const thumbnailUrl = derivativesUploaded ? getFileUrl('photos', uploads[1].path) : null;
+      const displayUrl = derivativesUploaded ? getFileUrl('photos', uploads[2].path) : null;
       console.log('🔗 Public URL:', publicUrl);
 
-      // Insert photo record
-      const { data: photo, error: dbError } = await supabase
+      // Insert photo record. No RETURNING - guests can't read their own photo while it's pending,
+      // so the id comes from here and the row is read back below.
+      const photoId = crypto.randomUUID();
+      const { error: dbError } = await withUploadAccess(supabase
         .from('photos')
         .insert([{
+          id: photoId,
           collage_id: collageId,
-          url: publicUrl
-        }])
-        .select()
-        .single();
+          url: publicUrl,
+          thumbnail_url: thumbnailUrl,
+          display_url: displayUrl,
+          phash,
+          duplicate_of: duplicateOf,
+          safety_labels: screening?.labels ?? null,
+          safety_provider: screening?.provider ?? null,
+          safety_held: screening?.held ?? false
+        }]), collageId);
 
       if (dbError) {
         console.error('❌ Database insert error:', dbError);
-        // Clean up uploaded file if database insert fails
-        await supabase.storage.from('photos').remove([uploadData.path]);
-        throw dbError;
+        // Clean up uploaded files if database insert fails
+        await supabase.storage.from('photos').remove([uploadData.path, ...derivativePaths]);
+        // Someone else filled the collage or the window closed since the check above
+        throw toUploadDeniedError(dbError) || dbError;
       }
 
-      console.log('✅ Photo record created:', photo.id);
+      console.log('✅ Photo record created:', photoId);
       console.log('🔔 Realtime should now broadcast this to all clients');
+
+      // Approved photos are readable right away. A row we can't read is waiting for approval.
+      const { data: inserted } = await supabase
+        .from('photos')
+        .select('*')
+        .eq('id', photoId)
+        .maybeSingle();
+      const photo: Photo = (inserted as Photo | null) || {
+        id: photoId,
+        collage_id: collageId,
+        url: publicUrl,
+        thumbnail_url: thumbnailUrl,
+        display_url: displayUrl,
+        phash,
+        duplicate_of: duplicateOf,
+        status: 'pending',
+        safety_held: screening?.held ?? false,
+        deleted_at: null,
+        created_at: new Date().toISOString()
+      };
+
+      // Add to local state immediately for instant feedback - queued uploads restored after a
+      // reload can belong to a different collage than the one on screen
+      const currentCollageId = get().currentCollage?.id;
+      if (!currentCollageId || currentCollageId === collageId) {
+        get().addPhotoToState(photo);
+      }
       
-      // Add to local state immediately for instant feedback
-      get().addPhotoToState(photo as Photo);
-      
-      return photo as Photo;
+      return photo;
       
     } catch (error: any) {
       console.error('❌ Upload photo error:', error);
@@ -764,116 +980,326 @@ export const useCollageStore = create<CollageStore>((set, get) => ({
     }
   },
 
-  // FIXED: Enhanced delete with proper database-first approach
-  deletePhoto: async (photoId: string) => {
-    try {
-      console.log('🗑️ STORE: Starting photo deletion for ID:', photoId?.slice(-6), 'from', get().photos.length, 'photos');
-      
-      // Store original photos array for potential rollback
-      const originalPhotos = [...get().photos];
-      
-      // FIRST: Optimistically remove from UI for immediate feedback
-      get().removePhotoFromState(photoId);
-      console.log('🗑️ OPTIMISTIC: Removed from UI, now deleting from database');
-      
-      // First, get the photo to find the storage path
-      const { data: photo, error: fetchError } = await supabase
-        .from('photos')
-        .select('url')
-        .eq('id', photoId)
-        .maybeSingle(); // FIXED: Use maybeSingle instead of single
+  // Organizer says flagged photos aren't duplicates - clear the flag so they leave the duplicates view
+  dismissDuplicates: async (photoIds: string[], reason?: string) => {
+    if (photoIds.length === 0) return;
+    console.log('👯 Dismissing duplicate flags for', photoIds.length, 'photo(s)');
 
-      if (fetchError) {
-        console.error('❌ Error fetching photo for deletion:', fetchError.message);
-        
-        // Check if this is a "not found" error, which is fine - the photo is already gone
-        if (fetchError.code === 'PGRST116' || fetchError.message.includes('0 rows')) {
-          console.log('✅ Photo not found in database - already deleted');
-          return; // Photo is already gone, our optimistic update was correct
-        } else {
-          // Real error - rollback the optimistic update
-          console.error('❌ Rolling back optimistic update due to fetch error');
-          set({ photos: originalPhotos });
-          throw fetchError;
-        }
+    for (const ids of chunk(photoIds, ID_BATCH_SIZE)) {
+      const { error } = await withModerationReason(
+        supabase.from('photos').update({ duplicate_of: null }).in('id', ids),
+        reason
+      );
+
+      if (error) {
+        console.error('❌ Failed to dismiss duplicates:', error);
+        throw error;
       }
-      
-      if (!photo) {
-        console.warn('⚠️ Photo not found in database:', photoId);
-        // Remove from state since it doesn't exist in DB
-        get().removePhotoFromState(photoId);
-        return;
+    }
+
+    // Realtime sends UPDATE events too, but don't wait for them
+    set((state) => {
+      const ids = new Set(photoIds);
+      const newPhotosById = new Map(state.photosById);
+      const photos = state.photos.map(photo => {
+        if (!ids.has(photo.id)) return photo;
+        const updated = { ...photo, duplicate_of: null };
+        newPhotosById.set(photo.id, updated);
+        return updated;
+      });
+      return { photos, photosById: newPhotosById };
+    });
+  },
+
+  // Approve, reject or re-queue photos. Local state updates right away; realtime carries the
+  // change to every viewer, which shows or hides the photos.
+  setPhotoStatus: async (photoIds: string[], status: PhotoStatus, reason?: string) => {
+    if (photoIds.length === 0) return;
+    console.log('🛡️ Setting status', status, 'for', photoIds.length, 'photo(s)');
+
+    for (const ids of chunk(photoIds, ID_BATCH_SIZE)) {
+      const { error } = await withModerationReason(
+        supabase.from('photos').update({ status }).in('id', ids),
+        reason
+      );
+
+      if (error) {
+        console.error('❌ Failed to update photo status:', error);
+        throw error;
       }
+    }
 
-      // Extract storage path from URL
-      let storagePath = null;
-      try {
-        const url = new URL(photo.url);
-        const pathParts = url.pathname.split('/');
-        const storagePathIndex = pathParts.findIndex(part => part === 'photos');
-        
-        if (storagePathIndex !== -1) {
-          storagePath = pathParts.slice(storagePathIndex + 1).join('/');
-          console.log('🗑️ Storage path:', storagePath);
-        }
-      } catch (urlError) {
-        console.warn('⚠️ Could not parse photo URL for storage cleanup:', urlError);
-        // Continue with deletion even if we can't parse the URL
+    set((state) => {
+      const ids = new Set(photoIds);
+      const newPhotosById = new Map(state.photosById);
+      const photos = state.photos.map(photo => {
+        if (!ids.has(photo.id)) return photo;
+        const updated = { ...photo, status, moderated_at: new Date().toISOString() };
+        newPhotosById.set(photo.id, updated);
+        return updated;
+      });
+      return {
+        photos,
+        photosById: newPhotosById,
+        heroQueue: status === 'approved' ? state.heroQueue : state.heroQueue.filter(id => !ids.has(id))
+      };
+    });
+  },
+
+  updateModerationMode: async (collageId: string, mode: ModerationMode) => {
+    console.log('🛡️ Setting moderation mode for collage', collageId, 'to', mode);
+
+    const { error } = await supabase
+      .from('collages')
+      .update({ moderation_mode: mode })
+      .eq('id', collageId);
+
+    if (error) {
+      console.error('❌ Failed to update moderation mode:', error);
+      throw error;
+    }
+
+    set((state) => ({
+      currentCollage: state.currentCollage?.id === collageId
+        ? { ...state.currentCollage, moderation_mode: mode }
+        : state.currentCollage,
+      collages: state.collages.map(collage =>
+        collage.id === collageId ? { ...collage, moderation_mode: mode } : collage
+      )
+    }));
+  },
+
+  // Master switch for guest uploads - the PIN, window and limits live in collage_upload_policies
+  // Owner only - printed QR codes and links with the old code stop working
+  updateCollageCode: async (collageId: string, code: string) => {
+    const normalized = normalizeCollageCode(code);
+    console.log('🔐 Changing code for collage', collageId, 'to', normalized);
+
+    const { error } = await supabase
+      .from('collages')
+      .update({ code: normalized })
+      .eq('id', collageId);
+
+    if (error) {
+      console.error('❌ Failed to change collage code:', error);
+      throw new Error(describeCollageCodeError(error) || error.message);
+    }
+
+    set((state) => ({
+      currentCollage: state.currentCollage?.id === collageId
+        ? { ...state.currentCollage, code: normalized }
+        : state.currentCollage,
+      collages: state.collages.map(collage =>
+        collage.id === collageId ? { ...collage, code: normalized } : collage
+      )
+    }));
+
+    return normalized;
+  },
+
+  updateUploadsEnabled: async (collageId: string, enabled: boolean) => {
+    console.log('🔐 Turning uploads', enabled ? 'on' : 'off', 'for collage', collageId);
+
+    const { error } = await supabase
+      .from('collages')
+      .update({ uploads_enabled: enabled })
+      .eq('id', collageId);
+
+    if (error) {
+      console.error('❌ Failed to update uploads:', error);
+      throw error;
+    }
+
+    set((state) => ({
+      currentCollage: state.currentCollage?.id === collageId
+        ? { ...state.currentCollage, uploads_enabled: enabled }
+        : state.currentCollage,
+      collages: state.collages.map(collage =>
+        collage.id === collageId ? { ...collage, uploads_enabled: enabled } : collage
+      )
+    }));
+  },
+
+  // Move a photo to the trash - restorable until the scheduled purge
+  deletePhoto: async (photoId: string, reason?: string) => {
+    await get().deletePhotos([photoId], reason);
+  },
+
+  // Soft delete: rows get deleted_at and their files stay in storage, so an accidental delete
+  // during a live event can be undone from the Trash tab
+  deletePhotos: async (photoIds: string[], reason?: string) => {
+    if (photoIds.length === 0) return;
+    console.log('🗑️ STORE: Moving', photoIds.length, 'photo(s) to the trash');
+
+    const originalPhotos = get().photos;
+    const originalPhotosById = get().photosById;
+    const originalTrash = get().trashedPhotos;
+    const deletedAt = new Date().toISOString();
+
+    // Optimistically remove from UI for immediate feedback
+    set((state) => {
+      const ids = new Set(photoIds);
+      const newPhotosById = new Map(state.photosById);
+      photoIds.forEach(id => newPhotosById.delete(id));
+      const trashed = state.photos
+        .filter(photo => ids.has(photo.id))
+        .map(photo => ({ ...photo, deleted_at: deletedAt }));
+      return {
+        photos: state.photos.filter(photo => !ids.has(photo.id)),
+        photosById: newPhotosById,
+        heroQueue: state.heroQueue.filter(id => !ids.has(id)),
+        trashedPhotos: [...trashed, ...state.trashedPhotos.filter(photo => !ids.has(photo.id))],
+        lastRefreshTime: Date.now()
+      };
+    });
+
+    try {
+      for (const ids of chunk(photoIds, ID_BATCH_SIZE)) {
+        const { error } = await withModerationReason(
+          supabase.from('photos').update({ deleted_at: deletedAt }).in('id', ids),
+          reason
+        );
+        if (error) throw error;
+      }
+      console.log('✅ Moved', photoIds.length, 'photo(s) to the trash');
+    } catch (error: any) {
+      // Batches already trashed stay trashed - refetch so the UI matches the database
+      console.error('❌ Trash error, resyncing photos:', error);
+      set({ photos: originalPhotos, photosById: originalPhotosById, trashedPhotos: originalTrash });
+      const collageId = get().currentCollage?.id;
+      if (collageId) {
+        await get().fetchPhotosByCollageId(collageId).catch(() => undefined);
       }
+      throw error;
+    }
+  },
 
-      // Delete from database
-      const { error: deleteDbError } = await supabase
-        .from('photos')
-        .delete()
-        .eq('id', photoId);
+  // Bring photos back from the trash - realtime shows them to viewers again
+  restorePhotos: async (photoIds: string[], reason?: string) => {
+    if (photoIds.length === 0) return;
+    console.log('♻️ STORE: Restoring', photoIds.length, 'photo(s) from the trash');
 
-      if (deleteDbError) {
-        console.error('❌ Database delete error:', deleteDbError.message);
-        
-        // Check if this is a "not found" error, which is fine
-        if (deleteDbError.code === 'PGRST116' || deleteDbError.message.includes('0 rows')) {
-          console.log('✅ Photo was already deleted from database');
-          // This is fine - photo was already gone, our optimistic update was correct
-        } else {
-          // Real error - rollback the optimistic update
-          console.error('❌ Rolling back optimistic update due to delete error');
-          set({ photos: originalPhotos });
-          throw deleteDbError;
-        }
-      } else {
-        console.log('✅ Photo deleted from database successfully');
+    for (const ids of chunk(photoIds, ID_BATCH_SIZE)) {
+      const { error } = await withModerationReason(
+        supabase.from('photos').update({ deleted_at: null }).in('id', ids),
+        reason
+      );
+
+      if (error) {
+        console.error('❌ Failed to restore photos:', error);
+        throw error;
       }
-     
-      // Delete from storage (non-critical)
-      if (storagePath) {
-        try {
-          const { error: deleteStorageError } = await supabase.storage
+    }
+
+    set((state) => {
+      const ids = new Set(photoIds);
+      const collageId = state.currentCollage?.id;
+      const newPhotosById = new Map(state.photosById);
+      const restored = state.trashedPhotos
+        .filter(photo => ids.has(photo.id) && (!collageId || photo.collage_id === collageId) && !newPhotosById.has(photo.id))
+        .map(photo => ({ ...photo, deleted_at: null }));
+      restored.forEach(photo => newPhotosById.set(photo.id, photo));
+
+      // Back into their original place - photos are ordered by upload time, newest first
+      const photos = [...state.photos, ...restored]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+      return {
+        photos,
+        photosById: newPhotosById,
+        trashedPhotos: state.trashedPhotos.filter(photo => !ids.has(photo.id)),
+        lastRefreshTime: Date.now()
+      };
+    });
+  },
+
+  fetchTrashedPhotos: async (collageId: string) => {
+    const { data, error } = await supabase
+      .from('photos')
+      .select('*')
+      .eq('collage_id', collageId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to fetch trashed photos:', error);
+      throw error;
+    }
+
+    console.log('🗑️ Fetched', data?.length || 0, 'trashed photo(s)');
+    set({ trashedPhotos: (data || []) as Photo[] });
+  },
+
+  // Permanently delete photos (rows and files) - one request per batch instead of three per photo.
+  // Only trashed photos are deleted, and only files of rows the delete actually returned are
+  // removed, so rows RLS kept or that were restored meanwhile keep their files. Returns how many
+  // photos were deleted. The scheduled purge does the same for photos left in the trash past the
+  // retention period.
+  purgePhotos: async (photoIds: string[], reason?: string) => {
+    if (photoIds.length === 0) return 0;
+    console.log('🗑️ STORE: Permanently deleting', photoIds.length, 'photos');
+
+    const originalTrash = get().trashedPhotos;
+
+    // Optimistically remove from UI for immediate feedback
+    set((state) => {
+      const ids = new Set(photoIds);
+      return {
+        trashedPhotos: state.trashedPhotos.filter(photo => !ids.has(photo.id)),
+        lastRefreshTime: Date.now()
+      };
+    });
+
+    const storagePaths: string[] = [];
+    let purged = 0;
+    try {
+      for (const ids of chunk(photoIds, ID_BATCH_SIZE)) {
+        const { data: rows, error: deleteError } = await withModerationReason(
+          supabase
             .from('photos')
-            .remove([storagePath]);
-  
-          if (deleteStorageError) {
-            console.warn('⚠️ Storage delete error (non-fatal):', deleteStorageError.message);
-          } else {
-            console.log('✅ Photo file deleted from storage');
-          }
-        } catch (storageError) {
-          console.warn('⚠️ Storage delete exception (non-fatal):', storageError);
-        }
+            .delete()
+            .in('id', ids)
+            .not('deleted_at', 'is', null)
+            .select('id, url, thumbnail_url, display_url'),
+          reason
+        );
+        if (deleteError) throw deleteError;
+
+        (rows || []).forEach(row => {
+          [row.url, row.thumbnail_url, row.display_url].forEach(url => {
+            const path = url ? getStoragePath(url) : null;
+            if (path) storagePaths.push(path);
+          });
+        });
+        purged += rows?.length || 0;
       }
 
-      console.log('✅ Photo deletion process completed for ID:', photoId);
-      console.log('🗑️ Photos count AFTER deletion:', get().photos.length);
-      
+      console.log('✅ Permanently deleted', purged, 'of', photoIds.length, 'photos from database');
+      if (purged < photoIds.length) {
+        // Some photos weren't deleted - bring back the ones still in the trash
+        const collageId = get().currentCollage?.id;
+        if (collageId) {
+          await get().fetchTrashedPhotos(collageId).catch(() => undefined);
+        }
+      }
+      return purged;
     } catch (error: any) {
-      console.error('❌ Delete photo error:', error);
-      
-      // Don't throw error for "already deleted" scenarios
-      if (error.code === 'PGRST116' || error.message?.includes('0 rows')) {
-        console.log('✅ Treating as successful deletion (photo was already gone)');
-        return;
+      // Batches already deleted stay deleted - refetch so the UI matches the database
+      console.error('❌ Permanent delete error, resyncing trash:', error);
+      set({ trashedPhotos: originalTrash });
+      const collageId = get().currentCollage?.id;
+      if (collageId) {
+        await get().fetchTrashedPhotos(collageId).catch(() => undefined);
       }
-      
       throw error;
+    } finally {
+      // Delete from storage (non-critical)
+      for (const paths of chunk(storagePaths, STORAGE_REMOVE_BATCH_SIZE)) {
+        const { error: deleteStorageError } = await supabase.storage.from('photos').remove(paths);
+        if (deleteStorageError) {
+          console.warn('⚠️ Storage delete error (non-fatal):', deleteStorageError.message);
+        }
+      }
     }
   }
 }));
\ No newline at end of file
@@ -0,0 +1,80 @@
+// src/store/uploadQueueStore.test.ts - Failed uploads survive a reload as failed
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// IndexedDB stand-in that outlives vi.resetModules, like the real database outlives a reload
+const db = vi.hoisted(() => new Map<string, any>());
+const uploadPhoto = vi.hoisted(() => vi.fn());
+
+vi.mock('../lib/uploadQueueDb', () => ({
+  loadStoredUploads: async () => [...db.values()].sort((a, b) => a.createdAt - b.createdAt),
+  saveStoredUpload: async (upload: any) => { db.set(upload.id, upload); },
+  deleteStoredUpload: async (id: string) => { db.delete(id); },
+}));
+
+vi.mock('../lib/supabase', () => ({
+  StorageUploadError: class StorageUploadError extends Error {
+    constructor(message: string, public status: number) {
+      super(message);
+    }
+  },
+}));
+
+vi.mock('../lib/imageNormalizer', () => ({
+  normalizeImage: async (file: File) => file,
+  getMaxUploadDimension: () => 2560,
+}));
+
+vi.mock('./collageStore', () => ({
+  useCollageStore: { getState: () => ({ uploadPhoto }) },
+}));
+
+// A fresh module is a fresh page load: empty store, restore() not run yet
+const loadQueue = async () => {
+  vi.resetModules();
+  return (await import('./uploadQueueStore')).useUploadQueueStore;
+};
+
+const waitForStatus = async (queue: Awaited<ReturnType<typeof loadQueue>>, status: string) => {
+  await vi.waitFor(() => {
+    expect(queue.getState().uploads[0]?.status).toBe(status);
+  });
+};
+
+describe('upload queue reload', () => {
+  beforeEach(() => {
+    db.clear();
+    uploadPhoto.mockReset();
+  });
+
+  it('restores a permanently failed upload as an error instead of uploading it again', async () => {
+    uploadPhoto.mockRejectedValue(new Error('This photo is already in the collage'));
+
+    const queue = await loadQueue();
+    await queue.getState().restore();
+    queue.getState().enqueue('collage-1', [new File(['photo'], 'photo.jpg', { type: 'image/jpeg' })]);
+    await waitForStatus(queue, 'error');
+    expect(uploadPhoto).toHaveBeenCalledTimes(1);
+
+    const reloaded = await loadQueue();
+    await reloaded.getState().restore();
+
+    const [restored] = reloaded.getState().uploads;
+    expect(restored.status).toBe('error');
+    expect(restored.error).toBe('This photo is already in the collage');
+    expect(uploadPhoto).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the saved failure when the upload is retried', async () => {
+    uploadPhoto.mockRejectedValueOnce(new Error('Photo rejected'));
+    uploadPhoto.mockResolvedValueOnce({ id: 'photo-1', status: 'approved' });
+
+    const queue = await loadQueue();
+    await queue.getState().restore();
+    queue.getState().enqueue('collage-1', [new File(['photo'], 'photo.jpg', { type: 'image/jpeg' })]);
+    await waitForStatus(queue, 'error');
+
+    queue.getState().retry(queue.getState().uploads[0].id);
+    await waitForStatus(queue, 'success');
+    expect(db.size).toBe(0);
+  });
+});
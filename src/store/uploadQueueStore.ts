@@ -0,0 +1,332 @@
+// src/store/uploadQueueStore.ts - Persistent photo upload queue
+// Runs a few uploads at a time with real byte progress, retries network failures with
+// exponential backoff, waits out offline periods without burning attempts, and keeps
+// queued files in IndexedDB so nothing is lost when the page reloads.
+import { create } from 'zustand';
+import { nanoid } from 'nanoid';
+import { useCollageStore } from './collageStore';
+import { StorageUploadError } from '../lib/supabase';
+import { normalizeImage, getMaxUploadDimension } from '../lib/imageNormalizer';
+import { deleteStoredUpload, loadStoredUploads, saveStoredUpload, type StoredUpload } from '../lib/uploadQueueDb';
+
+export const MAX_CONCURRENT_UPLOADS = 3;
+export const MAX_UPLOAD_ATTEMPTS = 6;
+const RETRY_BASE_DELAY = 2000; // ms, doubled each attempt
+const RETRY_MAX_DELAY = 60000;
+
+export type QueuedUploadStatus = 'pending' | 'uploading' | 'paused' | 'retrying' | 'success' | 'error';
+
+export interface QueuedUpload {
+  id: string;
+  collageId: string;
+  file: File; // Replaced by the normalized file once it has been prepared
+  normalized: boolean;
+  status: QueuedUploadStatus;
+  loaded: number; // Bytes sent in the current attempt
+  total: number; // 0 while the photo is still being prepared
+  attempts: number;
+  nextAttemptAt: number | null; // null while retrying means waiting for the connection
+  error?: string;
+  photoId?: string;
+  awaitingApproval?: boolean; // Uploaded to a pre-moderated collage
+  createdAt: number;
+}
+
+interface UploadQueueStore {
+  // State
+  uploads: QueuedUpload[];
+  restored: boolean;
+
+  // Actions
+  enqueue: (collageId: string, files: File[]) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+  pauseAll: (collageId: string) => void;
+  resumeAll: (collageId: string) => void;
+  clearCompleted: (collageId: string) => void;
+  restore: () => Promise<void>;
+
+  // Internal methods
+  processQueue: () => void;
+  runUpload: (id: string) => Promise<void>;
+  updateUpload: (id: string, updates: Partial<QueuedUpload>) => void;
+}
+
+// In-flight requests and pending retries live outside the store - they aren't render state
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let restorePromise: Promise<void> | null = null;
+
+const clearRetryTimer = (id: string) => {
+  const timer = retryTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(id);
+  }
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Network drops, timeouts, rate limits and server errors are worth retrying - a rejected
+// file or a policy violation will fail the same way every time
+export const isRetryableUploadError = (error: any): boolean => {
+  if (isOffline()) return true;
+  if (error instanceof StorageUploadError) {
+    return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof TypeError) return true; // fetch() network failure
+  return /failed to fetch|network|load failed/i.test(error?.message || '');
+};
+
+const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempts - 1));
+  // Jitter so a room full of phones doesn't retry in lockstep when the Wi-Fi comes back
+  return delay * (0.5 + Math.random() * 0.5);
+};
+
+const toStoredUpload = (upload: QueuedUpload): StoredUpload => ({
+  id: upload.id,
+  collageId: upload.collageId,
+  file: upload.file,
+  normalized: upload.normalized,
+  paused: upload.status === 'paused',
+  attempts: upload.attempts,
+  error: upload.status === 'error' ? upload.error : undefined,
+  createdAt: upload.createdAt,
+});
+
+export const useUploadQueueStore = create<UploadQueueStore>((set, get) => ({
+  // Initial state
+  uploads: [],
+  restored: false,
+
+  updateUpload: (id, updates) => {
+    set(state => ({
+      uploads: state.uploads.map(upload => upload.id === id ? { ...upload, ...updates } : upload)
+    }));
+  },
+
+  enqueue: (collageId, files) => {
+    const now = Date.now();
+    const newUploads: QueuedUpload[] = files.map((file, index) => ({
+      id: nanoid(),
+      collageId,
+      file,
+      normalized: false,
+      status: 'pending',
+      loaded: 0,
+      total: 0,
+      attempts: 0,
+      nextAttemptAt: null,
+      createdAt: now + index,
+    }));
+
+    console.log('📥 UPLOAD QUEUE: Enqueued', newUploads.length, 'photo(s) for collage', collageId);
+    set(state => ({ uploads: [...state.uploads, ...newUploads] }));
+    newUploads.forEach(upload => saveStoredUpload(toStoredUpload(upload)));
+    get().processQueue();
+  },
+
+  processQueue: () => {
+    // Offline uploads would just fail - the online listener restarts the queue
+    if (isOffline()) return;
+
+    const { uploads } = get();
+    const active = uploads.filter(upload => upload.status === 'uploading').length;
+    const next = uploads
+      .filter(upload => upload.status === 'pending')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active));
+
+    next.forEach(upload => { get().runUpload(upload.id); });
+  },
+
+  runUpload: async (id) => {
+    const upload = get().uploads.find(u => u.id === id);
+    if (!upload || upload.status !== 'pending') return;
+
+    // Mark as uploading synchronously so processQueue can't start it twice
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    get().updateUpload(id, { status: 'uploading', loaded: 0, total: 0, error: undefined, nextAttemptAt: null });
+
+    try {
+      // Normalize once and keep the result - retries and reloads skip straight to the upload
+      let file = upload.file;
+      if (!upload.normalized) {
+        file = await normalizeImage(upload.file, { maxDimension: getMaxUploadDimension() });
+        if (controller.signal.aborted) throw new DOMException('Upload aborted', 'AbortError');
+
+        get().updateUpload(id, { file, normalized: true });
+        const prepared = get().uploads.find(u => u.id === id);
+        if (prepared) saveStoredUpload(toStoredUpload(prepared));
+      }
+
+      const photo = await useCollageStore.getState().uploadPhoto(upload.collageId, file, {
+        normalized: true,
+        signal: controller.signal,
+        onProgress: (loaded, total) => get().updateUpload(id, { loaded, total }),
+      });
+
+      console.log('✅ UPLOAD QUEUE: Uploaded', file.name);
+      get().updateUpload(id, {
+        status: 'success',
+        photoId: photo?.id,
+        awaitingApproval: photo?.status === 'pending',
+        error: undefined
+      });
+      deleteStoredUpload(id);
+
+    } catch (error: any) {
+      // Paused or cancelled - the action that aborted has already set the state
+      if (error?.name === 'AbortError') return;
+
+      const current = get().uploads.find(u => u.id === id);
+      if (!current) return;
+
+      if (isRetryableUploadError(error)) {
+        // Going offline doesn't count against the attempt limit
+        const offline = isOffline();
+        const attempts = offline ? current.attempts : current.attempts + 1;
+
+        if (attempts < MAX_UPLOAD_ATTEMPTS) {
+          const delay = getRetryDelay(Math.max(1, attempts));
+          console.warn(`🔁 UPLOAD QUEUE: ${current.file.name} failed (attempt ${attempts}), ${offline ? 'waiting for connection' : `retrying in ${Math.round(delay / 1000)}s`}:`, error?.message);
+
+          get().updateUpload(id, {
+            status: 'retrying',
+            attempts,
+            error: offline ? 'Waiting for connection...' : error?.message || 'Upload failed',
+            nextAttemptAt: offline ? null : Date.now() + delay,
+          });
+          saveStoredUpload(toStoredUpload({ ...current, attempts }));
+
+          if (!offline) {
+            retryTimers.set(id, setTimeout(() => {
+              retryTimers.delete(id);
+              if (get().uploads.find(u => u.id === id)?.status !== 'retrying') return;
+              get().updateUpload(id, { status: 'pending' });
+              get().processQueue();
+            }, delay));
+          }
+          return;
+        }
+      }
+
+      console.error('❌ UPLOAD QUEUE: Giving up on', current.file.name, error);
+      const failed: Partial<QueuedUpload> = {
+        status: 'error',
+        attempts: current.attempts + 1,
+        error: error?.message || 'Upload failed',
+        nextAttemptAt: null,
+      };
+      get().updateUpload(id, failed);
+      // Keep the failure so a reload shows it for a manual retry instead of uploading it again
+      saveStoredUpload(toStoredUpload({ ...current, ...failed }));
+
+    } finally {
+      controllers.delete(id);
+      get().processQueue();
+    }
+  },
+
+  pause: (id) => {
+    const upload = get().uploads.find(u => u.id === id);
+    if (!upload || !['pending', 'uploading', 'retrying'].includes(upload.status)) return;
+
+    // Set the status before aborting so the failed request isn't treated as an error.
+    // Storage uploads can't continue mid-file, so a resumed photo starts from zero.
+    clearRetryTimer(id);
+    get().updateUpload(id, { status: 'paused', loaded: 0, nextAttemptAt: null });
+    controllers.get(id)?.abort();
+    saveStoredUpload(toStoredUpload({ ...upload, status: 'paused' }));
+  },
+
+  resume: (id) => {
+    const upload = get().uploads.find(u => u.id === id);
+    if (!upload || upload.status !== 'paused') return;
+
+    get().updateUpload(id, { status: 'pending', error: undefined });
+    saveStoredUpload(toStoredUpload({ ...upload, status: 'pending' }));
+    get().processQueue();
+  },
+
+  retry: (id) => {
+    const upload = get().uploads.find(u => u.id === id);
+    if (!upload || (upload.status !== 'error' && upload.status !== 'retrying')) return;
+
+    clearRetryTimer(id);
+    get().updateUpload(id, { status: 'pending', attempts: 0, error: undefined, nextAttemptAt: null });
+    saveStoredUpload(toStoredUpload({ ...upload, status: 'pending', attempts: 0 }));
+    get().processQueue();
+  },
+
+  cancel: (id) => {
+    clearRetryTimer(id);
+    // Remove first so the aborted request finds nothing to update
+    set(state => ({ uploads: state.uploads.filter(upload => upload.id !== id) }));
+    controllers.get(id)?.abort();
+    deleteStoredUpload(id);
+  },
+
+  pauseAll: (collageId) => {
+    get().uploads
+      .filter(upload => upload.collageId === collageId)
+      .forEach(upload => get().pause(upload.id));
+  },
+
+  resumeAll: (collageId) => {
+    get().uploads
+      .filter(upload => upload.collageId === collageId)
+      .forEach(upload => get().resume(upload.id));
+  },
+
+  clearCompleted: (collageId) => {
+    set(state => ({
+      uploads: state.uploads.filter(upload => upload.collageId !== collageId || upload.status !== 'success')
+    }));
+  },
+
+  // Load uploads left over from a previous visit and pick them back up - runs once per page load
+  restore: () => {
+    if (!restorePromise) {
+      restorePromise = (async () => {
+        if (typeof window !== 'undefined') {
+          window.addEventListener('online', () => {
+            console.log('🌐 UPLOAD QUEUE: Back online, resuming uploads');
+            get().uploads
+              .filter(upload => upload.status === 'retrying')
+              .forEach(upload => {
+                clearRetryTimer(upload.id);
+                get().updateUpload(upload.id, { status: 'pending', nextAttemptAt: null });
+              });
+            get().processQueue();
+          });
+        }
+
+        const stored = await loadStoredUploads();
+        const knownIds = new Set(get().uploads.map(upload => upload.id));
+        const restoredUploads: QueuedUpload[] = stored
+          .filter(upload => !knownIds.has(upload.id))
+          .map(({ paused, error, ...upload }) => ({
+            ...upload,
+            // Failed uploads stay failed until the guest retries them
+            status: error ? 'error' as const : paused ? 'paused' as const : 'pending' as const,
+            error,
+            loaded: 0,
+            total: 0,
+            nextAttemptAt: null,
+          }));
+
+        if (restoredUploads.length > 0) {
+          console.log('♻️ UPLOAD QUEUE: Restored', restoredUploads.length, 'upload(s) from a previous visit');
+        }
+
+        set(state => ({ uploads: [...restoredUploads, ...state.uploads], restored: true }));
+        get().processQueue();
+      })();
+    }
+    return restorePromise;
+  },
+}));
@@ -14,21 +14,27 @@ export interface Database {
           id: string
           code: string
           name: string
-          user_id: string
+          user_id: string | null
+          uploads_enabled: boolean
+          moderation_mode: string
           created_at: string
         }
         Insert: {
           id?: string
-          code: string
+          code?: string
           name: string
-          user_id: string
+          user_id?: string | null
+          uploads_enabled?: boolean
+          moderation_mode?: string
           created_at?: string
         }
         Update: {
           id?: string
           code?: string
           name?: string
-          user_id?: string
+          user_id?: string | null
+          uploads_enabled?: boolean
+          moderation_mode?: string
           created_at?: string
         }
       }
@@ -37,18 +43,51 @@ export interface Database {
           id: string
           collage_id: string
           url: string
+          thumbnail_url: string | null
+          display_url: string | null
+          phash: string | null
+          duplicate_of: string | null
+          status: string
+          safety_labels: Json | null
+          safety_provider: string | null
+          safety_held: boolean
+          moderated_at: string | null
+          deleted_at: string | null
+          upload_device: string | null
           created_at: string
         }
         Insert: {
           id?: string
           collage_id: string
           url: string
+          thumbnail_url?: string | null
+          display_url?: string | null
+          phash?: string | null
+          duplicate_of?: string | null
+          status?: string
+          safety_labels?: Json | null
+          safety_provider?: string | null
+          safety_held?: boolean
+          moderated_at?: string | null
+          deleted_at?: string | null
+          upload_device?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           collage_id?: string
           url?: string
+          thumbnail_url?: string | null
+          display_url?: string | null
+          phash?: string | null
+          duplicate_of?: string | null
+          status?: string
+          safety_labels?: Json | null
+          safety_provider?: string | null
+          safety_held?: boolean
+          moderated_at?: string | null
+          deleted_at?: string | null
+          upload_device?: string | null
           created_at?: string
         }
       }
@@ -310,12 +349,236 @@ export interface Database {
           event_id?: string | null
         }
       }
+      moderation_events: {
+        Row: {
+          id: string
+          collage_id: string
+          photo_id: string | null
+          actor_id: string | null
+          actor_email: string | null
+          actor_role: string | null
+          action: string
+          reason: string | null
+          details: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          collage_id: string
+          photo_id?: string | null
+          actor_id?: string | null
+          actor_email?: string | null
+          actor_role?: string | null
+          action: string
+          reason?: string | null
+          details?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          collage_id?: string
+          photo_id?: string | null
+          actor_id?: string | null
+          actor_email?: string | null
+          actor_role?: string | null
+          action?: string
+          reason?: string | null
+          details?: Json | null
+          created_at?: string
+        }
+      }
+      collage_members: {
+        Row: {
+          collage_id: string
+          user_id: string
+          email: string | null
+          role: string
+          invited_by: string | null
+          created_at: string
+        }
+        Insert: {
+          collage_id: string
+          user_id: string
+          email?: string | null
+          role: string
+          invited_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          collage_id?: string
+          user_id?: string
+          email?: string | null
+          role?: string
+          invited_by?: string | null
+          created_at?: string
+        }
+      }
+      collage_invites: {
+        Row: {
+          id: string
+          collage_id: string
+          email: string
+          role: string
+          token: string
+          invited_by: string | null
+          created_at: string
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+        }
+        Insert: {
+          id?: string
+          collage_id: string
+          email: string
+          role: string
+          token?: string
+          invited_by?: string | null
+          created_at?: string
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+        }
+        Update: {
+          id?: string
+          collage_id?: string
+          email?: string
+          role?: string
+          token?: string
+          invited_by?: string | null
+          created_at?: string
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+        }
+      }
+      collage_upload_policies: {
+        Row: {
+          collage_id: string
+          pin: string | null
+          opens_at: string | null
+          closes_at: string | null
+          max_per_device: number | null
+          max_photos: number | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          collage_id: string
+          pin?: string | null
+          opens_at?: string | null
+          closes_at?: string | null
+          max_per_device?: number | null
+          max_photos?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          collage_id?: string
+          pin?: string | null
+          opens_at?: string | null
+          closes_at?: string | null
+          max_per_device?: number | null
+          max_photos?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      photo_hash_distance: {
+        Args: {
+          a: string
+          b: string
+        }
+        Returns: number
+      }
+      find_similar_photos: {
+        Args: {
+          p_collage_id: string
+          p_phash: string
+          p_max_distance?: number
+        }
+        Returns: {
+          photo_id: string | null
+          distance: number
+        }[]
+      }
+      collage_role: {
+        Args: {
+          p_collage_id: string
+        }
+        Returns: string | null
+      }
+      has_collage_role: {
+        Args: {
+          p_collage_id: string
+          p_role: string
+        }
+        Returns: boolean
+      }
+      get_collage_invite: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          collage_id: string
+          collage_name: string
+          email: string
+          role: string
+          expires_at: string
+          accepted_at: string | null
+        }[]
+      }
+      accept_collage_invite: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      get_upload_access: {
+        Args: {
+          p_collage_id: string
+        }
+        Returns: {
+          allowed: boolean
+          reason: string | null
+          pin_required: boolean
+          opens_at: string | null
+          closes_at: string | null
+          max_per_device: number | null
+          device_uploads: number | null
+          max_photos: number | null
+          photo_count: number
+        }[]
+      }
+      verify_upload_pin: {
+        Args: {
+          p_collage_id: string
+          p_pin: string
+        }
+        Returns: {
+          pass: string | null
+          reason: string | null
+        }[]
+      }
+      create_collage: {
+        Args: {
+          p_name: string
+          p_code?: string
+        }
+        Returns: {
+          id: string
+          code: string
+          name: string
+          user_id: string | null
+          uploads_enabled: boolean
+          moderation_mode: string
+          created_at: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,82 @@
+// supabase/functions/purge-deleted-photos/index.ts - Empty photo trash older than the retention period
+// Runs daily from pg_cron (see migration 20261019120000_amber_lantern.sql). Storage files have to
+// go through the Storage API - deleting storage.objects rows in SQL would orphan the files.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const RETENTION_DAYS = Number(Deno.env.get('PHOTO_TRASH_RETENTION_DAYS') ?? 30);
+const BATCH_SIZE = 100;
+// Recorded as the reason in moderation_events (base64, like the browser sends it)
+const PURGE_REASON = btoa(`In the trash for more than ${RETENTION_DAYS} days`);
+
+// Storage path inside the photos bucket for a public photo URL
+const getStoragePath = (url: string | null): string | null => {
+  if (!url) return null;
+  try {
+    const pathParts = new URL(url).pathname.split('/');
+    const storagePathIndex = pathParts.findIndex(part => part === 'photos');
+    return storagePathIndex !== -1 ? pathParts.slice(storagePathIndex + 1).join('/') : null;
+  } catch {
+    return null;
+  }
+};
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  let purged = 0;
+
+  while (true) {
+    const { data: candidates, error: fetchError } = await supabase
+      .from('photos')
+      .select('id')
+      .lt('deleted_at', cutoff)
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('❌ PURGE: Could not list trashed photos:', fetchError);
+      return Response.json({ purged, error: fetchError.message }, { status: 500 });
+    }
+    if (!candidates || candidates.length === 0) break;
+
+    // Check the trash again in the delete itself - a photo restored since the list above stays,
+    // and so do its files
+    const { data: rows, error: deleteError } = await supabase
+      .from('photos')
+      .delete()
+      .in('id', candidates.map(row => row.id))
+      .not('deleted_at', 'is', null)
+      .lt('deleted_at', cutoff)
+      .select('id, url, thumbnail_url, display_url')
+      .setHeader('x-moderation-reason', PURGE_REASON);
+
+    if (deleteError) {
+      console.error('❌ PURGE: Row delete failed:', deleteError);
+      return Response.json({ purged, error: deleteError.message }, { status: 500 });
+    }
+
+    const storagePaths = (rows || []).flatMap(row =>
+      [row.url, row.thumbnail_url, row.display_url].flatMap(url => {
+        const path = getStoragePath(url);
+        return path ? [path] : [];
+      })
+    );
+
+    // Only files of rows that are really gone. If this fails the files are orphaned - log them.
+    if (storagePaths.length > 0) {
+      const { error: storageError } = await supabase.storage.from('photos').remove(storagePaths);
+      if (storageError) {
+        console.error('❌ PURGE: Storage delete failed, orphaned files:', storagePaths, storageError);
+        return Response.json({ purged: purged + (rows?.length || 0), error: storageError.message }, { status: 500 });
+      }
+    }
+
+    purged += rows?.length || 0;
+  }
+
+  console.log(`🧹 PURGE: Removed ${purged} photo(s) trashed before ${cutoff}`);
+  return Response.json({ purged });
+});
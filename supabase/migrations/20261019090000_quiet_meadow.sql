@@ -0,0 +1,19 @@
+/*
+  # Photo Derivatives
+
+  1. Changes
+    - Add `thumbnail_url` (256px) and `display_url` (1024px) columns to `photos`
+    - Both are nullable: photos uploaded before derivatives existed, or whose
+      derivative upload failed, keep only the original in `url`
+
+  2. Benefits
+    - Moderation grids and the 3D scene load small images instead of 10MB originals
+    - Originals stay available for downloads
+*/
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS thumbnail_url text;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS display_url text;
+
+COMMENT ON COLUMN photos.url IS 'Original upload';
+COMMENT ON COLUMN photos.thumbnail_url IS '256px thumbnail (longest edge), null when not generated';
+COMMENT ON COLUMN photos.display_url IS '1024px display copy (longest edge), null when not generated';
@@ -0,0 +1,66 @@
+/*
+  # Duplicate Photo Detection
+
+  1. Changes
+    - Add `phash` to `photos`: 64-bit difference hash (dHash) of the image as 16 hex characters,
+      computed in the browser at upload time; null for photos uploaded before hashing existed
+    - Add `duplicate_of` to `photos`: the earlier photo this one probably duplicates, set at upload
+      time and cleared when the organizer marks the pair as not duplicates
+    - Add `photo_hash_distance(a, b)`: number of differing bits between two hashes
+    - Add `find_similar_photos(collage_id, phash, max_distance)`: closest photos in a collage
+
+  2. Benefits
+    - The same shot uploaded twice (photobooth and camera roll) is caught before it hits storage
+    - Organizers get a "possible duplicates" view instead of scrolling for lookalikes
+*/
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS phash text;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES photos(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'photos_phash_format'
+  ) THEN
+    ALTER TABLE photos ADD CONSTRAINT photos_phash_format CHECK (phash IS NULL OR phash ~ '^[0-9a-f]{16}$');
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS photos_duplicate_of_idx ON photos(duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+COMMENT ON COLUMN photos.phash IS '64-bit dHash as 16 hex characters, null when not computed';
+COMMENT ON COLUMN photos.duplicate_of IS 'Earlier photo in the same collage this one probably duplicates';
+
+-- Hamming distance between two hex hashes - 'x' || hex casts straight to a bit string
+CREATE OR REPLACE FUNCTION photo_hash_distance(a text, b text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+STRICT
+AS $$
+  SELECT bit_count(('x' || a)::bit(64) # ('x' || b)::bit(64))::integer;
+$$;
+
+-- Photos in a collage within max_distance bits of the given hash, closest first.
+-- Runs with the caller's permissions, so it only sees photos the caller can already read.
+CREATE OR REPLACE FUNCTION find_similar_photos(
+  p_collage_id uuid,
+  p_phash text,
+  p_max_distance integer DEFAULT 10
+)
+RETURNS TABLE (photo_id uuid, distance integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id AS photo_id, photo_hash_distance(phash, p_phash) AS distance
+  FROM photos
+  WHERE collage_id = p_collage_id
+    AND phash IS NOT NULL
+    AND photo_hash_distance(phash, p_phash) <= p_max_distance
+  ORDER BY distance, created_at
+  LIMIT 10;
+$$;
+
+GRANT EXECUTE ON FUNCTION photo_hash_distance(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_similar_photos(uuid, text, integer) TO anon, authenticated;
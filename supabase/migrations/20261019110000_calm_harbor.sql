@@ -0,0 +1,85 @@
+/*
+  # Pre-Moderation
+
+  1. Changes
+    - Add `moderation_mode` to `collages`: 'post' (photos go live immediately, the previous
+      behaviour) or 'pre' (photos wait for approval)
+    - Add `status` to `photos`: 'pending', 'approved' or 'rejected'; existing photos are approved
+    - Add `moderated_at` to `photos`: when the status last changed
+    - BEFORE INSERT trigger sets the initial status from the collage's moderation mode, so
+      uploaders can't approve their own photos
+    - BEFORE UPDATE trigger stamps `moderated_at` on status changes
+
+  2. Benefits
+    - Organizers can require approval before anything appears on the big screen
+    - Status changes are normal UPDATEs, so realtime subscribers see approvals and rejections live
+*/
+
+ALTER TABLE collages ADD COLUMN IF NOT EXISTS moderation_mode text NOT NULL DEFAULT 'post';
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved';
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS moderated_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collages_moderation_mode_check'
+  ) THEN
+    ALTER TABLE collages ADD CONSTRAINT collages_moderation_mode_check CHECK (moderation_mode IN ('post', 'pre'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'photos_status_check'
+  ) THEN
+    ALTER TABLE photos ADD CONSTRAINT photos_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS photos_collage_status_idx ON photos(collage_id, status);
+
+COMMENT ON COLUMN collages.moderation_mode IS 'post: photos go live on upload; pre: photos wait for approval';
+COMMENT ON COLUMN photos.status IS 'pending, approved or rejected - viewers only show approved photos';
+
+-- Initial status comes from the collage, whatever the client sent
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT CASE WHEN moderation_mode = 'pre' THEN 'pending' ELSE 'approved' END
+  INTO NEW.status
+  FROM collages
+  WHERE id = NEW.collage_id;
+
+  -- Unknown collage - the foreign key rejects the row anyway
+  NEW.status := COALESCE(NEW.status, 'approved');
+  NEW.moderated_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_photo_initial_status ON photos;
+CREATE TRIGGER set_photo_initial_status
+  BEFORE INSERT ON photos
+  FOR EACH ROW
+  EXECUTE FUNCTION set_photo_initial_status();
+
+CREATE OR REPLACE FUNCTION touch_photo_moderated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.moderated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_photo_moderated_at ON photos;
+CREATE TRIGGER touch_photo_moderated_at
+  BEFORE UPDATE ON photos
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_photo_moderated_at();
@@ -0,0 +1,67 @@
+/*
+  # Photo Trash
+
+  1. Changes
+    - Add `deleted_at` to `photos`: deleting a photo now sets this instead of removing the row,
+      and the storage files are kept so the photo can be restored
+    - `find_similar_photos` ignores trashed photos
+    - Schedule the `purge-deleted-photos` Edge Function daily with pg_cron + pg_net. It permanently
+      removes photos (rows and storage files) that have been in the trash longer than the
+      retention period (30 days by default, `PHOTO_TRASH_RETENTION_DAYS` in the function env).
+      The job reads `project_url` and `service_role_key` from Vault - add both secrets once per project.
+
+  2. Benefits
+    - Accidental deletions during a live event can be restored from the Trash tab
+    - Storage is still reclaimed automatically
+*/
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS photos_deleted_at_idx ON photos(collage_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN photos.deleted_at IS 'When the photo was moved to the trash - null for live photos';
+
+CREATE OR REPLACE FUNCTION find_similar_photos(
+  p_collage_id uuid,
+  p_phash text,
+  p_max_distance integer DEFAULT 10
+)
+RETURNS TABLE (photo_id uuid, distance integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id AS photo_id, photo_hash_distance(phash, p_phash) AS distance
+  FROM photos
+  WHERE collage_id = p_collage_id
+    AND phash IS NOT NULL
+    AND deleted_at IS NULL
+    AND photo_hash_distance(phash, p_phash) <= p_max_distance
+  ORDER BY distance, created_at
+  LIMIT 10;
+$$;
+
+-- Daily purge at 04:00 UTC
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('purge-deleted-photos')
+  WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-deleted-photos');
+
+  PERFORM cron.schedule(
+    'purge-deleted-photos',
+    '0 4 * * *',
+    $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-deleted-photos',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+    $job$
+  );
+END $$;
@@ -0,0 +1,52 @@
+/*
+  # Content Safety Screening
+
+  1. Changes
+    - Add `safety_labels` (jsonb array of {label, score}), `safety_provider` and `safety_held` to `photos`
+    - `set_photo_initial_status` also inserts photos as 'pending' when the uploader's screening held
+      them, whatever the collage's moderation mode
+
+  2. Benefits
+    - Images the screening provider flags never reach public screens without a moderator's approval
+    - Moderators can see which labels caused the hold
+*/
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS safety_labels jsonb;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS safety_provider text;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS safety_held boolean NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'photos_safety_labels_array'
+  ) THEN
+    ALTER TABLE photos ADD CONSTRAINT photos_safety_labels_array
+      CHECK (safety_labels IS NULL OR jsonb_typeof(safety_labels) = 'array');
+  END IF;
+END $$;
+
+COMMENT ON COLUMN photos.safety_labels IS 'Labels and scores from content safety screening - null if the photo was not screened';
+COMMENT ON COLUMN photos.safety_held IS 'Screening flagged the photo (or failed), so it was inserted as pending';
+
+-- Screening can only make a photo stricter: a held photo always starts pending
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT CASE WHEN moderation_mode = 'pre' THEN 'pending' ELSE 'approved' END
+  INTO NEW.status
+  FROM collages
+  WHERE id = NEW.collage_id;
+
+  -- Unknown collage - the foreign key rejects the row anyway
+  NEW.status := COALESCE(NEW.status, 'approved');
+  IF NEW.safety_held THEN
+    NEW.status := 'pending';
+  END IF;
+  NEW.moderated_at := NULL;
+  RETURN NEW;
+END;
+$$;
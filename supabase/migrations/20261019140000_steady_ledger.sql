@@ -0,0 +1,250 @@
+/*
+  # Moderation Audit Log
+
+  1. Changes
+    - New `moderation_events` table: collage, photo, actor (user id, email and JWT role), action,
+      optional reason, details and timestamp
+    - Triggers record every moderation change, whichever client makes it:
+      - photos: approve / reject / requeue (status), delete / restore (trash), purge (row deleted),
+        dismiss_duplicate
+      - collages: moderation_mode, rename
+      - collage_settings: settings (edits by the same actor within 5 minutes are merged into one event)
+    - Clients pass an optional reason in the `x-moderation-reason` request header (base64 UTF-8),
+      which PostgREST exposes to the triggers through `request.headers`
+    - RLS: collage owners can read their collage's events (anyone, for collages without an owner);
+      nobody can write to the table directly
+
+  2. Benefits
+    - "Who removed my photo?" has an answer
+    - The log can't be skipped or edited from the browser
+*/
+
+CREATE TABLE IF NOT EXISTS moderation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collage_id uuid NOT NULL REFERENCES collages(id) ON DELETE CASCADE,
+  photo_id uuid, -- No foreign key: the history outlives purged photos
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text,
+  actor_role text, -- 'authenticated', 'anon' or 'service_role' (scheduled jobs)
+  action text NOT NULL,
+  reason text,
+  details jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'moderation_events_action_check'
+  ) THEN
+    ALTER TABLE moderation_events ADD CONSTRAINT moderation_events_action_check
+      CHECK (action IN (
+        'approve', 'reject', 'requeue', 'delete', 'restore', 'purge', 'dismiss_duplicate',
+        'moderation_mode', 'rename', 'settings'
+      ));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS moderation_events_collage_created_idx ON moderation_events(collage_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS moderation_events_photo_id_idx ON moderation_events(photo_id) WHERE photo_id IS NOT NULL;
+
+ALTER TABLE moderation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Collage owners can view moderation events" ON moderation_events;
+CREATE POLICY "Collage owners can view moderation events"
+  ON moderation_events FOR SELECT
+  TO public
+  USING (
+    EXISTS (
+      SELECT 1 FROM collages
+      WHERE collages.id = moderation_events.collage_id
+        AND (collages.user_id IS NULL OR collages.user_id = auth.uid())
+    )
+  );
+
+-- Optional reason sent with the request, base64 encoded so any text survives HTTP headers
+CREATE OR REPLACE FUNCTION current_moderation_reason()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  encoded text;
+BEGIN
+  encoded := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-moderation-reason';
+  IF encoded IS NULL OR encoded = '' THEN
+    RETURN NULL;
+  END IF;
+  RETURN left(convert_from(decode(encoded, 'base64'), 'UTF8'), 500);
+EXCEPTION WHEN others THEN
+  -- A malformed reason never blocks the moderation action itself
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_moderation_event(
+  p_collage_id uuid,
+  p_photo_id uuid,
+  p_action text,
+  p_details jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claims json := NULLIF(current_setting('request.jwt.claims', true), '')::json;
+BEGIN
+  INSERT INTO moderation_events (collage_id, photo_id, actor_id, actor_email, actor_role, action, reason, details)
+  VALUES (
+    p_collage_id,
+    p_photo_id,
+    auth.uid(),
+    claims ->> 'email',
+    COALESCE(claims ->> 'role', current_user),
+    p_action,
+    current_moderation_reason(),
+    p_details
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_moderation_event(uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION log_photo_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Photos removed along with their collage take its history with them
+    IF EXISTS (SELECT 1 FROM collages WHERE id = OLD.collage_id) THEN
+      PERFORM record_moderation_event(OLD.collage_id, OLD.id, 'purge', jsonb_build_object('deleted_at', OLD.deleted_at));
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM record_moderation_event(
+      NEW.collage_id,
+      NEW.id,
+      CASE NEW.status WHEN 'approved' THEN 'approve' WHEN 'rejected' THEN 'reject' ELSE 'requeue' END,
+      jsonb_build_object('from', OLD.status, 'to', NEW.status)
+    );
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    PERFORM record_moderation_event(
+      NEW.collage_id,
+      NEW.id,
+      CASE WHEN NEW.deleted_at IS NULL THEN 'restore' ELSE 'delete' END
+    );
+  END IF;
+
+  -- Purging the original also clears duplicate_of (ON DELETE SET NULL) - that isn't a dismissal
+  IF OLD.duplicate_of IS NOT NULL AND NEW.duplicate_of IS NULL
+     AND EXISTS (SELECT 1 FROM photos WHERE id = OLD.duplicate_of) THEN
+    PERFORM record_moderation_event(
+      NEW.collage_id,
+      NEW.id,
+      'dismiss_duplicate',
+      jsonb_build_object('duplicate_of', OLD.duplicate_of)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_photo_moderation ON photos;
+CREATE TRIGGER log_photo_moderation
+  AFTER UPDATE OR DELETE ON photos
+  FOR EACH ROW
+  EXECUTE FUNCTION log_photo_moderation();
+
+CREATE OR REPLACE FUNCTION log_collage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.moderation_mode IS DISTINCT FROM OLD.moderation_mode THEN
+    PERFORM record_moderation_event(
+      NEW.id,
+      NULL,
+      'moderation_mode',
+      jsonb_build_object('from', OLD.moderation_mode, 'to', NEW.moderation_mode)
+    );
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    PERFORM record_moderation_event(NEW.id, NULL, 'rename', jsonb_build_object('from', OLD.name, 'to', NEW.name));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_collage_change ON collages;
+CREATE TRIGGER log_collage_change
+  AFTER UPDATE ON collages
+  FOR EACH ROW
+  EXECUTE FUNCTION log_collage_change();
+
+-- The editor saves as settings change, so one editing session would otherwise log dozens of
+-- events. Edits by the same actor within 5 minutes extend the previous event instead.
+CREATE OR REPLACE FUNCTION log_collage_settings_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_keys jsonb;
+  recent_event_id uuid;
+BEGIN
+  SELECT COALESCE(jsonb_agg(key ORDER BY key), '[]'::jsonb)
+  INTO changed_keys
+  FROM jsonb_each(COALESCE(NEW.settings, '{}'::jsonb)) AS new_settings
+  FULL JOIN jsonb_each(COALESCE(OLD.settings, '{}'::jsonb)) AS old_settings USING (key)
+  WHERE new_settings.value IS DISTINCT FROM old_settings.value;
+
+  IF jsonb_array_length(changed_keys) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO recent_event_id
+  FROM moderation_events
+  WHERE collage_id = NEW.collage_id
+    AND action = 'settings'
+    AND actor_id IS NOT DISTINCT FROM auth.uid()
+    AND created_at > now() - interval '5 minutes'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF recent_event_id IS NOT NULL THEN
+    UPDATE moderation_events
+    SET details = jsonb_build_object('keys', (
+          SELECT jsonb_agg(DISTINCT merged.key ORDER BY merged.key)
+          FROM jsonb_array_elements_text(COALESCE(details -> 'keys', '[]'::jsonb) || changed_keys) AS merged(key)
+        )),
+        created_at = now()
+    WHERE id = recent_event_id;
+  ELSE
+    PERFORM record_moderation_event(NEW.collage_id, NULL, 'settings', jsonb_build_object('keys', changed_keys));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_collage_settings_change ON collage_settings;
+CREATE TRIGGER log_collage_settings_change
+  AFTER UPDATE ON collage_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION log_collage_settings_change();
+
@@ -0,0 +1,290 @@
+/*
+  # Lock Down Row Level Security
+
+  1. Changes
+    - `collages.user_id` defaults to `auth.uid()`; only signed-in users can create collages, and only
+      for themselves
+    - Collage update/delete, `collage_settings` writes and photo update/delete are limited to the
+      collage owner (`is_collage_owner()`)
+    - New `collages.uploads_enabled` flag. Guests (anon or signed in) can only insert photos, and only
+      into collages that accept uploads (`collage_accepts_uploads()`)
+    - Storage: uploads only into the folder of a collage that accepts uploads; only the collage owner
+      can delete files (the scheduled purge uses the service role and is unaffected)
+    - `moderation_events` is readable by collage owners only
+    - Collages and settings stay readable by code. Photos are readable only while approved and not in
+      the trash; the owner still reads every photo of their collage (`photos_select_owner`), for the
+      moderation queue, hidden photos and the trash.
+    - `find_similar_photos` runs as SECURITY DEFINER so duplicate checks still see pending photos,
+      but only for callers who could upload to the collage right now or its owner. Guests get the
+      distance of a pending or hidden match without its id.
+    - New `link_duplicate_photo` trigger: when the uploader couldn't name the photo theirs duplicates,
+      the closest live photo within 10 bits is filled into `duplicate_of` on insert
+    - New `broadcast_photo_hidden` trigger. Realtime only sends an UPDATE to clients that can read the
+      new row, so guests would never hear that a photo was hidden or trashed. The trigger sends a
+      `photo_hidden` broadcast with just the photo id on the `photos_<collage id>` channel instead.
+    - Drop `test_realtime(collage_id)`. Anyone could call it, and as SECURITY DEFINER it inserted a
+      photo into any collage past the upload policies.
+
+  2. Notes
+    - Collages created before this migration have no owner and become read-only for every client.
+      Assign them with e.g.
+        UPDATE collages SET user_id = '<auth user id>' WHERE user_id IS NULL AND code = 'ABCD';
+    - Guests insert photos without RETURNING - they can't read their own photo while it's pending
+    - Storage files stay in the public bucket; their paths are random and only listed in readable rows
+    - Tests: supabase/tests/database/rls_lockdown.test.sql (pgTAP, run with `supabase test db`)
+
+  3. Benefits
+    - The anon key can no longer rename, rewrite or delete other people's collages and photos
+    - Photos waiting for approval or held by screening can't be pulled straight from the API
+*/
+
+-- Ownership
+ALTER TABLE collages ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+ALTER TABLE collages ADD COLUMN IF NOT EXISTS uploads_enabled boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN collages.uploads_enabled IS 'Guests can add photos while true';
+
+-- Policy helpers. SECURITY DEFINER so policies on other tables can look at collages without
+-- depending on the caller's own collage policies.
+CREATE OR REPLACE FUNCTION is_collage_owner(p_collage_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM collages
+    WHERE id = p_collage_id
+      AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION collage_accepts_uploads(p_collage_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collages
+    WHERE id = p_collage_id
+      AND uploads_enabled
+  );
+$$;
+
+-- Storage object names are "<collage id>/<file>" - anything else belongs to no collage
+CREATE OR REPLACE FUNCTION storage_path_collage_id(p_name text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN split_part(p_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(p_name, '/', 1)::uuid
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_collage_owner(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION collage_accepts_uploads(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION storage_path_collage_id(text) TO anon, authenticated;
+
+-- collages
+DROP POLICY IF EXISTS "Anyone can view collages" ON collages;
+DROP POLICY IF EXISTS "Anyone can create collages" ON collages;
+DROP POLICY IF EXISTS "Anyone can update collages" ON collages;
+DROP POLICY IF EXISTS "Anyone can delete collages" ON collages;
+DROP POLICY IF EXISTS "collages_select_public" ON collages;
+DROP POLICY IF EXISTS "collages_insert_own" ON collages;
+DROP POLICY IF EXISTS "collages_update_owner" ON collages;
+DROP POLICY IF EXISTS "collages_delete_owner" ON collages;
+
+CREATE POLICY "collages_select_public"
+  ON collages FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "collages_insert_own"
+  ON collages FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "collages_update_owner"
+  ON collages FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "collages_delete_owner"
+  ON collages FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- collage_settings - rows are created by the create_default_collage_settings trigger
+DROP POLICY IF EXISTS "collage_settings_completely_open" ON collage_settings;
+DROP POLICY IF EXISTS "collage_settings_select_public" ON collage_settings;
+DROP POLICY IF EXISTS "collage_settings_update_owner" ON collage_settings;
+
+CREATE POLICY "collage_settings_select_public"
+  ON collage_settings FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "collage_settings_update_owner"
+  ON collage_settings FOR UPDATE
+  TO authenticated
+  USING (is_collage_owner(collage_id))
+  WITH CHECK (is_collage_owner(collage_id));
+
+-- photos
+DROP POLICY IF EXISTS "photos_completely_open" ON photos;
+DROP POLICY IF EXISTS "photos_select_public" ON photos;
+DROP POLICY IF EXISTS "photos_select_owner" ON photos;
+DROP POLICY IF EXISTS "photos_insert_guest" ON photos;
+DROP POLICY IF EXISTS "photos_update_owner" ON photos;
+DROP POLICY IF EXISTS "photos_delete_owner" ON photos;
+
+CREATE POLICY "photos_select_public"
+  ON photos FOR SELECT
+  TO public
+  USING (status = 'approved' AND deleted_at IS NULL);
+
+CREATE POLICY "photos_select_owner"
+  ON photos FOR SELECT
+  TO authenticated
+  USING (is_collage_owner(collage_id));
+
+CREATE POLICY "photos_insert_guest"
+  ON photos FOR INSERT
+  TO public
+  WITH CHECK (
+    collage_accepts_uploads(collage_id)
+    AND deleted_at IS NULL
+  );
+
+CREATE POLICY "photos_update_owner"
+  ON photos FOR UPDATE
+  TO authenticated
+  USING (is_collage_owner(collage_id))
+  WITH CHECK (is_collage_owner(collage_id));
+
+CREATE POLICY "photos_delete_owner"
+  ON photos FOR DELETE
+  TO authenticated
+  USING (is_collage_owner(collage_id));
+
+-- Duplicate checks compare against every live photo, not just the ones the caller can read.
+-- Only uploaders and the owner get answers, and only the owner learns ids of photos only they can see.
+CREATE OR REPLACE FUNCTION find_similar_photos(
+  p_collage_id uuid,
+  p_phash text,
+  p_max_distance integer DEFAULT 10
+)
+RETURNS TABLE (photo_id uuid, distance integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN status = 'approved' OR is_collage_owner(p_collage_id) THEN id END AS photo_id,
+    photo_hash_distance(phash, p_phash) AS distance
+  FROM photos
+  WHERE collage_id = p_collage_id
+    AND (collage_accepts_uploads(p_collage_id) OR is_collage_owner(p_collage_id))
+    AND phash IS NOT NULL
+    AND deleted_at IS NULL
+    AND photo_hash_distance(phash, p_phash) <= p_max_distance
+  ORDER BY distance, created_at
+  LIMIT 10;
+$$;
+
+-- Guests don't learn ids of pending photos, so the server links the duplicate for them
+CREATE OR REPLACE FUNCTION link_duplicate_photo()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.duplicate_of IS NULL AND NEW.phash IS NOT NULL THEN
+    SELECT id INTO NEW.duplicate_of
+    FROM photos
+    WHERE collage_id = NEW.collage_id
+      AND id <> NEW.id
+      AND phash IS NOT NULL
+      AND deleted_at IS NULL
+      AND photo_hash_distance(phash, NEW.phash) <= 10
+    ORDER BY photo_hash_distance(phash, NEW.phash), created_at
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_duplicate_photo ON photos;
+CREATE TRIGGER link_duplicate_photo
+  BEFORE INSERT ON photos
+  FOR EACH ROW
+  EXECUTE FUNCTION link_duplicate_photo();
+
+-- Tell viewers a photo left the wall - the UPDATE itself is filtered out by RLS
+CREATE OR REPLACE FUNCTION broadcast_photo_hidden()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'approved' AND OLD.deleted_at IS NULL
+     AND (NEW.status IS DISTINCT FROM 'approved' OR NEW.deleted_at IS NOT NULL) THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', NEW.id),
+      'photo_hidden',
+      'photos_' || NEW.collage_id,
+      false
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS broadcast_photo_hidden ON photos;
+CREATE TRIGGER broadcast_photo_hidden
+  AFTER UPDATE ON photos
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_photo_hidden();
+
+DROP FUNCTION IF EXISTS public.test_realtime(uuid);
+
+-- moderation_events
+DROP POLICY IF EXISTS "Collage owners can view moderation events" ON moderation_events;
+CREATE POLICY "Collage owners can view moderation events"
+  ON moderation_events FOR SELECT
+  TO authenticated
+  USING (is_collage_owner(collage_id));
+
+-- Storage
+DROP POLICY IF EXISTS "Anyone can upload photos" ON storage.objects;
+DROP POLICY IF EXISTS "Public can upload photos" ON storage.objects;
+DROP POLICY IF EXISTS "Public can delete photos" ON storage.objects;
+DROP POLICY IF EXISTS "photos_storage_insert_guest" ON storage.objects;
+DROP POLICY IF EXISTS "photos_storage_delete_owner" ON storage.objects;
+
+CREATE POLICY "photos_storage_insert_guest"
+  ON storage.objects FOR INSERT
+  TO public
+  WITH CHECK (
+    bucket_id = 'photos'
+    AND collage_accepts_uploads(storage_path_collage_id(name))
+  );
+
+CREATE POLICY "photos_storage_delete_owner"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'photos'
+    AND is_collage_owner(storage_path_collage_id(name))
+  );
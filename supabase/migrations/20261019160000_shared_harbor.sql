@@ -0,0 +1,355 @@
+/*
+  # Collaborator Roles
+
+  1. Changes
+    - New `collage_members` table: a user's role on someone else's collage - `co_host`, `moderator`
+      or `viewer`. The owner stays `collages.user_id` and is never a member row.
+    - New `collage_invites` table: invite links bound to an email address and a role. Accepting goes
+      through `accept_collage_invite()`, which checks the signed-in user's confirmed email.
+    - Role helpers: `collage_role()` returns owner / co_host / moderator / viewer / NULL for the
+      signed-in user, `has_collage_role()` compares against a minimum role
+      (owner > co_host > moderator > viewer)
+    - RLS now follows the role:
+      - viewer: read the moderation log, the member list and every photo (pending, hidden and
+        trashed included), and get photo ids from `find_similar_photos`
+      - moderator: approve, hide, trash, restore and purge photos
+      - co_host: change scene settings, rename, approval mode and uploads
+      - owner: delete the collage, invite and manage members
+    - Only the owner can change `collages.user_id`
+
+  2. Benefits
+    - Event planners can hand moderation to venue staff without sharing their login
+*/
+
+CREATE TABLE IF NOT EXISTS collage_members (
+  collage_id uuid NOT NULL REFERENCES collages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text, -- Copied from the invite, for the member list
+  role text NOT NULL,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (collage_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS collage_members_user_id_idx ON collage_members(user_id);
+
+CREATE TABLE IF NOT EXISTS collage_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collage_id uuid NOT NULL REFERENCES collages(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(), -- The secret in the invite link
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- One open invite per address - inviting again replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS collage_invites_open_email_idx
+  ON collage_invites(collage_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_members_role_check'
+  ) THEN
+    ALTER TABLE collage_members ADD CONSTRAINT collage_members_role_check
+      CHECK (role IN ('co_host', 'moderator', 'viewer'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_invites_role_check'
+  ) THEN
+    ALTER TABLE collage_invites ADD CONSTRAINT collage_invites_role_check
+      CHECK (role IN ('co_host', 'moderator', 'viewer'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_invites_email_format'
+  ) THEN
+    ALTER TABLE collage_invites ADD CONSTRAINT collage_invites_email_format
+      CHECK (email ~ '^[^@\s]+@[^@\s]+$');
+  END IF;
+END $$;
+
+ALTER TABLE collage_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collage_invites ENABLE ROW LEVEL SECURITY;
+
+-- Role helpers
+CREATE OR REPLACE FUNCTION collage_role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 4
+    WHEN 'co_host' THEN 3
+    WHEN 'moderator' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION collage_role(p_collage_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN NULL
+    WHEN is_collage_owner(p_collage_id) THEN 'owner'
+    ELSE (
+      SELECT role FROM collage_members
+      WHERE collage_id = p_collage_id
+        AND user_id = auth.uid()
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_collage_role(p_collage_id uuid, p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(collage_role_rank(collage_role(p_collage_id)) >= collage_role_rank(p_role), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION collage_role_rank(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION collage_role(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION has_collage_role(uuid, text) TO anon, authenticated;
+
+-- Co-hosts can update collages, but ownership only moves when the owner moves it
+CREATE OR REPLACE FUNCTION protect_collage_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+     AND auth.uid() IS NOT NULL
+     AND OLD.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner can transfer a collage' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_collage_owner ON collages;
+CREATE TRIGGER protect_collage_owner
+  BEFORE UPDATE ON collages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_collage_owner();
+
+-- Invite page: what the link is for, before signing in. The token is the secret.
+CREATE OR REPLACE FUNCTION get_collage_invite(p_token uuid)
+RETURNS TABLE (
+  collage_id uuid,
+  collage_name text,
+  email text,
+  role text,
+  expires_at timestamptz,
+  accepted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.collage_id, c.name, i.email, i.role, i.expires_at, i.accepted_at
+  FROM collage_invites i
+  JOIN collages c ON c.id = i.collage_id
+  WHERE i.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_collage_invite(p_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite collage_invites%ROWTYPE;
+  user_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invite' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO invite FROM collage_invites WHERE token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite link is not valid' USING ERRCODE = 'P0002';
+  END IF;
+  IF invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite has already been used' USING ERRCODE = 'P0001';
+  END IF;
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite has expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- An unconfirmed address could belong to anyone who typed it in at sign-up
+  SELECT u.email INTO user_email
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL;
+  IF user_email IS NULL THEN
+    RAISE EXCEPTION 'Confirm your email address before accepting this invite' USING ERRCODE = '42501';
+  END IF;
+  IF lower(user_email) <> lower(invite.email) THEN
+    RAISE EXCEPTION 'This invite was sent to %', invite.email USING ERRCODE = '42501';
+  END IF;
+
+  -- The owner already has every permission
+  IF NOT is_collage_owner(invite.collage_id) THEN
+    INSERT INTO collage_members (collage_id, user_id, email, role, invited_by)
+    VALUES (invite.collage_id, auth.uid(), user_email, invite.role, invite.invited_by)
+    ON CONFLICT (collage_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+
+  UPDATE collage_invites
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = invite.id;
+
+  RETURN invite.collage_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_collage_invite(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_collage_invite(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_collage_invite(uuid) TO authenticated;
+
+-- collage_members: the team can see itself; the owner changes roles; anyone can leave
+DROP POLICY IF EXISTS "collage_members_select_team" ON collage_members;
+DROP POLICY IF EXISTS "collage_members_update_owner" ON collage_members;
+DROP POLICY IF EXISTS "collage_members_delete_owner_or_self" ON collage_members;
+
+CREATE POLICY "collage_members_select_team"
+  ON collage_members FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_collage_role(collage_id, 'viewer'));
+
+CREATE POLICY "collage_members_update_owner"
+  ON collage_members FOR UPDATE
+  TO authenticated
+  USING (is_collage_owner(collage_id))
+  WITH CHECK (is_collage_owner(collage_id));
+
+CREATE POLICY "collage_members_delete_owner_or_self"
+  ON collage_members FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() OR is_collage_owner(collage_id));
+
+-- collage_invites: owner only. Accepting goes through accept_collage_invite().
+DROP POLICY IF EXISTS "collage_invites_select_owner" ON collage_invites;
+DROP POLICY IF EXISTS "collage_invites_insert_owner" ON collage_invites;
+DROP POLICY IF EXISTS "collage_invites_delete_owner" ON collage_invites;
+
+CREATE POLICY "collage_invites_select_owner"
+  ON collage_invites FOR SELECT
+  TO authenticated
+  USING (is_collage_owner(collage_id));
+
+CREATE POLICY "collage_invites_insert_owner"
+  ON collage_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (is_collage_owner(collage_id) AND accepted_at IS NULL);
+
+CREATE POLICY "collage_invites_delete_owner"
+  ON collage_invites FOR DELETE
+  TO authenticated
+  USING (is_collage_owner(collage_id));
+
+-- collages: co-hosts can update, only the owner deletes (collages_delete_owner is unchanged)
+DROP POLICY IF EXISTS "collages_update_owner" ON collages;
+DROP POLICY IF EXISTS "collages_update_co_host" ON collages;
+
+CREATE POLICY "collages_update_co_host"
+  ON collages FOR UPDATE
+  TO authenticated
+  USING (has_collage_role(id, 'co_host'))
+  WITH CHECK (has_collage_role(id, 'co_host'));
+
+-- collage_settings: scene settings belong to co-hosts
+DROP POLICY IF EXISTS "collage_settings_update_owner" ON collage_settings;
+DROP POLICY IF EXISTS "collage_settings_update_co_host" ON collage_settings;
+
+CREATE POLICY "collage_settings_update_co_host"
+  ON collage_settings FOR UPDATE
+  TO authenticated
+  USING (has_collage_role(collage_id, 'co_host'))
+  WITH CHECK (has_collage_role(collage_id, 'co_host'));
+
+-- photos: the whole team reads every photo, moderators approve, hide, trash, restore and purge
+DROP POLICY IF EXISTS "photos_select_owner" ON photos;
+DROP POLICY IF EXISTS "photos_select_team" ON photos;
+DROP POLICY IF EXISTS "photos_update_owner" ON photos;
+DROP POLICY IF EXISTS "photos_delete_owner" ON photos;
+DROP POLICY IF EXISTS "photos_update_moderator" ON photos;
+DROP POLICY IF EXISTS "photos_delete_moderator" ON photos;
+
+CREATE POLICY "photos_select_team"
+  ON photos FOR SELECT
+  TO authenticated
+  USING (has_collage_role(collage_id, 'viewer'));
+
+CREATE POLICY "photos_update_moderator"
+  ON photos FOR UPDATE
+  TO authenticated
+  USING (has_collage_role(collage_id, 'moderator'))
+  WITH CHECK (has_collage_role(collage_id, 'moderator'));
+
+CREATE POLICY "photos_delete_moderator"
+  ON photos FOR DELETE
+  TO authenticated
+  USING (has_collage_role(collage_id, 'moderator'));
+
+-- Duplicate checks: the team gets ids of photos only it can see
+CREATE OR REPLACE FUNCTION find_similar_photos(
+  p_collage_id uuid,
+  p_phash text,
+  p_max_distance integer DEFAULT 10
+)
+RETURNS TABLE (photo_id uuid, distance integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN status = 'approved' OR has_collage_role(p_collage_id, 'viewer') THEN id END AS photo_id,
+    photo_hash_distance(phash, p_phash) AS distance
+  FROM photos
+  WHERE collage_id = p_collage_id
+    AND (collage_accepts_uploads(p_collage_id) OR has_collage_role(p_collage_id, 'viewer'))
+    AND phash IS NOT NULL
+    AND deleted_at IS NULL
+    AND photo_hash_distance(phash, p_phash) <= p_max_distance
+  ORDER BY distance, created_at
+  LIMIT 10;
+$$;
+
+-- moderation_events: the whole team can read the log
+DROP POLICY IF EXISTS "Collage owners can view moderation events" ON moderation_events;
+DROP POLICY IF EXISTS "Collage team can view moderation events" ON moderation_events;
+CREATE POLICY "Collage team can view moderation events"
+  ON moderation_events FOR SELECT
+  TO authenticated
+  USING (has_collage_role(collage_id, 'viewer'));
+
+-- Storage: purging removes files, so moderators can delete them
+DROP POLICY IF EXISTS "photos_storage_delete_owner" ON storage.objects;
+DROP POLICY IF EXISTS "photos_storage_delete_moderator" ON storage.objects;
+
+CREATE POLICY "photos_storage_delete_moderator"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'photos'
+    AND has_collage_role(storage_path_collage_id(name), 'moderator')
+  );
@@ -0,0 +1,434 @@
+/*
+  # Guest Upload Policies
+
+  1. Changes
+    - New `collage_upload_policies` table, one optional row per collage:
+      - `pin`: the 6-8 digit PIN guests must enter before they can upload
+      - `opens_at` / `closes_at`: the upload window
+      - `max_per_device`: photos one device can add
+      - `max_photos`: photos the collage can hold, trash excluded
+      Only co-hosts and the owner can read it, so the PIN never reaches guests.
+    - New `photos.upload_device`: the device id the photo was uploaded from
+    - The PIN is only checked by `verify_upload_pin(collage_id, pin)`. A right PIN returns an upload
+      pass, which guests send with every upload in the `x-upload-pass` header together with their
+      device id in `x-upload-device`. PostgREST and Storage expose both through `request.headers`.
+    - New `upload_pin_attempts` table: wrong PINs per collage, device and IP address. After 5 wrong
+      PINs from a device, 20 from an IP address across all collages, or 50 for the whole collage,
+      within 15 minutes, `verify_upload_pin` answers `pin_locked` without checking the PIN
+    - New `upload_passes` table: passes handed out by `verify_upload_pin`. A pass stops working when
+      the PIN changes.
+    - `collage_accepts_uploads()` now applies the whole policy, so the existing photo and storage
+      insert policies enforce it. A BEFORE INSERT trigger on photos raises
+      `upload_denied:<reason>` first, so clients can show why.
+    - `get_upload_access()` tells a guest whether they can upload and why not, for the pass and device
+      in their request headers. It never returns the PIN.
+    - Moderators and up skip the PIN, window and per-device limit. `uploads_enabled` and
+      `max_photos` apply to everyone.
+
+  2. Notes
+    - Device ids come from the client. The per-device limit stops casual over-posting; clearing
+      site data gets a new device id.
+    - Deleting a guest's photos doesn't give the device more uploads. Trashing photos does make
+      room under `max_photos`.
+    - The IP address is `cf-connecting-ip`, or the first `x-forwarded-for` entry behind other
+      proxies. The latter can be made up, so the collage-wide limit stays as the backstop.
+    - The collage-wide limit means someone guessing can keep new guests from entering the PIN for a
+      while. Guests who already have a pass keep uploading, and changing the PIN doesn't reset it.
+    - Tests: supabase/tests/database/upload_policies.test.sql (pgTAP, run with `supabase test db`)
+
+  3. Benefits
+    - Knowing the 4-character code is no longer enough to post to a private event forever
+    - The PIN can't be brute-forced through the anon key
+*/
+
+CREATE TABLE IF NOT EXISTS collage_upload_policies (
+  collage_id uuid PRIMARY KEY REFERENCES collages(id) ON DELETE CASCADE,
+  pin text,
+  opens_at timestamptz,
+  closes_at timestamptz,
+  max_per_device integer,
+  max_photos integer,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid()
+);
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS upload_device text;
+
+COMMENT ON COLUMN photos.upload_device IS 'Device id sent in x-upload-device - counted for max_per_device';
+
+CREATE INDEX IF NOT EXISTS photos_upload_device_idx
+  ON photos(collage_id, upload_device)
+  WHERE upload_device IS NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_upload_policies_pin_format'
+  ) THEN
+    ALTER TABLE collage_upload_policies ADD CONSTRAINT collage_upload_policies_pin_format
+      CHECK (pin ~ '^[0-9]{6,8}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_upload_policies_window_order'
+  ) THEN
+    ALTER TABLE collage_upload_policies ADD CONSTRAINT collage_upload_policies_window_order
+      CHECK (opens_at IS NULL OR closes_at IS NULL OR opens_at < closes_at);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_upload_policies_limits_positive'
+  ) THEN
+    ALTER TABLE collage_upload_policies ADD CONSTRAINT collage_upload_policies_limits_positive
+      CHECK (COALESCE(max_per_device, 1) > 0 AND COALESCE(max_photos, 1) > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'photos_upload_device_length'
+  ) THEN
+    ALTER TABLE photos ADD CONSTRAINT photos_upload_device_length
+      CHECK (char_length(upload_device) <= 64);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS upload_pin_attempts (
+  id bigserial PRIMARY KEY,
+  collage_id uuid NOT NULL REFERENCES collages(id) ON DELETE CASCADE,
+  device text,
+  ip text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS upload_pin_attempts_collage_idx ON upload_pin_attempts(collage_id, created_at);
+CREATE INDEX IF NOT EXISTS upload_pin_attempts_ip_idx ON upload_pin_attempts(ip, created_at) WHERE ip IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS upload_passes (
+  token text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  collage_id uuid NOT NULL REFERENCES collages(id) ON DELETE CASCADE,
+  pin text NOT NULL, -- The PIN it was issued for
+  device text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS upload_passes_collage_id_idx ON upload_passes(collage_id);
+
+ALTER TABLE collage_upload_policies ENABLE ROW LEVEL SECURITY;
+-- Only the SECURITY DEFINER functions below read or write these
+ALTER TABLE upload_pin_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upload_passes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION touch_collage_upload_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_collage_upload_policy ON collage_upload_policies;
+CREATE TRIGGER touch_collage_upload_policy
+  BEFORE UPDATE ON collage_upload_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_collage_upload_policy();
+
+-- A request header from PostgREST or Storage, NULL when missing or blank
+CREATE OR REPLACE FUNCTION request_header(p_name text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(btrim(NULLIF(current_setting('request.headers', true), '')::json ->> lower(p_name)), '');
+$$;
+
+-- The caller's IP address as the API gateway saw it, NULL when unknown
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT left(COALESCE(
+    request_header('cf-connecting-ip'),
+    NULLIF(btrim(split_part(request_header('x-forwarded-for'), ',', 1)), '')
+  ), 64);
+$$;
+
+-- Too many wrong PINs lately from this device, from this IP address on any collage, or for this
+-- collage
+CREATE OR REPLACE FUNCTION upload_pin_locked(p_collage_id uuid, p_device text, p_ip text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    SELECT count(*) FROM upload_pin_attempts
+    WHERE collage_id = p_collage_id
+      AND created_at > now() - interval '15 minutes'
+  ) >= 50
+  OR (
+    p_device IS NOT NULL AND (
+      SELECT count(*) FROM upload_pin_attempts
+      WHERE collage_id = p_collage_id
+        AND device = p_device
+        AND created_at > now() - interval '15 minutes'
+    ) >= 5
+  )
+  OR (
+    p_ip IS NOT NULL AND (
+      SELECT count(*) FROM upload_pin_attempts
+      WHERE ip = p_ip
+        AND created_at > now() - interval '15 minutes'
+    ) >= 20
+  );
+$$;
+
+-- Why an upload to this collage would be refused, or NULL if it's allowed. Reasons:
+-- not_found, disabled, collage_full, not_open, closed, pin_required, pin_locked, device_required,
+-- device_limit
+CREATE OR REPLACE FUNCTION upload_denied_reason(p_collage_id uuid, p_pass text, p_device text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  accepting boolean;
+  policy collage_upload_policies%ROWTYPE;
+BEGIN
+  SELECT uploads_enabled INTO accepting FROM collages WHERE id = p_collage_id;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+  IF NOT accepting THEN
+    RETURN 'disabled';
+  END IF;
+
+  SELECT * INTO policy FROM collage_upload_policies WHERE collage_id = p_collage_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF policy.max_photos IS NOT NULL AND (
+    SELECT count(*) FROM photos WHERE collage_id = p_collage_id AND deleted_at IS NULL
+  ) >= policy.max_photos THEN
+    RETURN 'collage_full';
+  END IF;
+
+  -- The team isn't held to guest rules
+  IF has_collage_role(p_collage_id, 'moderator') THEN
+    RETURN NULL;
+  END IF;
+
+  IF policy.opens_at IS NOT NULL AND now() < policy.opens_at THEN
+    RETURN 'not_open';
+  END IF;
+  IF policy.closes_at IS NOT NULL AND now() >= policy.closes_at THEN
+    RETURN 'closed';
+  END IF;
+
+  -- A missing pass and one from before the PIN changed both mean "enter the PIN"
+  IF policy.pin IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM upload_passes
+    WHERE token = p_pass
+      AND collage_id = p_collage_id
+      AND pin = policy.pin
+  ) THEN
+    RETURN CASE WHEN upload_pin_locked(p_collage_id, p_device, request_client_ip()) THEN 'pin_locked' ELSE 'pin_required' END;
+  END IF;
+
+  IF policy.max_per_device IS NOT NULL THEN
+    IF p_device IS NULL THEN
+      RETURN 'device_required';
+    END IF;
+    IF (
+      SELECT count(*) FROM photos WHERE collage_id = p_collage_id AND upload_device = p_device
+    ) >= policy.max_per_device THEN
+      RETURN 'device_limit';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Internal to the functions below
+REVOKE ALL ON FUNCTION upload_denied_reason(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION upload_pin_locked(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Used by photos_insert_guest and photos_storage_insert_guest - now the whole upload policy
+CREATE OR REPLACE FUNCTION collage_accepts_uploads(p_collage_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT upload_denied_reason(
+    p_collage_id,
+    request_header('x-upload-pass'),
+    left(request_header('x-upload-device'), 64)
+  ) IS NULL;
+$$;
+
+-- Same check as the insert policy, but with a reason the client can show. Runs before RLS.
+CREATE OR REPLACE FUNCTION enforce_upload_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_role text := NULLIF(current_setting('request.jwt.claims', true), '')::json ->> 'role';
+  reason text;
+BEGIN
+  -- Service role jobs and direct SQL aren't guests
+  IF request_role IS NULL OR request_role NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Clients can't pick a device to count against, only send their own
+  NEW.upload_device := left(request_header('x-upload-device'), 64);
+
+  -- One upload at a time per collage, so simultaneous uploads can't overshoot the limits
+  PERFORM pg_advisory_xact_lock(hashtext('collage_uploads:' || NEW.collage_id::text));
+
+  reason := upload_denied_reason(NEW.collage_id, request_header('x-upload-pass'), NEW.upload_device);
+  IF reason IS NOT NULL THEN
+    RAISE EXCEPTION 'upload_denied:%', reason USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The only place a PIN is checked. Returns a pass for a right PIN, otherwise why not
+-- (not_found, pin_invalid, pin_locked). Collages without a PIN need no pass.
+CREATE OR REPLACE FUNCTION verify_upload_pin(p_collage_id uuid, p_pin text)
+RETURNS TABLE (pass text, reason text)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_device text := left(request_header('x-upload-device'), 64);
+  request_ip text := request_client_ip();
+  policy_pin text;
+  new_pass text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM collages WHERE id = p_collage_id) THEN
+    RETURN QUERY SELECT NULL::text, 'not_found'::text;
+    RETURN;
+  END IF;
+
+  SELECT pin INTO policy_pin FROM collage_upload_policies WHERE collage_id = p_collage_id;
+  IF policy_pin IS NULL THEN
+    RETURN QUERY SELECT NULL::text, NULL::text;
+    RETURN;
+  END IF;
+
+  -- Count attempts one at a time, so parallel guesses can't slip past the limits
+  PERFORM pg_advisory_xact_lock(hashtext('upload_pin:' || p_collage_id::text));
+  IF request_ip IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('upload_pin_ip:' || request_ip));
+  END IF;
+
+  DELETE FROM upload_pin_attempts
+  WHERE collage_id = p_collage_id
+    AND created_at < now() - interval '1 day';
+
+  IF upload_pin_locked(p_collage_id, request_device, request_ip) THEN
+    RETURN QUERY SELECT NULL::text, 'pin_locked'::text;
+    RETURN;
+  END IF;
+
+  IF NULLIF(btrim(p_pin), '') IS DISTINCT FROM policy_pin THEN
+    INSERT INTO upload_pin_attempts (collage_id, device, ip) VALUES (p_collage_id, request_device, request_ip);
+    RETURN QUERY SELECT NULL::text, 'pin_invalid'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO upload_passes (collage_id, pin, device)
+  VALUES (p_collage_id, policy_pin, request_device)
+  RETURNING token INTO new_pass;
+
+  RETURN QUERY SELECT new_pass, NULL::text;
+END;
+$$;
+
+-- What the photobooth shows before the camera opens, for the pass and device in the request
+-- headers. Never returns the PIN itself.
+CREATE OR REPLACE FUNCTION get_upload_access(p_collage_id uuid)
+RETURNS TABLE (
+  allowed boolean,
+  reason text,
+  pin_required boolean,
+  opens_at timestamptz,
+  closes_at timestamptz,
+  max_per_device integer,
+  device_uploads integer,
+  max_photos integer,
+  photo_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH check_result AS (
+    SELECT
+      upload_denied_reason(p_collage_id, request_header('x-upload-pass'), left(request_header('x-upload-device'), 64)) AS reason,
+      has_collage_role(p_collage_id, 'moderator') AS team,
+      left(request_header('x-upload-device'), 64) AS device
+  )
+  SELECT
+    r.reason IS NULL,
+    r.reason,
+    p.pin IS NOT NULL AND NOT r.team,
+    p.opens_at,
+    p.closes_at,
+    CASE WHEN r.team THEN NULL ELSE p.max_per_device END,
+    CASE WHEN r.team OR p.max_per_device IS NULL OR r.device IS NULL THEN NULL ELSE (
+      SELECT count(*)::integer FROM photos WHERE collage_id = p_collage_id AND upload_device = r.device
+    ) END,
+    p.max_photos,
+    (SELECT count(*)::integer FROM photos WHERE collage_id = p_collage_id AND deleted_at IS NULL)
+  FROM check_result r
+  LEFT JOIN collage_upload_policies p ON p.collage_id = p_collage_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_header(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_upload_access(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_upload_pin(uuid, text) TO anon, authenticated;
+
+-- collage_upload_policies: co-hosts and the owner
+DROP POLICY IF EXISTS "collage_upload_policies_select_co_host" ON collage_upload_policies;
+DROP POLICY IF EXISTS "collage_upload_policies_insert_co_host" ON collage_upload_policies;
+DROP POLICY IF EXISTS "collage_upload_policies_update_co_host" ON collage_upload_policies;
+DROP POLICY IF EXISTS "collage_upload_policies_delete_co_host" ON collage_upload_policies;
+
+CREATE POLICY "collage_upload_policies_select_co_host"
+  ON collage_upload_policies FOR SELECT
+  TO authenticated
+  USING (has_collage_role(collage_id, 'co_host'));
+
+CREATE POLICY "collage_upload_policies_insert_co_host"
+  ON collage_upload_policies FOR INSERT
+  TO authenticated
+  WITH CHECK (has_collage_role(collage_id, 'co_host'));
+
+CREATE POLICY "collage_upload_policies_update_co_host"
+  ON collage_upload_policies FOR UPDATE
+  TO authenticated
+  USING (has_collage_role(collage_id, 'co_host'))
+  WITH CHECK (has_collage_role(collage_id, 'co_host'));
+
+CREATE POLICY "collage_upload_policies_delete_co_host"
+  ON collage_upload_policies FOR DELETE
+  TO authenticated
+  USING (has_collage_role(collage_id, 'co_host'));
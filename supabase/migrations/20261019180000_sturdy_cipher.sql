@@ -0,0 +1,190 @@
+/*
+  # Collision-Safe Collage Codes
+
+  1. Changes
+    - New single-row `collage_code_config` table: `code_length` (default 4), `alphabet` (default
+      without the look-alikes 0/O and 1/I) and `max_attempts` per length
+    - `generate_collage_code()` draws random codes from the config and skips codes already in use.
+      When `max_attempts` draws at one length are all taken it moves up a length instead of failing.
+      It is the new default for `collages.code`.
+    - `create_collage(name, code)` inserts a collage and retries with a fresh code if another insert
+      claimed the same one in the meantime. A requested vanity code is never swapped - if it's
+      taken the call fails with `collage_code_taken`.
+    - `code_format` now allows 4-20 letters and digits, so organizers can reserve vanity codes like
+      `SMITHWEDDING`. Existing 4-character codes stay valid.
+    - `normalize_collage_code` trigger: codes are stored upper-case without spaces or dashes, and
+      only the owner can change a collage's code
+    - `generate_random_code()` now returns `generate_collage_code()`
+
+  2. Notes
+    - Change the config with SQL, e.g. UPDATE collage_code_config SET code_length = 5;
+    - Tests: supabase/tests/database/collage_codes.test.sql (pgTAP, run with `supabase test db`)
+
+  3. Benefits
+    - Codes are unique by construction instead of by luck, and guests can't mistype 0 for O
+*/
+
+CREATE TABLE IF NOT EXISTS collage_code_config (
+  id boolean PRIMARY KEY DEFAULT true,
+  code_length integer NOT NULL DEFAULT 4,
+  alphabet text NOT NULL DEFAULT '23456789ABCDEFGHJKLMNPQRSTUVWXYZ',
+  max_attempts integer NOT NULL DEFAULT 20,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO collage_code_config (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_code_config_single_row'
+  ) THEN
+    ALTER TABLE collage_code_config ADD CONSTRAINT collage_code_config_single_row
+      CHECK (id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_code_config_length_range'
+  ) THEN
+    ALTER TABLE collage_code_config ADD CONSTRAINT collage_code_config_length_range
+      CHECK (code_length BETWEEN 4 AND 12);
+  END IF;
+
+  -- Upper-case letters and digits only, none of the look-alikes, and enough of them to go round
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_code_config_alphabet_format'
+  ) THEN
+    ALTER TABLE collage_code_config ADD CONSTRAINT collage_code_config_alphabet_format
+      CHECK (alphabet ~ '^[A-Z0-9]+$' AND alphabet !~ '[0O1I]' AND char_length(alphabet) >= 16);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collage_code_config_attempts_range'
+  ) THEN
+    ALTER TABLE collage_code_config ADD CONSTRAINT collage_code_config_attempts_range
+      CHECK (max_attempts BETWEEN 1 AND 100);
+  END IF;
+END $$;
+
+-- Changed with SQL only - no client policies
+ALTER TABLE collage_code_config ENABLE ROW LEVEL SECURITY;
+
+-- Random codes from the config plus vanity codes
+ALTER TABLE collages DROP CONSTRAINT IF EXISTS code_format;
+ALTER TABLE collages ADD CONSTRAINT code_format
+  CHECK (code ~ '^[A-Z0-9]{4,20}$');
+
+CREATE OR REPLACE FUNCTION generate_collage_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config collage_code_config%ROWTYPE;
+  code_length integer;
+  candidate text;
+  attempt integer;
+  i integer;
+BEGIN
+  SELECT * INTO config FROM collage_code_config WHERE id;
+  IF NOT FOUND THEN
+    config.code_length := 4;
+    config.alphabet := '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+    config.max_attempts := 20;
+  END IF;
+
+  code_length := config.code_length;
+  LOOP
+    FOR attempt IN 1..config.max_attempts LOOP
+      candidate := '';
+      FOR i IN 1..code_length LOOP
+        candidate := candidate || substr(config.alphabet, 1 + floor(random() * char_length(config.alphabet))::integer, 1);
+      END LOOP;
+
+      IF NOT EXISTS (SELECT 1 FROM collages WHERE code = candidate) THEN
+        RETURN candidate;
+      END IF;
+    END LOOP;
+
+    -- This length is crowded - a longer code beats failing to create the collage
+    code_length := code_length + 1;
+    IF code_length > 20 THEN
+      RAISE EXCEPTION 'Could not generate a unique collage code';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Kept for anything still calling the old 4-character generator
+CREATE OR REPLACE FUNCTION generate_random_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT generate_collage_code();
+$$;
+
+ALTER TABLE collages ALTER COLUMN code SET DEFAULT generate_collage_code();
+
+-- "smith-wedding" and "Smith Wedding" both become SMITHWEDDING
+CREATE OR REPLACE FUNCTION normalize_collage_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.code := upper(regexp_replace(NEW.code, '[\s-]', '', 'g'));
+
+  -- Co-hosts can update collages, but a new code breaks printed QR codes - the owner decides
+  IF TG_OP = 'UPDATE'
+     AND NEW.code IS DISTINCT FROM OLD.code
+     AND auth.uid() IS NOT NULL
+     AND NOT is_collage_owner(NEW.id) THEN
+    RAISE EXCEPTION 'Only the owner can change the collage code' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_collage_code ON collages;
+CREATE TRIGGER normalize_collage_code
+  BEFORE INSERT OR UPDATE OF code ON collages
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_collage_code();
+
+-- Runs as the caller, so collages_insert_own still decides who can create collages
+CREATE OR REPLACE FUNCTION create_collage(p_name text, p_code text DEFAULT NULL)
+RETURNS collages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  vanity_code text := NULLIF(btrim(p_code), '');
+  created collages;
+  attempt integer := 0;
+BEGIN
+  LOOP
+    attempt := attempt + 1;
+    BEGIN
+      INSERT INTO collages (name, code)
+      VALUES (p_name, COALESCE(vanity_code, generate_collage_code()))
+      RETURNING * INTO created;
+      RETURN created;
+    EXCEPTION WHEN unique_violation THEN
+      -- The organizer asked for this code - don't hand them a different one
+      IF vanity_code IS NOT NULL THEN
+        RAISE EXCEPTION 'collage_code_taken' USING ERRCODE = '23505';
+      END IF;
+      -- Another insert took the generated code between the check and ours
+      IF attempt >= 5 THEN
+        RAISE;
+      END IF;
+    END;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_collage_code() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_collage(text, text) TO authenticated;
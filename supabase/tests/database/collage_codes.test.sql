@@ -0,0 +1,125 @@
+-- supabase/tests/database/collage_codes.test.sql - Generated and vanity collage codes
+-- Run against the local stack with `supabase test db` (pgTAP). Everything happens inside one
+-- transaction and is rolled back.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Fixtures, created as postgres: Alice owns OLD0, Bob co-hosts it
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+INSERT INTO collages (id, code, name, user_id) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'OLD0', 'Legacy Code', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO collage_members (collage_id, user_id, email, role) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'bob@example.com', 'co_host');
+
+SELECT ok(
+  (SELECT bool_and(generate_collage_code() ~ '^[23456789ABCDEFGHJKLMNPQRSTUVWXYZ]{4}$') FROM generate_series(1, 50)),
+  'generated codes are 4 characters without 0, O, 1 or I'
+);
+
+UPDATE collage_code_config SET code_length = 6;
+SELECT is(char_length(generate_collage_code()), 6, 'the code length comes from the config');
+
+SELECT throws_ok(
+  $$ UPDATE collage_code_config SET alphabet = '0123456789ABCDEF' $$,
+  '23514',
+  NULL,
+  'the alphabet cannot contain look-alike characters'
+);
+
+UPDATE collage_code_config SET code_length = 4;
+
+WITH inserted AS (
+  INSERT INTO collages (name, user_id) VALUES ('No Code', '11111111-1111-1111-1111-111111111111') RETURNING code
+)
+SELECT ok(
+  code ~ '^[23456789ABCDEFGHJKLMNPQRSTUVWXYZ]{4}$',
+  'inserts without a code get a generated one'
+) FROM inserted;
+
+SELECT is(
+  (SELECT code FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'OLD0',
+  'existing 4-character codes stay valid'
+);
+
+-- Organizers
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT ok(
+  (SELECT code ~ '^[23456789ABCDEFGHJKLMNPQRSTUVWXYZ]{4}$' AND user_id = '11111111-1111-1111-1111-111111111111'
+     FROM create_collage('Generated')),
+  'create_collage picks a code and makes the caller the owner'
+);
+
+SELECT is(
+  (SELECT code FROM create_collage('Smith Wedding', 'smith-wedding')),
+  'SMITHWEDDING',
+  'vanity codes are stored upper-case without dashes'
+);
+
+SELECT throws_ok(
+  $$ SELECT create_collage('Copycat', 'Smith Wedding') $$,
+  '23505',
+  'collage_code_taken',
+  'a taken vanity code is refused, not replaced'
+);
+
+SELECT throws_ok(
+  $$ SELECT create_collage('Too Short', 'ABC') $$,
+  '23514',
+  NULL,
+  'vanity codes need at least 4 characters'
+);
+
+SELECT throws_ok(
+  $$ SELECT create_collage('Shouting', 'PARTY!') $$,
+  '23514',
+  NULL,
+  'vanity codes are letters and digits only'
+);
+
+SELECT lives_ok(
+  $$ UPDATE collages SET code = 'alice party' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+  'the owner can change the code'
+);
+
+SELECT is(
+  (SELECT code FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'ALICEPARTY',
+  'changed codes are normalized too'
+);
+
+-- Co-host
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE collages SET code = 'BOBSPARTY' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+  '42501',
+  'Only the owner can change the collage code',
+  'co-hosts cannot change the code'
+);
+
+-- Guests
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ SELECT create_collage('Drive By') $$,
+  '42501',
+  NULL,
+  'guests cannot create collages'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,194 @@
+-- supabase/tests/database/collage_roles.test.sql - Collaborator roles and invites
+-- Run against the local stack with `supabase test db` (pgTAP). Everything happens inside one
+-- transaction and is rolled back.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(21);
+
+-- Fixtures, created as postgres: Alice owns the collage, Carol co-hosts, Bob moderates, Dave views,
+-- Frank hasn't confirmed his email yet
+INSERT INTO auth.users (id, email, email_confirmed_at) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', now()),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', now()),
+  ('33333333-3333-3333-3333-333333333333', 'carol@example.com', now()),
+  ('44444444-4444-4444-4444-444444444444', 'dave@example.com', now()),
+  ('55555555-5555-5555-5555-555555555555', 'erin@example.com', now()),
+  ('66666666-6666-6666-6666-666666666666', 'frank@example.com', NULL);
+
+INSERT INTO collages (id, code, name, user_id) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'TEAM', 'Team Party', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO collage_members (collage_id, user_id, email, role) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'bob@example.com', 'moderator'),
+  ('aaaaaaaa-0000-0000-0000-000000000001', '33333333-3333-3333-3333-333333333333', 'carol@example.com', 'co_host'),
+  ('aaaaaaaa-0000-0000-0000-000000000001', '44444444-4444-4444-4444-444444444444', 'dave@example.com', 'viewer');
+
+INSERT INTO photos (id, collage_id, url) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/one.jpg');
+
+INSERT INTO collage_invites (collage_id, email, role, token) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'erin@example.com', 'moderator', 'cccccccc-0000-0000-0000-000000000001'),
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'frank@example.com', 'viewer', 'cccccccc-0000-0000-0000-000000000002');
+
+SET LOCAL ROLE authenticated;
+
+-- Bob, moderator
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is(collage_role('aaaaaaaa-0000-0000-0000-000000000001'), 'moderator', 'members get their role');
+
+UPDATE photos SET status = 'rejected' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT status FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  'rejected',
+  'moderators can moderate photos'
+);
+
+UPDATE collage_settings SET settings = '{}'::jsonb WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT isnt(
+  (SELECT settings FROM collage_settings WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  '{}'::jsonb,
+  'moderators cannot change scene settings'
+);
+
+UPDATE collages SET name = 'Bob Party' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT name FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'Team Party',
+  'moderators cannot rename the collage'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO collage_invites (collage_id, email, role) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'friend@example.com', 'co_host') $$,
+  '42501',
+  NULL,
+  'only the owner can invite'
+);
+
+-- Dave, viewer
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+
+UPDATE photos SET status = 'approved' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT status FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  'rejected',
+  'viewers cannot moderate photos'
+);
+
+SELECT ok(
+  (SELECT count(*) FROM moderation_events WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001') > 0,
+  'viewers can read the moderation log'
+);
+
+SELECT is(
+  (SELECT count(*) FROM collage_members WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  3::bigint,
+  'members can see the team'
+);
+
+-- Carol, co-host
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+UPDATE collage_settings SET settings = '{"photoCount": 10}'::jsonb WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT settings FROM collage_settings WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  '{"photoCount": 10}'::jsonb,
+  'co-hosts can change scene settings'
+);
+
+UPDATE collages SET name = 'Carol Party' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT name FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'Carol Party',
+  'co-hosts can rename the collage'
+);
+
+SELECT throws_ok(
+  $$ UPDATE collages SET user_id = '33333333-3333-3333-3333-333333333333' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+  '42501',
+  'Only the owner can transfer a collage',
+  'co-hosts cannot take over the collage'
+);
+
+DELETE FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT ok(
+  EXISTS (SELECT 1 FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'co-hosts cannot delete the collage'
+);
+
+UPDATE collage_members SET role = 'co_host' WHERE user_id = '22222222-2222-2222-2222-222222222222';
+SELECT is(
+  (SELECT role FROM collage_members WHERE user_id = '22222222-2222-2222-2222-222222222222'),
+  'moderator',
+  'co-hosts cannot change roles'
+);
+
+-- Invites
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is(
+  (SELECT collage_name FROM get_collage_invite('cccccccc-0000-0000-0000-000000000001')),
+  'Carol Party',
+  'anyone with the link can see the invite'
+);
+
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT accept_collage_invite('cccccccc-0000-0000-0000-000000000001') $$,
+  '42501',
+  'This invite was sent to erin@example.com',
+  'invites only work for the invited address'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-6666-6666-666666666666", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT accept_collage_invite('cccccccc-0000-0000-0000-000000000002') $$,
+  '42501',
+  'Confirm your email address before accepting this invite',
+  'invites need a confirmed address'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "55555555-5555-5555-5555-555555555555", "role": "authenticated"}', true);
+
+SELECT is(
+  accept_collage_invite('cccccccc-0000-0000-0000-000000000001'),
+  'aaaaaaaa-0000-0000-0000-000000000001'::uuid,
+  'the invited user can accept'
+);
+
+SELECT is(collage_role('aaaaaaaa-0000-0000-0000-000000000001'), 'moderator', 'accepting grants the invited role');
+
+SELECT throws_ok(
+  $$ SELECT accept_collage_invite('cccccccc-0000-0000-0000-000000000001') $$,
+  'P0001',
+  'This invite has already been used',
+  'invites work once'
+);
+
+DELETE FROM collage_members WHERE user_id = '55555555-5555-5555-5555-555555555555';
+SELECT is(collage_role('aaaaaaaa-0000-0000-0000-000000000001'), NULL, 'members can leave');
+
+-- Alice, owner
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+UPDATE collage_members SET role = 'viewer' WHERE user_id = '22222222-2222-2222-2222-222222222222';
+SELECT is(
+  (SELECT role FROM collage_members WHERE user_id = '22222222-2222-2222-2222-222222222222'),
+  'viewer',
+  'the owner can change roles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
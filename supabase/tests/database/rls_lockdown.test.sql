@@ -0,0 +1,265 @@
+-- supabase/tests/database/rls_lockdown.test.sql - Row Level Security for collages, settings and photos
+-- Run against the local stack with `supabase test db` (pgTAP). Everything happens inside one
+-- transaction and is rolled back.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(34);
+
+-- Fixtures, created as postgres: Alice owns an open collage and a closed one, Bob owns nothing,
+-- Carol is a viewer on the open one
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'carol@example.com');
+
+INSERT INTO collages (id, code, name, user_id, uploads_enabled) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'OPEN', 'Alice Party', '11111111-1111-1111-1111-111111111111', true),
+  ('aaaaaaaa-0000-0000-0000-000000000002', 'SHUT', 'Alice Closed', '11111111-1111-1111-1111-111111111111', false);
+
+INSERT INTO collage_members (collage_id, user_id, email, role) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '33333333-3333-3333-3333-333333333333', 'carol@example.com', 'viewer');
+
+INSERT INTO photos (id, collage_id, url) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/one.jpg'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/pending.jpg'),
+  ('bbbbbbbb-0000-0000-0000-000000000003', 'aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/trashed.jpg'),
+  ('bbbbbbbb-0000-0000-0000-000000000004', 'aaaaaaaa-0000-0000-0000-000000000002', 'https://example.com/photos/closed.jpg');
+
+UPDATE photos SET status = 'pending', phash = '0000000000000000' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000002';
+UPDATE photos SET phash = '0000000000000000' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000004';
+UPDATE photos SET deleted_at = now() WHERE id = 'bbbbbbbb-0000-0000-0000-000000000003';
+
+-- Anonymous guest
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM collages WHERE code IN ('OPEN', 'SHUT')),
+  2::bigint,
+  'anon can read collages'
+);
+
+SELECT is(
+  (SELECT count(*) FROM photos WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  1::bigint,
+  'anon can read approved photos'
+);
+
+SELECT is(
+  (SELECT count(*) FROM photos WHERE id IN ('bbbbbbbb-0000-0000-0000-000000000002', 'bbbbbbbb-0000-0000-0000-000000000003')),
+  0::bigint,
+  'anon cannot read pending or trashed photos'
+);
+
+SELECT results_eq(
+  $$ SELECT photo_id, distance FROM find_similar_photos('aaaaaaaa-0000-0000-0000-000000000001', '0000000000000001') $$,
+  $$ VALUES (NULL::uuid, 1) $$,
+  'anon duplicate checks get the distance of a pending photo but not its id'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM find_similar_photos('aaaaaaaa-0000-0000-0000-000000000002', '0000000000000000') $$,
+  'anon cannot run duplicate checks on a collage that does not accept uploads'
+);
+
+SELECT hasnt_function('public', 'test_realtime', ARRAY['uuid'], 'test_realtime is gone');
+
+UPDATE collages SET name = 'Hacked' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT name FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'Alice Party',
+  'anon cannot rename a collage'
+);
+
+DELETE FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT ok(
+  EXISTS (SELECT 1 FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'anon cannot delete a collage'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO collages (code, name) VALUES ('ANON', 'Anonymous') $$,
+  '42501',
+  NULL,
+  'anon cannot create collages'
+);
+
+UPDATE collage_settings SET settings = '{}'::jsonb WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT isnt(
+  (SELECT settings FROM collage_settings WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  '{}'::jsonb,
+  'anon cannot change collage settings'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO collage_settings (collage_id, settings) VALUES ('aaaaaaaa-0000-0000-0000-000000000002', '{}'::jsonb) $$,
+  '42501',
+  NULL,
+  'anon cannot insert collage settings'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/guest.jpg') $$,
+  'anon can upload to a collage that accepts uploads'
+);
+
+INSERT INTO photos (id, collage_id, url, phash) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000005', 'aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/again.jpg', '0000000000000003');
+
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000002', 'https://example.com/photos/late.jpg') $$,
+  '42501',
+  NULL,
+  'anon cannot upload to a collage that does not accept uploads'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url, deleted_at) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/trashed.jpg', now()) $$,
+  '42501',
+  NULL,
+  'anon cannot insert a photo straight into the trash'
+);
+
+UPDATE photos SET status = 'rejected' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT status FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  'approved',
+  'anon cannot moderate photos'
+);
+
+DELETE FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+SELECT ok(
+  EXISTS (SELECT 1 FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  'anon cannot delete photos'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', 'aaaaaaaa-0000-0000-0000-000000000002/late.jpg') $$,
+  '42501',
+  NULL,
+  'anon cannot store files for a collage that does not accept uploads'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', 'not-a-collage/file.jpg') $$,
+  '42501',
+  NULL,
+  'anon cannot store files outside a collage folder'
+);
+
+SELECT is(
+  (SELECT count(*) FROM moderation_events),
+  0::bigint,
+  'anon cannot read the moderation log'
+);
+
+-- Bob, signed in but not the owner
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+UPDATE collages SET name = 'Bob Was Here' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT name FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'Alice Party',
+  'other users cannot rename a collage'
+);
+
+UPDATE photos SET deleted_at = now() WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT deleted_at FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  NULL,
+  'other users cannot trash photos'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO collages (code, name, user_id) VALUES ('FAKE', 'Not Mine', '11111111-1111-1111-1111-111111111111') $$,
+  '42501',
+  NULL,
+  'users cannot create collages owned by someone else'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO collages (code, name) VALUES ('BOBS', 'Bob Party') $$,
+  'users can create collages'
+);
+
+SELECT is(
+  (SELECT user_id FROM collages WHERE code = 'BOBS'),
+  '22222222-2222-2222-2222-222222222222'::uuid,
+  'new collages are owned by their creator'
+);
+
+SELECT is(
+  (SELECT count(*) FROM photos WHERE id IN ('bbbbbbbb-0000-0000-0000-000000000002', 'bbbbbbbb-0000-0000-0000-000000000003')),
+  0::bigint,
+  'other users cannot read pending or trashed photos'
+);
+
+-- Carol, a viewer
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM photos WHERE id IN ('bbbbbbbb-0000-0000-0000-000000000002', 'bbbbbbbb-0000-0000-0000-000000000003')),
+  2::bigint,
+  'the team can read pending and trashed photos'
+);
+
+SELECT is(
+  (SELECT photo_id FROM find_similar_photos('aaaaaaaa-0000-0000-0000-000000000001', '0000000000000000') LIMIT 1),
+  'bbbbbbbb-0000-0000-0000-000000000002'::uuid,
+  'the team gets ids of pending photos from duplicate checks'
+);
+
+-- Alice, the owner
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+UPDATE collages SET name = 'Alice Renamed' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT name FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  'Alice Renamed',
+  'owners can rename their collage'
+);
+
+SELECT is(
+  (SELECT count(*) FROM photos WHERE id IN ('bbbbbbbb-0000-0000-0000-000000000002', 'bbbbbbbb-0000-0000-0000-000000000003')),
+  2::bigint,
+  'owners can read pending and trashed photos'
+);
+
+SELECT is(
+  (SELECT photo_id FROM find_similar_photos('aaaaaaaa-0000-0000-0000-000000000001', '0000000000000000') LIMIT 1),
+  'bbbbbbbb-0000-0000-0000-000000000002'::uuid,
+  'owners get ids of pending photos from duplicate checks'
+);
+
+SELECT is(
+  (SELECT duplicate_of FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000005'),
+  'bbbbbbbb-0000-0000-0000-000000000002'::uuid,
+  'a guest photo is linked to the pending photo it duplicates'
+);
+
+UPDATE photos SET status = 'rejected' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT status FROM photos WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  'rejected',
+  'owners can moderate photos'
+);
+
+SELECT ok(
+  (SELECT count(*) FROM moderation_events WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001') > 0,
+  'owners can read their moderation log'
+);
+
+DELETE FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002';
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM collages WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002'),
+  'owners can delete their collage'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
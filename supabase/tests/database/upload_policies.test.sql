@@ -0,0 +1,335 @@
+-- supabase/tests/database/upload_policies.test.sql - Guest upload PIN, passes, window and limits
+-- Run against the local stack with `supabase test db` (pgTAP). Everything happens inside one
+-- transaction and is rolled back.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(33);
+
+-- Fixtures, created as postgres: Alice owns every collage, Bob moderates PINS
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+INSERT INTO collages (id, code, name, user_id) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'PINS', 'PIN Party', '11111111-1111-1111-1111-111111111111'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', 'SOON', 'Not Yet', '11111111-1111-1111-1111-111111111111'),
+  ('aaaaaaaa-0000-0000-0000-000000000003', 'DONE', 'All Over', '11111111-1111-1111-1111-111111111111'),
+  ('aaaaaaaa-0000-0000-0000-000000000004', 'MORE', 'Other Party', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO collage_members (collage_id, user_id, email, role) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'bob@example.com', 'moderator');
+
+INSERT INTO collage_upload_policies (collage_id, pin, max_per_device, max_photos) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '246802', 2, 4);
+INSERT INTO collage_upload_policies (collage_id, opens_at) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000002', now() + interval '1 day');
+INSERT INTO collage_upload_policies (collage_id, closes_at) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000003', now() - interval '1 hour');
+INSERT INTO collage_upload_policies (collage_id, pin) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000004', '112233');
+
+INSERT INTO photos (id, collage_id, url, upload_device) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/one.jpg', 'dev-a');
+
+-- Guests
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+SELECT set_config('request.headers', '{}', true);
+
+SELECT is(
+  (SELECT count(*)::integer FROM collage_upload_policies),
+  0,
+  'guests cannot read upload policies'
+);
+
+SELECT throws_ok(
+  $$ SELECT upload_denied_reason('aaaaaaaa-0000-0000-0000-000000000001', '0000', 'dev-x') $$,
+  '42501',
+  NULL,
+  'guests cannot call upload_denied_reason directly'
+);
+
+SELECT results_eq(
+  $$ SELECT allowed, reason, pin_required FROM get_upload_access('aaaaaaaa-0000-0000-0000-000000000001') $$,
+  $$ VALUES (false, 'pin_required', true) $$,
+  'get_upload_access asks for the PIN'
+);
+
+SELECT is(
+  (SELECT device_uploads FROM get_upload_access('aaaaaaaa-0000-0000-0000-000000000001')),
+  NULL::integer,
+  'get_upload_access only counts uploads for the device in the request'
+);
+
+SELECT set_config('request.headers', '{"x-upload-device": "dev-a"}', true);
+SELECT results_eq(
+  $$ SELECT pass, reason FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '135791') $$,
+  $$ VALUES (NULL::text, 'pin_invalid'::text) $$,
+  'verify_upload_pin refuses a wrong PIN'
+);
+
+SELECT set_config('request.headers', json_build_object(
+  'x-upload-pass', (SELECT pass FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '246802')),
+  'x-upload-device', 'dev-a'
+)::text, true);
+SELECT set_config('test.pass_a', current_setting('request.headers')::json ->> 'x-upload-pass', true);
+
+SELECT ok(COALESCE(current_setting('test.pass_a', true), '') <> '', 'verify_upload_pin trades the right PIN for a pass');
+
+SELECT results_eq(
+  $$ SELECT allowed, device_uploads, photo_count FROM get_upload_access('aaaaaaaa-0000-0000-0000-000000000001') $$,
+  $$ VALUES (true, 1, 1) $$,
+  'get_upload_access accepts the pass and counts uploads'
+);
+
+SELECT set_config('request.headers', '{}', true);
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/nopin.jpg') $$,
+  '42501',
+  'upload_denied:pin_required',
+  'uploads need a pass'
+);
+
+SELECT is(
+  collage_accepts_uploads('aaaaaaaa-0000-0000-0000-000000000001'),
+  false,
+  'storage uploads need a pass too'
+);
+
+SELECT set_config('request.headers', '{"x-upload-pin": "246802", "x-upload-pass": "made-up", "x-upload-device": "dev-a"}', true);
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/wrong.jpg') $$,
+  '42501',
+  'upload_denied:pin_required',
+  'uploads ignore PINs and made-up passes'
+);
+
+SELECT set_config('request.headers', json_build_object('x-upload-pass', current_setting('test.pass_a'))::text, true);
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/nodevice.jpg') $$,
+  '42501',
+  'upload_denied:device_required',
+  'a per-device limit needs a device id'
+);
+
+SELECT set_config('request.headers', json_build_object('x-upload-pass', current_setting('test.pass_a'), 'x-upload-device', 'dev-a')::text, true);
+SELECT lives_ok(
+  $$ INSERT INTO photos (collage_id, url, upload_device) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/two.jpg', 'spoofed') $$,
+  'guests with a pass can upload'
+);
+
+SELECT is(
+  (SELECT upload_device FROM photos WHERE url = 'https://example.com/photos/two.jpg'),
+  'dev-a',
+  'the device id comes from the header, not the row'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/three.jpg') $$,
+  '42501',
+  'upload_denied:device_limit',
+  'a device stops at max_per_device'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000002', 'https://example.com/photos/early.jpg') $$,
+  '42501',
+  'upload_denied:not_open',
+  'uploads before the window opens are refused'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000003', 'https://example.com/photos/late.jpg') $$,
+  '42501',
+  'upload_denied:closed',
+  'uploads after the window closes are refused'
+);
+
+-- Bob, moderator: no PIN or device needed
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+SELECT set_config('request.headers', '{}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/team.jpg') $$,
+  'moderators skip the PIN and device limit'
+);
+
+SELECT is(
+  (SELECT count(*)::integer FROM collage_upload_policies),
+  0,
+  'moderators cannot read upload policies'
+);
+
+-- More guests until the collage is full (4 photos)
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT set_config('request.headers', json_build_object('x-upload-pass', current_setting('test.pass_a'), 'x-upload-device', 'dev-b')::text, true);
+INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/four.jpg');
+
+SELECT set_config('request.headers', json_build_object('x-upload-pass', current_setting('test.pass_a'), 'x-upload-device', 'dev-c')::text, true);
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/five.jpg') $$,
+  '42501',
+  'upload_denied:collage_full',
+  'the collage stops at max_photos'
+);
+
+-- Alice, owner
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT set_config('request.headers', '{}', true);
+
+SELECT is(
+  (SELECT pin FROM collage_upload_policies WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  '246802',
+  'owners can read the PIN'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/owner.jpg') $$,
+  '42501',
+  'upload_denied:collage_full',
+  'max_photos applies to the team too'
+);
+
+UPDATE photos SET deleted_at = now() WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+
+SELECT throws_ok(
+  $$ UPDATE collage_upload_policies SET pin = '2468' WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+  '23514',
+  NULL,
+  'PINs are 6-8 digits'
+);
+
+UPDATE collage_upload_policies SET pin = '999999' WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001';
+
+-- Guest again: trashing made room, and the new PIN applies
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT set_config('request.headers', json_build_object('x-upload-pass', current_setting('test.pass_a'), 'x-upload-device', 'dev-c')::text, true);
+SELECT throws_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/stale.jpg') $$,
+  '42501',
+  'upload_denied:pin_required',
+  'passes stop working when the PIN changes'
+);
+
+SELECT set_config('request.headers', json_build_object(
+  'x-upload-pass', (SELECT pass FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '999999')),
+  'x-upload-device', 'dev-c'
+)::text, true);
+SELECT set_config('test.pass_c', current_setting('request.headers')::json ->> 'x-upload-pass', true);
+SELECT lives_ok(
+  $$ INSERT INTO photos (collage_id, url) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'https://example.com/photos/six.jpg') $$,
+  'trashing photos makes room under max_photos'
+);
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM get_upload_access('aaaaaaaa-0000-0000-0000-000000000001') $$,
+  $$ VALUES (false, 'collage_full') $$,
+  'get_upload_access reports a full collage'
+);
+
+-- Alice turns uploads off
+RESET ROLE;
+UPDATE collages SET uploads_enabled = false WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002';
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM get_upload_access('aaaaaaaa-0000-0000-0000-000000000002') $$,
+  $$ VALUES (false, 'disabled') $$,
+  'get_upload_access reports uploads turned off'
+);
+
+-- Guessing: 20 wrong PINs lock an IP address on every collage
+DO $$
+BEGIN
+  FOR i IN 1..20 LOOP
+    PERFORM set_config('request.headers', json_build_object('x-upload-device', 'roamer-' || i, 'cf-connecting-ip', '203.0.113.7')::text, true);
+    PERFORM verify_upload_pin(
+      CASE WHEN i % 2 = 0 THEN 'aaaaaaaa-0000-0000-0000-000000000001' ELSE 'aaaaaaaa-0000-0000-0000-000000000004' END::uuid,
+      lpad(i::text, 6, '0')
+    );
+  END LOOP;
+END $$;
+
+SELECT set_config('request.headers', '{"x-upload-device": "roamer-new", "cf-connecting-ip": "203.0.113.7"}', true);
+SELECT results_eq(
+  $$ SELECT pass, reason FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '999999') $$,
+  $$ VALUES (NULL::text, 'pin_locked'::text) $$,
+  'an IP address that guessed wrong 20 times across collages is locked out, even on a new device'
+);
+
+SELECT set_config('request.headers', '{"x-upload-device": "roamer-new", "x-forwarded-for": "198.51.100.4, 10.0.0.1"}', true);
+SELECT ok(
+  (SELECT pass FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '999999')) IS NOT NULL,
+  'other IP addresses still get a pass'
+);
+
+SELECT is(
+  (SELECT count(*)::integer FROM upload_pin_attempts WHERE ip = '203.0.113.7'),
+  0,
+  'guests cannot read PIN attempts'
+);
+
+-- Guessing: 5 wrong PINs lock a device, 50 lock the collage
+SELECT set_config('request.headers', '{"x-upload-device": "guesser"}', true);
+DO $$
+BEGIN
+  FOR i IN 1..5 LOOP
+    PERFORM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', lpad(i::text, 6, '0'));
+  END LOOP;
+END $$;
+
+SELECT results_eq(
+  $$ SELECT pass, reason FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '999999') $$,
+  $$ VALUES (NULL::text, 'pin_locked'::text) $$,
+  'a device that guessed wrong 5 times is locked out, even with the right PIN'
+);
+
+SELECT results_eq(
+  $$ SELECT reason FROM get_upload_access('aaaaaaaa-0000-0000-0000-000000000001') $$,
+  $$ VALUES ('pin_locked'::text) $$,
+  'get_upload_access reports the lockout'
+);
+
+DO $$
+BEGIN
+  FOR i IN 1..45 LOOP
+    PERFORM set_config('request.headers', json_build_object('x-upload-device', 'guesser-' || i)::text, true);
+    PERFORM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', lpad(i::text, 6, '0'));
+  END LOOP;
+END $$;
+
+SELECT set_config('request.headers', '{"x-upload-device": "dev-e"}', true);
+SELECT results_eq(
+  $$ SELECT pass, reason FROM verify_upload_pin('aaaaaaaa-0000-0000-0000-000000000001', '999999') $$,
+  $$ VALUES (NULL::text, 'pin_locked'::text) $$,
+  'switching device ids does not get around the collage-wide limit'
+);
+
+-- Make room again, so only the pass decides
+RESET ROLE;
+UPDATE collage_upload_policies SET max_photos = NULL WHERE collage_id = 'aaaaaaaa-0000-0000-0000-000000000001';
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT set_config('request.headers', json_build_object('x-upload-pass', current_setting('test.pass_c'), 'x-upload-device', 'dev-c')::text, true);
+SELECT is(
+  collage_accepts_uploads('aaaaaaaa-0000-0000-0000-000000000001'),
+  true,
+  'guests who already have a pass keep uploading'
+);
+
+SELECT * FROM finish();
+ROLLBACK;